@@ -0,0 +1,215 @@
+// Reference relay for the 'websocket' collaboration transport. It forwards
+// each message to everyone else on the same channel and tells everyone who
+// is there whenever that changes. Nothing is stored, nobody is authenticated
+// and it has no dependencies, so it's meant for local development only.
+//
+//   npm run relay              listens on port 8787
+//   PORT=9000 npm run relay    listens on port 9000
+//
+// Then start the app with VITE_COLLABORATION_TRANSPORT=websocket.
+
+import { createServer } from 'node:http'
+import { createHash } from 'node:crypto'
+
+const PORT = Number(process.env.PORT ?? 8787)
+// Fixed by RFC 6455 for computing Sec-WebSocket-Accept
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+const OPCODE = { continuation: 0, text: 1, binary: 2, close: 8, ping: 9, pong: 10 }
+// Connections sending bigger messages are closed. Clients split what they
+// publish to stay below this, see MAX_PUBLISH_BYTES in
+// src/lib/collaborationMessages.ts.
+const MAX_MESSAGE_BYTES = 1024 * 1024
+
+// Channel name to the clients that joined it
+const channels = new Map()
+
+function encodeFrame(opcode, payload) {
+  let header
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length])
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4)
+    header[1] = 126
+    header.writeUInt16BE(payload.length, 2)
+  } else {
+    header = Buffer.alloc(10)
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(payload.length), 2)
+  }
+  header[0] = 0x80 | opcode
+  return Buffer.concat([header, payload])
+}
+
+// Complete frames at the front of `buffer`, and whatever follows them
+function decodeFrames(buffer) {
+  const frames = []
+  let offset = 0
+
+  while (buffer.length - offset >= 2) {
+    const first = buffer[offset]
+    const second = buffer[offset + 1]
+    let length = second & 0x7f
+    let cursor = offset + 2
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break
+      length = buffer.readUInt16BE(cursor)
+      cursor += 2
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break
+      length = Number(buffer.readBigUInt64BE(cursor))
+      cursor += 8
+    }
+
+    // Browsers always mask what they send
+    const mask = second & 0x80 ? buffer.subarray(cursor, cursor + 4) : null
+    const start = cursor + (mask ? 4 : 0)
+    if (buffer.length < start + length) break
+
+    const payload = Buffer.from(buffer.subarray(start, start + length))
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4]
+    }
+    frames.push({ fin: (first & 0x80) !== 0, opcode: first & 0x0f, payload })
+    offset = start + length
+  }
+
+  return { frames, rest: buffer.subarray(offset) }
+}
+
+function send(client, message) {
+  if (!client.socket.writable) return
+  client.socket.write(encodeFrame(OPCODE.text, Buffer.from(JSON.stringify(message))))
+}
+
+function close(client, code) {
+  const payload = Buffer.alloc(2)
+  payload.writeUInt16BE(code)
+  client.socket.end(encodeFrame(OPCODE.close, payload))
+}
+
+function sendPresence(channel) {
+  const clients = channels.get(channel)
+  if (!clients) return
+  const peers = Array.from(clients, client => client.peer)
+  clients.forEach(client => send(client, { event: 'presence', peers }))
+}
+
+function leave(client) {
+  const clients = channels.get(client.channel)
+  if (!clients?.delete(client)) return
+  if (clients.size === 0) {
+    channels.delete(client.channel)
+  } else {
+    sendPresence(client.channel)
+  }
+}
+
+function handleMessage(client, text) {
+  let message
+  try {
+    message = JSON.parse(text)
+  } catch {
+    return
+  }
+
+  if (message.action === 'join' && client.channel === null) {
+    if (typeof message.channel !== 'string' || typeof message.peer?.userId !== 'string') return
+    client.channel = message.channel
+    client.peer = { userId: message.peer.userId, metadata: message.peer.metadata ?? {} }
+    if (!channels.has(client.channel)) channels.set(client.channel, new Set())
+    channels.get(client.channel).add(client)
+    sendPresence(client.channel)
+  } else if (message.action === 'publish' && client.channel !== null && typeof message.type === 'string') {
+    const outgoing = {
+      event: 'message',
+      message: {
+        type: message.type,
+        data: message.data,
+        userId: client.peer.userId,
+        metadata: client.peer.metadata,
+        timestamp: Date.now()
+      }
+    }
+    channels.get(client.channel).forEach(other => {
+      if (other !== client) send(other, outgoing)
+    })
+  }
+}
+
+function handleFrame(client, { fin, opcode, payload }) {
+  switch (opcode) {
+    case OPCODE.text:
+    case OPCODE.continuation:
+      client.fragments.push(payload)
+      client.fragmentBytes += payload.length
+      if (client.fragmentBytes > MAX_MESSAGE_BYTES) {
+        client.fragments = []
+        close(client, 1009)
+        return
+      }
+      if (fin) {
+        const text = Buffer.concat(client.fragments).toString('utf8')
+        client.fragments = []
+        client.fragmentBytes = 0
+        handleMessage(client, text)
+      }
+      break
+    case OPCODE.ping:
+      client.socket.write(encodeFrame(OPCODE.pong, payload))
+      break
+    case OPCODE.close:
+      client.socket.end(encodeFrame(OPCODE.close, Buffer.alloc(0)))
+      break
+    default:
+      // Binary messages aren't part of the protocol
+      close(client, 1003)
+  }
+}
+
+const server = createServer((_request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' })
+  response.end('This relay only speaks WebSocket\n')
+})
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key']
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n')
+    return
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64')
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'))
+
+  const client = { socket, channel: null, peer: null, buffer: Buffer.alloc(0), fragments: [], fragmentBytes: 0 }
+
+  socket.on('data', chunk => {
+    // Once closing, whatever else the client sends is ignored
+    if (!socket.writable) return
+    client.buffer = Buffer.concat([client.buffer, chunk])
+    // A frame still arriving can't be bigger than a message
+    if (client.buffer.length > MAX_MESSAGE_BYTES + 14) {
+      close(client, 1009)
+      return
+    }
+    const { frames, rest } = decodeFrames(client.buffer)
+    client.buffer = rest
+    for (const frame of frames) {
+      if (!socket.writable) return
+      handleFrame(client, frame)
+    }
+  })
+  socket.on('close', () => leave(client))
+  socket.on('error', () => socket.destroy())
+})
+
+server.listen(PORT, () => {
+  console.log(`Collaboration relay listening on ws://localhost:${PORT}`)
+})
@@ -1,70 +1,207 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Toolbar } from './components/Toolbar';
-import { Canvas } from './components/Canvas';
+import { BoardHeader } from './components/BoardHeader';
+import { Canvas, type CanvasSize } from './components/Canvas';
+import { ExportDialog } from './components/ExportDialog';
 import { UserPresence } from './components/UserPresence';
-import { WhiteboardElement, Tool, ViewportState } from './types/whiteboard';
+import { SaveStatus } from './components/SaveStatus';
+import { ConnectionStatus } from './components/ConnectionStatus';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ReplayPlayer } from './components/ReplayPlayer';
+import type { WhiteboardElement, Tool, ViewportState, ConnectorStyle, ElementType, Bounds } from './types/whiteboard';
 import { useCollaboration } from './hooks/useCollaboration';
+import { useCurrentUser } from './hooks/useCurrentUser';
 import { useWhiteboardPersistence } from './hooks/useWhiteboardPersistence';
+import { DEFAULT_CONNECTOR_STYLE, isConnector } from './lib/connectors';
+import { rerouteConnectors } from './lib/bindings';
+import { selectByType } from './lib/selection';
+import { generateSyntheticElements, getBenchmarkSize } from './lib/benchmark';
+import { createBoardFile, getBoardFilename, isBoardFile, readBoardFile, serializeBoardFile } from './lib/boardFile';
+import { downloadBlob } from './lib/exportImage';
+import type { BoardSnapshot } from './lib/boardStorage';
+import { type ElementChange, diffBoards, withRemovedElements } from './lib/boardDiff';
+import { parseStoredElements } from './lib/elementSchema';
+import { type Replay, buildReplay } from './lib/replay';
+import { createLogicalClock } from './lib/operations';
+import { createBoardDocument } from './lib/boardDocument';
+import { type UndoEntry, applyUndoState, createUndoEntry } from './lib/undo';
+import { Button } from './components/ui/button';
 import { toast } from 'sonner';
+import { format } from 'date-fns';
 
-function App() {
+// `?benchmark=N` swaps the board for N synthetic elements that are never saved or shared
+const BENCHMARK_SIZE = getBenchmarkSize();
+
+// A snapshot shown in place of the board, marked up against the version before it
+interface SnapshotPreview {
+  snapshot: BoardSnapshot;
+  // The snapshot's elements, which restoring puts back
+  elements: WhiteboardElement[];
+  // Those plus what the snapshot removed, for drawing
+  displayElements: WhiteboardElement[];
+  changes: Map<string, ElementChange>;
+}
+
+// Passed along when navigating to a board
+interface BoardLocationState {
+  viewport?: ViewportState;
+}
+
+interface AppProps {
+  // Session id of the board to open
+  boardId: string;
+}
+
+function App({ boardId }: AppProps) {
+  const navigate = useNavigate();
+  const location = useLocation();
   const [elements, setElements] = useState<WhiteboardElement[]>([]);
   const [activeTool, setActiveTool] = useState<Tool>('pen');
   const [strokeColor, setStrokeColor] = useState('#000000');
   const [strokeWidth, setStrokeWidth] = useState(2);
-  const [viewport, setViewport] = useState<ViewportState>({
+  const [connectorStyle, setConnectorStyle] = useState<ConnectorStyle>(DEFAULT_CONNECTOR_STYLE);
+  // A board opened from a file starts where the file was saved
+  const [viewport, setViewport] = useState<ViewportState>(() => (location.state as BoardLocationState | null)?.viewport ?? {
     x: 0,
     y: 0,
     zoom: 1
   });
-  const [history, setHistory] = useState<WhiteboardElement[][]>([[]]);
+  // Local edits, with the first `historyIndex` of them applied
+  const [history, setHistory] = useState<UndoEntry[]>([]);
   const [historyIndex, setHistoryIndex] = useState(0);
-  
-  // Handle collaborative element updates
-  const handleCollaborativeElementsUpdate = useCallback((newElements: WhiteboardElement[]) => {
-    setElements(newElements);
-    // Don't add to history for collaborative updates to avoid conflicts
-  }, []);
+  const [canvasSize, setCanvasSize] = useState<CanvasSize>({ width: 0, height: 0 });
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [snapshots, setSnapshots] = useState<BoardSnapshot[] | null>(null);
+  const [preview, setPreview] = useState<SnapshotPreview | null>(null);
+  const [isReplayOpen, setIsReplayOpen] = useState(false);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [replayTime, setReplayTime] = useState(0);
+  // Replicated board state, which merges local and remote operations the
+  // same way on every client
+  const [board] = useState(() => createBoardDocument(createLogicalClock()));
+
+  // Show what collaborators changed on the board. Their edits are saved by
+  // whoever made them and never go into history: undo and redo only touch
+  // the elements a local edit changed, leaving everyone else's edits alone.
+  const handleRemoteChange = useCallback(() => {
+    setElements(rerouteConnectors(board.getElements()));
+  }, [board]);
+
+  const currentUser = useCurrentUser();
 
   // Persistence features
-  const { currentSession, saveElements, loadElements } = useWhiteboardPersistence();
+  const {
+    currentSession,
+    saveStatus,
+    createSession,
+    saveOperations,
+    loadElements,
+    readElements,
+    loadSession,
+    renameSession,
+    listSnapshots,
+    createSnapshot,
+    listOperations
+  } = useWhiteboardPersistence({ authorName: currentUser?.displayName });
+  // Renaming replaces the session object; only a different board means reloading
+  const sessionId = currentSession?.id;
 
-  // Collaboration features
-  const { collaboration, currentUser, broadcastCursor, broadcastElementChange } = useCollaboration(handleCollaborativeElementsUpdate);
+  // Collaboration features, on this board's channel once it has loaded
+  const { collaboration, broadcastCursor, broadcastPreview, broadcastOperations } = useCollaboration(
+    BENCHMARK_SIZE ? undefined : sessionId,
+    currentUser,
+    { board, onRemoteChange: handleRemoteChange, readStoredElements: readElements }
+  );
 
-  // Handle elements change with history
-  const handleElementsChange = useCallback((newElements: WhiteboardElement[]) => {
-    setElements(newElements);
-    
-    // Add to history
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newElements);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
-    
-    // Auto-save to database (debounced)
-    if (currentSession) {
-      saveElements(newElements);
+  // Turn a local edit into operations, which are saved and shared instead of
+  // the whole board. Returns the operations and the board with them applied.
+  const commitElements = useCallback((newElements: WhiteboardElement[]) => {
+    // Keep bound connectors attached to whatever moved, resized or was deleted
+    const operations = board.change(rerouteConnectors(newElements));
+    const committed = board.getElements();
+    setElements(committed);
+
+    if (operations.length > 0 && !BENCHMARK_SIZE) {
+      saveOperations(operations, committed);
+      broadcastOperations(operations);
     }
-  }, [history, historyIndex, currentSession, saveElements]);
+    return { operations, committed };
+  }, [board, saveOperations, broadcastOperations]);
+
+  // Handle elements change with history
+  const handleElementsChange = useCallback((changedElements: WhiteboardElement[]) => {
+    const before = board.getElements();
+    const { operations, committed } = commitElements(changedElements);
+
+    // Add to history, unless only the selection changed
+    const entry = createUndoEntry(operations, before, committed);
+    if (!entry) return;
+    setHistory([...history.slice(0, historyIndex), entry]);
+    setHistoryIndex(historyIndex + 1);
+  }, [board, history, historyIndex, commitElements]);
+
+  // Restyle every selected element at once
+  const restyleSelection = useCallback((style: Partial<WhiteboardElement>) => {
+    if (!elements.some(el => el.selected)) return;
+
+    const newElements = elements.map(el => el.selected ? { ...el, ...style } : el);
+    handleElementsChange(newElements);
+  }, [elements, handleElementsChange]);
 
-  // Undo functionality
+  const handleStrokeColorChange = useCallback((color: string) => {
+    setStrokeColor(color);
+    restyleSelection({ color });
+  }, [restyleSelection]);
+
+  const handleStrokeWidthChange = useCallback((width: number) => {
+    setStrokeWidth(width);
+    restyleSelection({ strokeWidth: width });
+  }, [restyleSelection]);
+
+  const handleSelectByType = useCallback((type: ElementType | 'all') => {
+    handleElementsChange(selectByType(elements, type));
+    setActiveTool('select');
+  }, [elements, handleElementsChange]);
+
+  // Apply connector style to new connectors and to any selected ones
+  const handleConnectorStyleChange = useCallback((style: ConnectorStyle) => {
+    setConnectorStyle(style);
+
+    if (!elements.some(el => el.selected && isConnector(el))) return;
+
+    const newElements = elements.map(el => {
+      if (!el.selected || !isConnector(el)) return el;
+      return {
+        ...el,
+        routing: style.routing,
+        startArrowhead: el.type === 'arrow' ? style.startArrowhead : el.startArrowhead,
+        endArrowhead: el.type === 'arrow' ? style.endArrowhead : el.endArrowhead
+      };
+    });
+    handleElementsChange(newElements);
+  }, [elements, handleElementsChange]);
+
+  // Undo functionality; stepping through history is an edit like any other,
+  // so it is saved and shared too
   const handleUndo = useCallback(() => {
     if (historyIndex > 0) {
-      const newIndex = historyIndex - 1;
-      setHistoryIndex(newIndex);
-      setElements(history[newIndex]);
+      const { before, after } = history[historyIndex - 1];
+      setHistoryIndex(historyIndex - 1);
+      commitElements(applyUndoState(board.getElements(), after, before));
     }
-  }, [history, historyIndex]);
+  }, [board, history, historyIndex, commitElements]);
 
   // Redo functionality
   const handleRedo = useCallback(() => {
-    if (historyIndex < history.length - 1) {
-      const newIndex = historyIndex + 1;
-      setHistoryIndex(newIndex);
-      setElements(history[newIndex]);
+    if (historyIndex < history.length) {
+      const { before, after } = history[historyIndex];
+      setHistoryIndex(historyIndex + 1);
+      commitElements(applyUndoState(board.getElements(), before, after));
     }
-  }, [history, historyIndex]);
+  }, [board, history, historyIndex, commitElements]);
 
   // Zoom controls
   const handleZoomIn = useCallback(() => {
@@ -77,168 +214,313 @@ function App() {
     setViewport({ ...viewport, zoom: newZoom });
   }, [viewport]);
 
+  // Open the board from the URL, going back to the dashboard if it is gone
+  useEffect(() => {
+    if (BENCHMARK_SIZE) return;
+
+    loadSession(boardId).then(session => {
+      if (!session) {
+        toast.error('Whiteboard not found');
+        navigate('/', { replace: true });
+      }
+    });
+  }, [boardId, loadSession, navigate]);
+
+  const handleRename = useCallback(async (name: string) => {
+    if (!await renameSession(boardId, name)) {
+      toast.error('Failed to rename whiteboard');
+    }
+  }, [boardId, renameSession]);
+
   // Load elements when session is ready
   useEffect(() => {
-    if (currentSession) {
-      loadElements(currentSession.id).then(loadedElements => {
+    if (BENCHMARK_SIZE) {
+      board.load(generateSyntheticElements(BENCHMARK_SIZE));
+      const syntheticElements = board.getElements();
+      setElements(syntheticElements);
+      setHistory([]);
+      setHistoryIndex(0);
+      return;
+    }
+
+    if (sessionId) {
+      // Edits and remote operations made while loading are merged with what
+      // was stored rather than replaced, so their history stays too
+      loadElements(sessionId).then(loadedElements => {
         if (loadedElements.length > 0) {
-          setElements(loadedElements);
-          setHistory([[], loadedElements]);
-          setHistoryIndex(1);
+          board.load(loadedElements);
+          const routedElements = rerouteConnectors(board.getElements());
+          setElements(routedElements);
         }
       }).catch(error => {
         console.error('Failed to load elements:', error);
         toast.error('Failed to load whiteboard elements');
       });
     }
-  }, [currentSession, loadElements]);
-
-  // Export functionality
-  const handleExport = useCallback(() => {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Set canvas size
-    canvas.width = 1920;
-    canvas.height = 1080;
-
-    // White background
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    // Draw all elements
-    elements.forEach(element => {
-      ctx.strokeStyle = element.color;
-      ctx.lineWidth = element.strokeWidth;
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-
-      switch (element.type) {
-        case 'path':
-          if (element.points && element.points.length > 1) {
-            ctx.beginPath();
-            ctx.moveTo(element.points[0].x, element.points[0].y);
-            for (let i = 1; i < element.points.length; i++) {
-              ctx.lineTo(element.points[i].x, element.points[i].y);
-            }
-            ctx.stroke();
-          }
-          break;
-
-        case 'rectangle':
-          ctx.beginPath();
-          ctx.rect(element.x, element.y, element.width || 0, element.height || 0);
-          if (element.fill) {
-            ctx.fillStyle = element.fill;
-            ctx.fill();
-          }
-          ctx.stroke();
-          break;
-
-        case 'circle': {
-          const radius = Math.min((element.width || 0) / 2, (element.height || 0) / 2);
-          ctx.beginPath();
-          ctx.arc(
-            element.x + (element.width || 0) / 2,
-            element.y + (element.height || 0) / 2,
-            radius,
-            0,
-            2 * Math.PI
-          );
-          if (element.fill) {
-            ctx.fillStyle = element.fill;
-            ctx.fill();
-          }
-          ctx.stroke();
-          break;
-        }
+  }, [sessionId, loadElements, board]);
 
-        case 'line':
-          ctx.beginPath();
-          ctx.moveTo(element.x, element.y);
-          ctx.lineTo(element.x + (element.width || 0), element.y + (element.height || 0));
-          ctx.stroke();
-          break;
-
-        case 'text':
-          ctx.font = `${element.strokeWidth * 4}px Inter, sans-serif`;
-          ctx.fillStyle = element.color;
-          ctx.fillText(element.text || '', element.x, element.y);
-          break;
-
-        case 'sticky-note':
-          // Draw sticky note background
-          ctx.fillStyle = element.fill || '#fef08a';
-          ctx.fillRect(element.x, element.y, element.width || 100, element.height || 100);
-          
-          // Draw border
-          ctx.strokeRect(element.x, element.y, element.width || 100, element.height || 100);
-          
-          // Draw text
-          if (element.text) {
-            ctx.font = `${element.strokeWidth * 3}px Inter, sans-serif`;
-            ctx.fillStyle = '#374151';
-            const lines = element.text.split('\n');
-            lines.forEach((line, index) => {
-              ctx.fillText(
-                line,
-                element.x + 8,
-                element.y + 20 + (index * element.strokeWidth * 4)
-              );
-            });
-          }
-          break;
-      }
+  const refreshSnapshots = useCallback(async () => {
+    if (!sessionId) return;
+    setSnapshots(await listSnapshots(sessionId));
+  }, [sessionId, listSnapshots]);
+
+  const handleToggleHistory = useCallback(() => {
+    if (isHistoryOpen) {
+      setIsHistoryOpen(false);
+      setPreview(null);
+    } else {
+      setIsHistoryOpen(true);
+      setSnapshots(null);
+      refreshSnapshots();
+    }
+  }, [isHistoryOpen, refreshSnapshots]);
+
+  const handleSaveVersion = useCallback(async (label: string) => {
+    if (!sessionId) return;
+    if (await createSnapshot(sessionId, elements, label)) {
+      toast.success(`Saved version "${label}"`);
+      refreshSnapshots();
+    } else {
+      toast.error('Failed to save version');
+    }
+  }, [sessionId, elements, createSnapshot, refreshSnapshots]);
+
+  // Show a snapshot read-only, highlighting what changed since the one before it
+  const handlePreviewSnapshot = useCallback((snapshot: BoardSnapshot) => {
+    const index = snapshots?.findIndex(item => item.id === snapshot.id) ?? -1;
+    const previous = snapshots?.[index + 1];
+    const before = previous ? parseStoredElements(previous.elements) : [];
+    const after = parseStoredElements(snapshot.elements);
+
+    setPreview({
+      snapshot,
+      elements: after,
+      displayElements: rerouteConnectors(withRemovedElements(before, after)),
+      changes: diffBoards(before, after)
     });
+  }, [snapshots]);
+
+  // Restoring is an ordinary edit: it is saved, shared and can be undone.
+  // The board as it was is snapshotted first so nothing is lost on reload.
+  const handleRestoreSnapshot = useCallback(async () => {
+    if (!preview || !sessionId) return;
+
+    await createSnapshot(sessionId, elements);
+    const restored = rerouteConnectors(preview.elements);
+    handleElementsChange(restored);
+    setPreview(null);
+    refreshSnapshots();
+    toast.success('Version restored');
+  }, [preview, sessionId, elements, createSnapshot, handleElementsChange, refreshSnapshots]);
+
+  // Play back the board from its operation log, starting at the beginning
+  const handleOpenReplay = useCallback(async () => {
+    if (!sessionId) return;
+    setIsHistoryOpen(false);
+    setPreview(null);
+    setIsReplayOpen(true);
+    setReplay(null);
+    setReplayTime(0);
+    setReplay(buildReplay(await listOperations(sessionId), elements));
+  }, [sessionId, elements, listOperations]);
+
+  const handleCloseReplay = useCallback(() => {
+    setIsReplayOpen(false);
+    setReplay(null);
+  }, []);
+
+  // What the canvas shows: a replay frame, a snapshot preview or the board itself
+  const canvasElements = useMemo(() => {
+    if (isReplayOpen) return replay ? replay.elementsAt(replayTime) : [];
+    return preview ? preview.displayElements : elements;
+  }, [isReplayOpen, replay, replayTime, preview, elements]);
+  const isViewOnly = isReplayOpen || !!preview;
+
+  // Download the board as a `.board.json` file
+  const handleSaveBoardFile = useCallback(async () => {
+    const name = currentSession?.name ?? 'Untitled Whiteboard';
+    try {
+      const file = await createBoardFile(elements, viewport, {
+        name,
+        createdAt: currentSession?.createdAt,
+        updatedAt: currentSession?.updatedAt
+      });
+      downloadBlob(new Blob([serializeBoardFile(file)], { type: 'application/json' }), getBoardFilename(name));
+    } catch (error) {
+      console.error('Failed to save board file:', error);
+      toast.error('Failed to save board file');
+    }
+  }, [elements, viewport, currentSession]);
+
+  // Open a board file as a new board named after it, leaving this one as it is
+  const handleOpenBoardFile = useCallback(async (file: File) => {
+    try {
+      const imported = await readBoardFile(file);
+      const session = await createSession(imported.name, imported.elements);
+      if (!session) throw new Error('The board could not be created');
+      toast.success(`Imported "${imported.name}"`);
+      navigate(`/board/${session.id}`, { state: { viewport: imported.viewport } satisfies BoardLocationState });
+    } catch (error) {
+      console.error('Failed to import board file:', error);
+      toast.error(`Could not import ${file.name}`, {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  }, [createSession, navigate]);
 
-    // Download the image
-    const link = document.createElement('a');
-    link.download = 'whiteboard.png';
-    link.href = canvas.toDataURL();
-    link.click();
-  }, [elements]);
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFile(true);
+  }, []);
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    // Leaving for a child element is not leaving the board
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDraggingFile(false);
+  }, []);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(false);
+
+    const file = Array.from(e.dataTransfer.files).find(isBoardFile);
+    if (file) {
+      handleOpenBoardFile(file);
+    } else {
+      toast.error('Drop a .board.json file to import a board');
+    }
+  }, [handleOpenBoardFile]);
+
+  // Board area on screen, for exporting the current view
+  const exportView = useMemo<Bounds>(() => ({
+    x: -viewport.x / viewport.zoom,
+    y: -viewport.y / viewport.zoom,
+    width: canvasSize.width / viewport.zoom,
+    height: canvasSize.height / viewport.zoom
+  }), [viewport, canvasSize]);
 
   return (
-    <div className="w-full h-full bg-background relative">
-      <Toolbar
-        activeTool={activeTool}
-        onToolChange={setActiveTool}
-        strokeColor={strokeColor}
-        onStrokeColorChange={setStrokeColor}
-        strokeWidth={strokeWidth}
-        onStrokeWidthChange={setStrokeWidth}
-        onUndo={handleUndo}
-        onRedo={handleRedo}
-        onZoomIn={handleZoomIn}
-        onZoomOut={handleZoomOut}
-        onExport={handleExport}
-        canUndo={historyIndex > 0}
-        canRedo={historyIndex < history.length - 1}
+    <div
+      className="w-full h-full bg-background relative"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      <BoardHeader
+        title={currentSession?.name ?? (BENCHMARK_SIZE ? 'Benchmark' : '')}
+        onRename={handleRename}
       />
+
+      {isReplayOpen ? (
+        <ReplayPlayer
+          replay={replay}
+          time={replayTime}
+          onTimeChange={setReplayTime}
+          onClose={handleCloseReplay}
+        />
+      ) : preview ? (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 bg-white rounded-lg shadow-lg border border-gray-200 px-4 py-2 text-sm">
+          <span className="font-medium">
+            Viewing {preview.snapshot.label ?? format(new Date(preview.snapshot.createdAt), 'MMM d, HH:mm')}
+          </span>
+          <span className="flex items-center gap-2 text-xs text-gray-500">
+            <span className="w-2.5 h-2.5 rounded-sm bg-green-600" /> Added
+            <span className="w-2.5 h-2.5 rounded-sm bg-amber-600" /> Changed
+            <span className="w-2.5 h-2.5 rounded-sm bg-red-600" /> Removed
+          </span>
+          <Button size="sm" className="h-8" onClick={handleRestoreSnapshot}>
+            Restore this version
+          </Button>
+          <Button size="sm" variant="ghost" className="h-8" onClick={() => setPreview(null)}>
+            Back to current
+          </Button>
+        </div>
+      ) : (
+        <Toolbar
+          activeTool={activeTool}
+          onToolChange={setActiveTool}
+          strokeColor={strokeColor}
+          onStrokeColorChange={handleStrokeColorChange}
+          strokeWidth={strokeWidth}
+          onStrokeWidthChange={handleStrokeWidthChange}
+          connectorStyle={connectorStyle}
+          onConnectorStyleChange={handleConnectorStyleChange}
+          showConnectorStyle={elements.some(el => el.selected && isConnector(el))}
+          onSelectByType={handleSelectByType}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          onZoomIn={handleZoomIn}
+          onZoomOut={handleZoomOut}
+          onExport={() => setIsExportOpen(true)}
+          onSaveBoardFile={handleSaveBoardFile}
+          onOpenBoardFile={handleOpenBoardFile}
+          onToggleHistory={handleToggleHistory}
+          isHistoryOpen={isHistoryOpen}
+          onReplay={handleOpenReplay}
+          canUndo={historyIndex > 0}
+          canRedo={historyIndex < history.length}
+        />
+      )}
       
       <Canvas
-        elements={elements}
+        elements={canvasElements}
         onElementsChange={handleElementsChange}
         activeTool={activeTool}
         strokeColor={strokeColor}
         strokeWidth={strokeWidth}
+        connectorStyle={connectorStyle}
         viewport={viewport}
         onViewportChange={setViewport}
         collaboration={collaboration}
         broadcastCursor={broadcastCursor}
-        broadcastElementChange={broadcastElementChange}
+        broadcastPreview={broadcastPreview}
+        showFrameStats={!!BENCHMARK_SIZE}
+        onResize={setCanvasSize}
+        readOnly={isViewOnly}
+        highlights={preview?.changes}
       />
 
+      {isHistoryOpen && (
+        <HistoryPanel
+          snapshots={snapshots}
+          currentUserId={currentUser?.id}
+          previewId={preview?.snapshot.id ?? null}
+          onSaveVersion={handleSaveVersion}
+          onPreview={handlePreviewSnapshot}
+          onClose={handleToggleHistory}
+        />
+      )}
+
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        elements={elements}
+        view={exportView}
+      />
+
+      {isDraggingFile && (
+        <div className="fixed inset-4 z-50 flex items-center justify-center rounded-xl border-2 border-dashed border-indigo-400 bg-indigo-50/80 pointer-events-none">
+          <p className="text-sm font-medium text-indigo-700">Drop a .board.json file to import it</p>
+        </div>
+      )}
+
       {/* User presence indicator */}
       <UserPresence 
         users={collaboration?.users || []}
         currentUserId={currentUser?.id}
       />
 
-      {/* Zoom indicator */}
-      <div className="fixed bottom-4 right-4 bg-white rounded-lg shadow-lg border border-gray-200 px-3 py-2 text-sm font-medium">
-        {Math.round(viewport.zoom * 100)}%
+      <div className="fixed bottom-4 right-4 flex items-center gap-2">
+        {currentSession && !BENCHMARK_SIZE && <ConnectionStatus connection={collaboration.connection} />}
+        {currentSession && !BENCHMARK_SIZE && <SaveStatus status={saveStatus} />}
+
+        {/* Zoom indicator */}
+        <div className="bg-white rounded-lg shadow-lg border border-gray-200 px-3 py-2 text-sm font-medium">
+          {Math.round(viewport.zoom * 100)}%
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,21 @@
+import { BrowserRouter, Navigate, Route, Routes, useParams } from 'react-router-dom';
+import { Dashboard } from './components/Dashboard';
+import App from './App';
+
+// Remount the board when switching boards so no state carries over
+function BoardRoute() {
+  const { id } = useParams();
+  return <App key={id} boardId={id!} />;
+}
+
+export function AppRouter() {
+  return (
+    <BrowserRouter>
+      <Routes>
+        <Route path="/" element={<Dashboard />} />
+        <Route path="/board/:id" element={<BoardRoute />} />
+        <Route path="*" element={<Navigate to="/" replace />} />
+      </Routes>
+    </BrowserRouter>
+  );
+}
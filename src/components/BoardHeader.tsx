@@ -0,0 +1,88 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { LayoutGrid } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
+
+interface BoardHeaderProps {
+  title: string;
+  onRename: (title: string) => void;
+}
+
+export function BoardHeader({ title, onRename }: BoardHeaderProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(title);
+  // Enter and Escape end editing, and the blur that follows must not end it twice
+  const isEditingRef = useRef(false);
+
+  // Follow renames made elsewhere while not editing
+  useEffect(() => {
+    if (!isEditing) {
+      setDraft(title);
+    }
+  }, [title, isEditing]);
+
+  const startEditing = () => {
+    isEditingRef.current = true;
+    setIsEditing(true);
+  };
+
+  const finishEditing = (save: boolean) => {
+    if (!isEditingRef.current) return;
+    isEditingRef.current = false;
+    setIsEditing(false);
+
+    const name = draft.trim();
+    if (save && name && name !== title) {
+      onRename(name);
+    } else {
+      setDraft(title);
+    }
+  };
+
+  return (
+    <TooltipProvider>
+      <div className="fixed top-4 left-4 z-50 bg-white rounded-lg shadow-lg border border-gray-200 p-2 flex items-center gap-2">
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" asChild>
+              <Link to="/">
+                <LayoutGrid className="h-4 w-4" />
+              </Link>
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>All Boards</p>
+          </TooltipContent>
+        </Tooltip>
+
+        {isEditing ? (
+          <Input
+            value={draft}
+            autoFocus
+            onChange={(e) => setDraft(e.target.value)}
+            onFocus={(e) => e.target.select()}
+            onBlur={() => finishEditing(true)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                finishEditing(true);
+              } else if (e.key === 'Escape') {
+                finishEditing(false);
+              }
+            }}
+            className="h-8 w-48 text-sm font-medium"
+          />
+        ) : (
+          <button
+            onClick={startEditing}
+            className="h-8 max-w-48 truncate rounded px-2 text-sm font-medium text-gray-900 hover:bg-gray-100"
+            title="Rename board"
+          >
+            {title}
+          </button>
+        )}
+      </div>
+    </TooltipProvider>
+  );
+}
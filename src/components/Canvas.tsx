@@ -1,7 +1,31 @@
-import { useRef, useEffect, useCallback, useState } from 'react';
-import { WhiteboardElement, Point, Tool, ViewportState, DrawingState, CollaborationState, RichNote } from '../types/whiteboard';
+import { useRef, useEffect, useCallback, useState, useMemo } from 'react';
+import type { WhiteboardElement, Point, Tool, ViewportState, DrawingState, CollaborationState, ConnectorStyle, ConnectorBinding, TransformHandle, TransformState, SelectionArea, Bounds } from '../types/whiteboard';
 import { UserCursors } from './UserCursors';
 import { RichNoteCard } from './RichNoteCard';
+import { getControlOffset, isConnector } from '../lib/connectors';
+import { ANCHOR_POSITIONS, ANCHOR_SNAP_DISTANCE, findBindingTarget, getAnchorPoint, getConnectorsByTarget, resolveBindings, withBoundConnectorIds } from '../lib/bindings';
+import {
+  HANDLE_SIZE,
+  SELECTION_PADDING,
+  findHandleAt,
+  getBoxHandlePositions,
+  getHandlePositions,
+  hitTestHandle,
+  isResizeHandle,
+  moveConnectorEndpoint,
+  moveElements,
+  resizeElement,
+  resizeElements,
+  rotateElement,
+  rotateElements,
+  withRotation
+} from '../lib/transform';
+import { HIT_TOLERANCE, boundsOfPoints, expandBounds, getElementBounds, hitTest, hitTestAll } from '../lib/geometry';
+import { getSelectionBounds, isElementInPolygon, isElementInRect, rectFromPoints, selectWhere } from '../lib/selection';
+import { createSpatialIndex, getPaintBounds, searchSpatialIndex, syncSpatialIndex, updateSpatialIndex } from '../lib/spatialIndex';
+import { renderElement, renderElements, renderGrid } from '../lib/renderer';
+import { createCanvasBackend } from '../lib/canvasBackend';
+import type { ElementChange } from '../lib/boardDiff';
 
 interface CanvasProps {
   elements: WhiteboardElement[];
@@ -9,11 +33,89 @@ interface CanvasProps {
   activeTool: Tool;
   strokeColor: string;
   strokeWidth: number;
+  connectorStyle: ConnectorStyle;
   viewport: ViewportState;
   onViewportChange: (viewport: ViewportState) => void;
   collaboration?: CollaborationState;
   broadcastCursor?: (x: number, y: number) => void;
-  broadcastElementChange?: (elements: WhiteboardElement[]) => void;
+  // Shares the stroke or drag in progress; an empty list when there is none
+  broadcastPreview?: (elements: WhiteboardElement[]) => void;
+  // Overlay redraw timings, for benchmarking large boards
+  showFrameStats?: boolean;
+  onResize?: (size: CanvasSize) => void;
+  // Only panning and zooming, e.g. while previewing a snapshot
+  readOnly?: boolean;
+  // Elements to outline by how they changed
+  highlights?: Map<string, ElementChange>;
+}
+
+interface FrameStats {
+  last: number;
+  average: number;
+  drawn: number;
+}
+
+// Redraws averaged for the frame stats overlay
+const FRAME_SAMPLES = 60;
+
+const HIGHLIGHT_COLORS: Record<ElementChange, string> = {
+  added: '#16A34A',
+  changed: '#D97706',
+  removed: '#DC2626'
+};
+
+export interface CanvasSize {
+  width: number;
+  height: number;
+}
+
+interface StaticPaint {
+  elements: WhiteboardElement[];
+  viewport: ViewportState;
+  size: CanvasSize;
+  pixelRatio: number;
+}
+
+// Elements added, changed or removed between two paints, in either version.
+// Null when the stacking order changed, which needs a full repaint.
+function getDirtyElements(previous: WhiteboardElement[], next: WhiteboardElement[]): WhiteboardElement[] | null {
+  const previousById = new Map(previous.map(el => [el.id, el]));
+  const nextIds = new Set(next.map(el => el.id));
+  const dirty: WhiteboardElement[] = [];
+
+  next.forEach(el => {
+    const old = previousById.get(el.id);
+    if (old === el) return;
+    dirty.push(el);
+    if (old) dirty.push(old);
+  });
+  previous.forEach(el => {
+    if (!nextIds.has(el.id)) dirty.push(el);
+  });
+
+  const keptBefore = previous.filter(el => nextIds.has(el.id)).map(el => el.id);
+  const keptAfter = next.filter(el => previousById.has(el.id)).map(el => el.id);
+  if (keptBefore.some((id, index) => id !== keptAfter[index])) return null;
+
+  return dirty;
+}
+
+// Whole-device-pixel rectangle covering a board area, clipped to the backing store
+function worldToDeviceRect(bounds: Bounds, viewport: ViewportState, pixelRatio: number, canvas: Bounds): Bounds | null {
+  const scale = viewport.zoom * pixelRatio;
+  const left = Math.max(canvas.x, Math.floor(bounds.x * scale + viewport.x * pixelRatio) - 1);
+  const top = Math.max(canvas.y, Math.floor(bounds.y * scale + viewport.y * pixelRatio) - 1);
+  const right = Math.min(canvas.width, Math.ceil((bounds.x + bounds.width) * scale + viewport.x * pixelRatio) + 1);
+  const bottom = Math.min(canvas.height, Math.ceil((bounds.y + bounds.height) * scale + viewport.y * pixelRatio) + 1);
+  if (right <= left || bottom <= top) return null;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+// Maps board coordinates onto the backing store, which has `pixelRatio`
+// device pixels per CSS pixel
+function applyViewportTransform(ctx: CanvasRenderingContext2D, viewport: ViewportState, pixelRatio: number) {
+  const scale = viewport.zoom * pixelRatio;
+  ctx.setTransform(scale, 0, 0, scale, viewport.x * pixelRatio, viewport.y * pixelRatio);
 }
 
 export function Canvas({
@@ -22,13 +124,26 @@ export function Canvas({
   activeTool,
   strokeColor,
   strokeWidth,
+  connectorStyle,
   viewport,
   onViewportChange,
   collaboration,
   broadcastCursor,
-  broadcastElementChange
+  broadcastPreview,
+  showFrameStats = false,
+  onResize,
+  readOnly = false,
+  highlights
 }: CanvasProps) {
+  // Interactive overlay, on top of the cached static layer beneath it
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const staticCanvasRef = useRef<HTMLCanvasElement>(null);
+  // What the static layer last painted, to work out what changed since
+  const staticPaintRef = useRef<StaticPaint | null>(null);
+  const paintedCountRef = useRef(0);
+  // Layout size in CSS pixels; the backing stores are `pixelRatio` times larger
+  const [canvasSize, setCanvasSize] = useState<CanvasSize>({ width: 0, height: 0 });
+  const [pixelRatio, setPixelRatio] = useState(() => window.devicePixelRatio || 1);
   const containerRef = useRef<HTMLDivElement>(null);
   const [drawingState, setDrawingState] = useState<DrawingState>({
     isDrawing: false,
@@ -38,6 +153,112 @@ export function Canvas({
   const [isPanning, setIsPanning] = useState(false);
   const [lastPanPoint, setLastPanPoint] = useState<Point>({ x: 0, y: 0 });
   const [selectedRichNote, setSelectedRichNote] = useState<string | null>(null);
+  // Move, resize, rotate or endpoint drag in progress, committed on mouse up
+  const [transformState, setTransformState] = useState<TransformState | null>(null);
+  // Element the connector being drawn would attach to if released now
+  const [bindingTarget, setBindingTarget] = useState<ConnectorBinding | null>(null);
+  // Marquee or lasso being dragged out
+  const [selectionArea, setSelectionArea] = useState<SelectionArea | null>(null);
+  // Holding space turns any drag into a pan
+  const [isSpacePressed, setIsSpacePressed] = useState(false);
+  // Elements swept by the eraser so far, removed on mouse up
+  const [erasedIds, setErasedIds] = useState<Set<string> | null>(null);
+
+  const elementLookup = useMemo(() => new Map(elements.map(el => [el.id, el])), [elements]);
+  const elementOrder = useMemo(() => new Map(elements.map((el, index) => [el.id, index])), [elements]);
+  const connectorsByTarget = useMemo(() => getConnectorsByTarget(elements), [elements]);
+
+  // Committed elements as drawn, less any the eraser has swept
+  const displayElements = useMemo(
+    () => erasedIds ? elements.filter(el => !erasedIds.has(el.id)) : elements,
+    [elements, erasedIds]
+  );
+
+  // What the transform in progress redraws: the elements it moves and the
+  // connectors bound to them. Fixed for the whole gesture, so each pointer
+  // move only touches these.
+  const transformOriginals = transformState?.originals;
+  const transformedIds = useMemo(
+    () => transformOriginals ? withBoundConnectorIds(transformOriginals, connectorsByTarget) : null,
+    [transformOriginals, connectorsByTarget]
+  );
+
+  // Transformed elements by id, with bound connectors rerouted around them
+  const transformPreviews = useMemo(() => {
+    if (!transformState || !transformedIds) return null;
+    const previews = new Map(transformState.previews.map(el => [el.id, el]));
+    const lookup = { get: (id: string) => previews.get(id) ?? elementLookup.get(id) };
+    transformedIds.forEach(id => {
+      const element = lookup.get(id);
+      if (!element) return;
+      previews.set(id, element.startBinding || element.endBinding ? resolveBindings(element, lookup) : element);
+    });
+    return previews;
+  }, [transformState, transformedIds, elementLookup]);
+
+  // Committed elements live on the static layer; anything the current
+  // gesture has replaced is drawn on the overlay until it is committed
+  const staticElements = useMemo(
+    () => transformedIds ? displayElements.filter(el => !transformedIds.has(el.id)) : displayElements,
+    [displayElements, transformedIds]
+  );
+  const activeElements = useMemo(
+    () => transformPreviews
+      ? Array.from(transformPreviews.values()).sort((a, b) => elementOrder.get(a.id)! - elementOrder.get(b.id)!)
+      : [],
+    [transformPreviews, elementOrder]
+  );
+
+  const staticSelection = useMemo(() => staticElements.filter(el => el.selected), [staticElements]);
+  const selectedElements = useMemo(
+    () => activeElements.length > 0 ? [...staticSelection, ...activeElements.filter(el => el.selected)] : staticSelection,
+    [staticSelection, activeElements]
+  );
+
+  // What other users are drawing or dragging, drawn on the overlay
+  const remotePreviews = collaboration?.previews;
+
+  // Share this user's stroke or drag in progress the same way
+  const localPreview = useMemo(
+    () => drawingState.currentElement ? [drawingState.currentElement] : activeElements,
+    [drawingState.currentElement, activeElements]
+  );
+  useEffect(() => {
+    broadcastPreview?.(localPreview);
+  }, [localPreview, broadcastPreview]);
+  useEffect(() => () => broadcastPreview?.([]), [broadcastPreview]);
+
+  // Quadtree over the displayed elements, updated in place as they change.
+  // Committed elements are only walked when they change; previews replace
+  // their entries while a transform lasts.
+  const spatialIndexRef = useRef(createSpatialIndex());
+  const indexedElementsRef = useRef<WhiteboardElement[] | null>(null);
+  const indexedPreviewsRef = useRef<string[]>([]);
+  const spatialIndex = useMemo(() => {
+    const index = spatialIndexRef.current;
+    if (indexedElementsRef.current !== displayElements) {
+      syncSpatialIndex(index, displayElements);
+      indexedElementsRef.current = displayElements;
+    }
+
+    // Previews of a transform that ended without a commit go back to the
+    // committed elements
+    const restored = indexedPreviewsRef.current
+      .filter(id => !transformPreviews?.has(id))
+      .flatMap(id => elementLookup.get(id) ?? []);
+    updateSpatialIndex(index, restored);
+    if (transformPreviews) updateSpatialIndex(index, transformPreviews.values());
+    indexedPreviewsRef.current = transformPreviews ? Array.from(transformPreviews.keys()) : [];
+    return index;
+  }, [displayElements, transformPreviews, elementLookup]);
+
+  // Elements that could be under `point`, in drawing order
+  const elementsNear = useCallback((point: Point, margin = 0) => (
+    searchSpatialIndex(spatialIndex, expandBounds({ ...point, width: 0, height: 0 }, HIT_TOLERANCE / viewport.zoom + margin))
+  ), [spatialIndex, viewport.zoom]);
+
+  const frameTimesRef = useRef<number[]>([]);
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
 
   // Generate unique ID
   const generateId = () => Math.random().toString(36).substr(2, 9);
@@ -54,159 +275,248 @@ export function Canvas({
     };
   }, [viewport]);
 
-  // Draw grid
-  const drawGrid = useCallback((ctx: CanvasRenderingContext2D) => {
-    const gridSize = 20;
-    const startX = Math.floor(-viewport.x / viewport.zoom / gridSize) * gridSize;
-    const startY = Math.floor(-viewport.y / viewport.zoom / gridSize) * gridSize;
-    const endX = startX + (window.innerWidth / viewport.zoom) + gridSize;
-    const endY = startY + (window.innerHeight / viewport.zoom) + gridSize;
+  // Dashed box around a selected shape
+  const drawSelectionOutline = useCallback((ctx: CanvasRenderingContext2D, element: WhiteboardElement) => {
+    const bounds = getElementBounds(element);
+    ctx.strokeStyle = '#4F46E5';
+    ctx.lineWidth = 2 / viewport.zoom;
+    ctx.setLineDash([5 / viewport.zoom, 5 / viewport.zoom]);
+    withRotation(ctx, element, () => {
+      ctx.strokeRect(
+        bounds.x - SELECTION_PADDING,
+        bounds.y - SELECTION_PADDING,
+        bounds.width + SELECTION_PADDING * 2,
+        bounds.height + SELECTION_PADDING * 2
+      );
+    });
+    ctx.setLineDash([]);
+  }, [viewport.zoom]);
+
+  // Tinted box around an element that was added, changed or removed; removals are dashed
+  const drawHighlight = useCallback((ctx: CanvasRenderingContext2D, element: WhiteboardElement, change: ElementChange) => {
+    const bounds = getElementBounds(element);
+    const color = HIGHLIGHT_COLORS[change];
+    ctx.strokeStyle = color;
+    ctx.fillStyle = `${color}1f`;
+    ctx.lineWidth = 2 / viewport.zoom;
+    ctx.setLineDash(change === 'removed' ? [6 / viewport.zoom, 4 / viewport.zoom] : []);
+    withRotation(ctx, element, () => {
+      const x = bounds.x - SELECTION_PADDING;
+      const y = bounds.y - SELECTION_PADDING;
+      const width = bounds.width + SELECTION_PADDING * 2;
+      const height = bounds.height + SELECTION_PADDING * 2;
+      ctx.fillRect(x, y, width, height);
+      ctx.strokeRect(x, y, width, height);
+    });
+    ctx.setLineDash([]);
+  }, [viewport.zoom]);
+
+  // Draw resize, rotation and endpoint handles
+  const drawHandles = useCallback((ctx: CanvasRenderingContext2D, handles: Partial<Record<TransformHandle, Point>>) => {
+    const size = HANDLE_SIZE / viewport.zoom;
+    ctx.strokeStyle = '#4F46E5';
+    ctx.lineWidth = 1.5 / viewport.zoom;
+    ctx.fillStyle = '#ffffff';
+
+    Object.entries(handles).forEach(([handle, position]) => {
+      ctx.beginPath();
+      if (isResizeHandle(handle as TransformHandle)) {
+        ctx.rect(position.x - size / 2, position.y - size / 2, size, size);
+      } else {
+        ctx.arc(position.x, position.y, size / 2 + 1 / viewport.zoom, 0, 2 * Math.PI);
+      }
+      ctx.fill();
+      ctx.stroke();
+    });
+  }, [viewport.zoom]);
+
+  // Highlight a connector binding target and its fixed anchors
+  const drawBindingTarget = useCallback((ctx: CanvasRenderingContext2D, binding: ConnectorBinding) => {
+    const target = elementLookup.get(binding.elementId);
+    if (!target) return;
+
+    const bounds = getElementBounds(target);
+    ctx.strokeStyle = '#4F46E5';
+    ctx.lineWidth = 2 / viewport.zoom;
+    withRotation(ctx, target, () => {
+      ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    });
+
+    ANCHOR_POSITIONS.forEach(anchor => {
+      const anchorPoint = getAnchorPoint(target, anchor);
+      ctx.beginPath();
+      ctx.arc(anchorPoint.x, anchorPoint.y, (anchor === binding.anchor ? 6 : 4) / viewport.zoom, 0, 2 * Math.PI);
+      ctx.fillStyle = anchor === binding.anchor ? '#4F46E5' : '#ffffff';
+      ctx.fill();
+      ctx.stroke();
+    });
+  }, [elementLookup, viewport.zoom]);
 
-    ctx.strokeStyle = '#f0f0f0';
+  // Draw the marquee rectangle or lasso outline
+  const drawSelectionArea = useCallback((ctx: CanvasRenderingContext2D, area: SelectionArea) => {
+    ctx.strokeStyle = '#4F46E5';
+    ctx.fillStyle = 'rgba(79, 70, 229, 0.08)';
     ctx.lineWidth = 1 / viewport.zoom;
+    ctx.setLineDash([4 / viewport.zoom, 4 / viewport.zoom]);
     ctx.beginPath();
 
-    for (let x = startX; x <= endX; x += gridSize) {
-      ctx.moveTo(x, startY);
-      ctx.lineTo(x, endY);
-    }
-
-    for (let y = startY; y <= endY; y += gridSize) {
-      ctx.moveTo(startX, y);
-      ctx.lineTo(endX, y);
+    if (area.mode === 'marquee') {
+      const rect = rectFromPoints(area.points[0], area.points[1]);
+      ctx.rect(rect.x, rect.y, rect.width, rect.height);
+    } else {
+      area.points.forEach((point, index) => {
+        if (index === 0) {
+          ctx.moveTo(point.x, point.y);
+        } else {
+          ctx.lineTo(point.x, point.y);
+        }
+      });
+      ctx.closePath();
     }
 
+    ctx.fill();
     ctx.stroke();
-  }, [viewport]);
+    ctx.setLineDash([]);
+  }, [viewport.zoom]);
 
-  // Draw individual element
-  const drawElement = useCallback((ctx: CanvasRenderingContext2D, element: WhiteboardElement) => {
-    ctx.strokeStyle = element.color;
-    ctx.lineWidth = element.strokeWidth;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
+  // Repaint whatever part of the static layer is out of date: all of it
+  // after a pan, zoom or resize, otherwise just the screen area covered by
+  // elements that were added, changed or removed since the last paint.
+  const paintStaticLayer = useCallback(() => {
+    const canvas = staticCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
 
-    switch (element.type) {
-      case 'path':
-        if (element.points && element.points.length > 1) {
-          ctx.beginPath();
-          ctx.moveTo(element.points[0].x, element.points[0].y);
-          for (let i = 1; i < element.points.length; i++) {
-            ctx.lineTo(element.points[i].x, element.points[i].y);
-          }
-          ctx.stroke();
-        }
-        break;
+    const previous = staticPaintRef.current;
+    const fullArea: Bounds = { x: 0, y: 0, width: canvas.width, height: canvas.height };
+    let dirty: Bounds | null = fullArea;
 
-      case 'rectangle':
-        ctx.beginPath();
-        ctx.rect(element.x, element.y, element.width || 0, element.height || 0);
-        if (element.fill) {
-          ctx.fillStyle = element.fill;
-          ctx.fill();
-        }
-        ctx.stroke();
-        break;
-
-      case 'circle': {
-        const radius = Math.min((element.width || 0) / 2, (element.height || 0) / 2);
-        ctx.beginPath();
-        ctx.arc(
-          element.x + (element.width || 0) / 2,
-          element.y + (element.height || 0) / 2,
-          radius,
-          0,
-          2 * Math.PI
-        );
-        if (element.fill) {
-          ctx.fillStyle = element.fill;
-          ctx.fill();
-        }
-        ctx.stroke();
-        break;
+    if (
+      previous &&
+      previous.viewport === viewport &&
+      previous.size === canvasSize &&
+      previous.pixelRatio === pixelRatio
+    ) {
+      if (previous.elements === staticElements) return;
+      const changed = getDirtyElements(previous.elements, staticElements);
+      if (changed?.length === 0) return;
+      if (changed) {
+        dirty = worldToDeviceRect(getPaintBounds(changed), viewport, pixelRatio, fullArea);
       }
+    }
 
-      case 'line':
-        ctx.beginPath();
-        ctx.moveTo(element.x, element.y);
-        ctx.lineTo(element.x + (element.width || 0), element.y + (element.height || 0));
-        ctx.stroke();
-        break;
+    staticPaintRef.current = { elements: staticElements, viewport, size: canvasSize, pixelRatio };
+    if (!dirty) return;
 
-      case 'text':
-        ctx.font = `${element.strokeWidth * 4}px Inter, sans-serif`;
-        ctx.fillStyle = element.color;
-        ctx.fillText(element.text || '', element.x, element.y);
-        break;
+    // The dirty rect is in device pixels, so clip before any scaling
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.beginPath();
+    ctx.rect(dirty.x, dirty.y, dirty.width, dirty.height);
+    ctx.clip();
+    ctx.clearRect(dirty.x, dirty.y, dirty.width, dirty.height);
 
-      case 'sticky-note':
-        // Draw sticky note background
-        ctx.fillStyle = element.fill || '#fef08a';
-        ctx.fillRect(element.x, element.y, element.width || 100, element.height || 100);
-        
-        // Draw border
-        ctx.strokeRect(element.x, element.y, element.width || 100, element.height || 100);
-        
-        // Draw text
-        if (element.text) {
-          ctx.font = `${element.strokeWidth * 3}px Inter, sans-serif`;
-          ctx.fillStyle = '#374151';
-          const lines = element.text.split('\n');
-          lines.forEach((line, index) => {
-            ctx.fillText(
-              line,
-              element.x + 8,
-              element.y + 20 + (index * element.strokeWidth * 4)
-            );
-          });
-        }
-        break;
-    }
+    applyViewportTransform(ctx, viewport, pixelRatio);
 
-    // Draw selection indicator
-    if (element.selected) {
-      ctx.strokeStyle = '#4F46E5';
-      ctx.lineWidth = 2 / viewport.zoom;
-      ctx.setLineDash([5 / viewport.zoom, 5 / viewport.zoom]);
-      ctx.strokeRect(
-        element.x - 5,
-        element.y - 5,
-        (element.width || 0) + 10,
-        (element.height || 0) + 10
-      );
-      ctx.setLineDash([]);
-    }
-  }, [viewport]);
+    const scale = viewport.zoom * pixelRatio;
+    const area: Bounds = {
+      x: (dirty.x - viewport.x * pixelRatio) / scale,
+      y: (dirty.y - viewport.y * pixelRatio) / scale,
+      width: dirty.width / scale,
+      height: dirty.height / scale
+    };
+    const backend = createCanvasBackend(ctx);
+    renderGrid(backend, area, 1 / viewport.zoom);
 
-  // Draw all elements on canvas
-  const redraw = useCallback(() => {
+    // The index also holds in-flight previews, which belong to the overlay
+    const painted = searchSpatialIndex(spatialIndex, area).filter(el => elementLookup.get(el.id) === el);
+    renderElements(backend, painted);
+
+    ctx.restore();
+    paintedCountRef.current = painted.length;
+  }, [staticElements, spatialIndex, elementLookup, viewport, canvasSize, pixelRatio]);
+
+  // The overlay is cheap enough to clear and repaint on every pointer event
+  const paintOverlay = useCallback(() => {
     const canvas = canvasRef.current;
     const ctx = canvas?.getContext('2d');
     if (!canvas || !ctx) return;
 
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    // Save context and apply viewport transform
     ctx.save();
-    ctx.translate(viewport.x, viewport.y);
-    ctx.scale(viewport.zoom, viewport.zoom);
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, canvasSize.width, canvasSize.height);
+    applyViewportTransform(ctx, viewport, pixelRatio);
 
-    // Draw grid
-    drawGrid(ctx);
+    // Other users' strokes and drags, faded until they are committed
+    const backend = createCanvasBackend(ctx);
+    if (remotePreviews?.length) {
+      ctx.globalAlpha = 0.6;
+      remotePreviews.forEach(preview => renderElements(backend, preview.elements));
+      ctx.globalAlpha = 1;
+    }
 
-    // Draw all elements
-    elements.forEach(element => {
-      drawElement(ctx, element);
-    });
+    // Elements mid-transform, and connectors rerouted around them
+    renderElements(backend, activeElements);
+
+    if (highlights) {
+      displayElements.forEach(element => {
+        const change = highlights.get(element.id);
+        if (change) drawHighlight(ctx, element, change);
+      });
+    }
+
+    // Selection chrome goes on top of everything so it stays grabbable.
+    // A multi-selection shares one box.
+    selectedElements
+      .filter(element => !isConnector(element))
+      .forEach(element => drawSelectionOutline(ctx, element));
+
+    if (selectedElements.length === 1) {
+      drawHandles(ctx, getHandlePositions(selectedElements[0], viewport.zoom));
+    } else if (selectedElements.length > 1) {
+      const bounds = getSelectionBounds(selectedElements)!;
+      ctx.strokeStyle = '#4F46E5';
+      ctx.lineWidth = 1 / viewport.zoom;
+      ctx.strokeRect(
+        bounds.x - SELECTION_PADDING,
+        bounds.y - SELECTION_PADDING,
+        bounds.width + SELECTION_PADDING * 2,
+        bounds.height + SELECTION_PADDING * 2
+      );
+      drawHandles(ctx, getBoxHandlePositions(bounds, viewport.zoom, 0, true));
+    }
 
     // Draw current drawing
     if (drawingState.currentElement) {
-      drawElement(ctx, drawingState.currentElement);
+      renderElement(backend, drawingState.currentElement);
+    }
+
+    if (bindingTarget) {
+      drawBindingTarget(ctx, bindingTarget);
+    }
+
+    if (selectionArea) {
+      drawSelectionArea(ctx, selectionArea);
     }
 
     ctx.restore();
-  }, [elements, viewport, drawingState.currentElement, drawGrid, drawElement]);
+  }, [remotePreviews, activeElements, selectedElements, displayElements, highlights, viewport, canvasSize, pixelRatio, drawingState.currentElement, bindingTarget, selectionArea, drawSelectionOutline, drawHighlight, drawHandles, drawBindingTarget, drawSelectionArea]);
+
+  const redraw = useCallback(() => {
+    const startTime = performance.now();
+    paintStaticLayer();
+    paintOverlay();
+
+    if (showFrameStats) {
+      const frameTimes = [...frameTimesRef.current, performance.now() - startTime].slice(-FRAME_SAMPLES);
+      frameTimesRef.current = frameTimes;
+      setFrameStats({
+        last: frameTimes[frameTimes.length - 1],
+        average: frameTimes.reduce((sum, time) => sum + time, 0) / frameTimes.length,
+        drawn: paintedCountRef.current
+      });
+    }
+  }, [paintStaticLayer, paintOverlay, showFrameStats]);
 
   // Create new element
   const createNewElement = useCallback((tool: Tool, point: Point, color: string, width: number): WhiteboardElement => {
@@ -248,6 +558,22 @@ export function Canvas({
           strokeWidth: width,
           fill: '#fef08a'
         };
+
+      case 'line':
+      case 'arrow':
+        return {
+          id,
+          type: tool,
+          x: point.x,
+          y: point.y,
+          width: 0,
+          height: 0,
+          color,
+          strokeWidth: width,
+          routing: connectorStyle.routing,
+          startArrowhead: tool === 'arrow' ? connectorStyle.startArrowhead : 'none',
+          endArrowhead: tool === 'arrow' ? connectorStyle.endArrowhead : 'none'
+        };
       
       default:
         return {
@@ -261,7 +587,7 @@ export function Canvas({
           strokeWidth: width
         };
     }
-  }, []);
+  }, [connectorStyle]);
 
   // Update element with new point
   const updateElementWithPoint = useCallback((
@@ -278,6 +604,7 @@ export function Canvas({
       
       case 'rectangle':
       case 'circle':
+      case 'rich-note':
         return {
           ...element,
           width: point.x - element.x,
@@ -285,6 +612,7 @@ export function Canvas({
         };
       
       case 'line':
+      case 'arrow':
         return {
           ...element,
           width: point.x - element.x,
@@ -296,63 +624,119 @@ export function Canvas({
     }
   }, []);
 
-  // Check if point is inside element
-  const isPointInElement = useCallback((point: Point, element: WhiteboardElement): boolean => {
-    switch (element.type) {
-      case 'rectangle':
-      case 'sticky-note':
-        return (
-          point.x >= element.x &&
-          point.x <= element.x + (element.width || 0) &&
-          point.y >= element.y &&
-          point.y <= element.y + (element.height || 0)
-        );
-      
-      case 'circle': {
-        const centerX = element.x + (element.width || 0) / 2;
-        const centerY = element.y + (element.height || 0) / 2;
-        const radius = Math.min((element.width || 0) / 2, (element.height || 0) / 2);
-        const distance = Math.sqrt((point.x - centerX) ** 2 + (point.y - centerY) ** 2);
-        return distance <= radius;
-      }
-      
-      default:
-        return false;
+  // Apply the active transform for the current pointer position
+  const applyTransform = useCallback((state: TransformState, point: Point, e: React.MouseEvent): WhiteboardElement[] => {
+    const { handle, origin, originals, bounds } = state;
+    const resizeOptions = { keepAspectRatio: e.shiftKey, fromCenter: e.altKey };
+
+    if (handle === 'move') {
+      return moveElements(originals, point.x - origin.x, point.y - origin.y);
     }
+
+    if (bounds) {
+      return handle === 'rotate'
+        ? rotateElements(originals, bounds, origin, point, e.shiftKey)
+        : resizeElements(originals, bounds, handle, point, resizeOptions);
+    }
+
+    return originals.map(el => {
+      switch (handle) {
+        case 'rotate':
+          return rotateElement(el, origin, point, e.shiftKey);
+        case 'control':
+          return { ...el, controlOffset: getControlOffset(el, point) };
+        case 'start':
+        case 'end':
+          return moveConnectorEndpoint(el, handle, point);
+        default:
+          return resizeElement(el, handle, point, resizeOptions);
+      }
+    });
   }, []);
 
   // Handle mouse down
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     const point = screenToCanvas(e.clientX, e.clientY);
+    const additive = e.shiftKey || e.ctrlKey || e.metaKey;
+
+    // Middle button or space-drag pans with any tool, and any drag pans a read-only board
+    if (e.button === 1 || isSpacePressed || readOnly) {
+      setIsPanning(true);
+      setLastPanPoint({ x: e.clientX, y: e.clientY });
+      return;
+    }
+
+    if (activeTool === 'eraser') {
+      setErasedIds(new Set(hitTestAll(point, elementsNear(point), viewport.zoom).map(el => el.id)));
+      return;
+    }
+
+    if (activeTool === 'lasso') {
+      setSelectionArea({ mode: 'lasso', points: [point], additive });
+      return;
+    }
 
     if (activeTool === 'select') {
+      const selected = elements.filter(el => el.selected);
+
+      // Grab a handle on the selection
+      if (!additive && selected.length > 1) {
+        const bounds = getSelectionBounds(selected)!;
+        const handle = findHandleAt(getBoxHandlePositions(bounds, viewport.zoom, 0, true), point, viewport.zoom);
+        if (handle) {
+          setTransformState({ handle, origin: point, originals: selected, previews: selected, bounds });
+          return;
+        }
+      } else if (!additive && selected.length === 1) {
+        const handle = hitTestHandle(selected[0], point, viewport.zoom);
+        if (handle) {
+          setTransformState({ handle, origin: point, originals: selected, previews: selected });
+          return;
+        }
+      }
+
       // Check if clicking on an element
-      const clickedElement = elements.find(el => isPointInElement(point, el));
-      if (clickedElement) {
-        // Select element
-        const updatedElements = elements.map(el => ({
-          ...el,
-          selected: el.id === clickedElement.id
-        }));
-        onElementsChange(updatedElements);
+      const clickedElement = hitTest(point, elementsNear(point), viewport.zoom);
+      if (clickedElement && additive) {
+        // Shift/ctrl-click toggles the element in or out of the selection
+        onElementsChange(elements.map(el => (
+          el.id === clickedElement.id ? { ...el, selected: !el.selected } : el
+        )));
+      } else if (clickedElement) {
+        // Dragging part of the selection moves all of it; anything else becomes the selection
+        const updatedElements = clickedElement.selected
+          ? elements
+          : elements.map(el => ({ ...el, selected: el.id === clickedElement.id }));
+        if (!clickedElement.selected) {
+          onElementsChange(updatedElements);
+        }
+
+        const moving = updatedElements.filter(el => el.selected);
+        setTransformState({ handle: 'move', origin: point, originals: moving, previews: moving });
       } else {
-        // Start panning
-        setIsPanning(true);
-        setLastPanPoint({ x: e.clientX, y: e.clientY });
-        // Deselect all elements
-        const updatedElements = elements.map(el => ({ ...el, selected: false }));
-        onElementsChange(updatedElements);
+        // Rubber-band selection from empty space
+        setSelectionArea({ mode: 'marquee', points: [point, point], additive });
       }
       return;
     }
 
     // Start drawing
+    let newElement = createNewElement(activeTool, point, strokeColor, strokeWidth);
+
+    // Connectors started on a shape attach to it
+    if (isConnector(newElement)) {
+      const startBinding = findBindingTarget(point, elementsNear(point, ANCHOR_SNAP_DISTANCE / viewport.zoom), viewport.zoom);
+      if (startBinding) {
+        newElement = resolveBindings({ ...newElement, startBinding }, elementLookup);
+      }
+    }
+
     setDrawingState({
       isDrawing: true,
       currentPath: [point],
-      currentElement: createNewElement(activeTool, point, strokeColor, strokeWidth)
+      currentElement: newElement
     });
-  }, [activeTool, elements, isPointInElement, onElementsChange, screenToCanvas, createNewElement, strokeColor, strokeWidth]);
+  }, [activeTool, isSpacePressed, readOnly, elements, elementLookup, elementsNear, viewport.zoom, onElementsChange, screenToCanvas, createNewElement, strokeColor, strokeWidth]);
 
   // Handle mouse move
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
@@ -377,20 +761,75 @@ export function Canvas({
       return;
     }
 
+    if (erasedIds) {
+      const hits = hitTestAll(point, elementsNear(point), viewport.zoom).filter(el => !erasedIds.has(el.id));
+      if (hits.length > 0) {
+        setErasedIds(new Set([...erasedIds, ...hits.map(el => el.id)]));
+      }
+      return;
+    }
+
+    if (selectionArea) {
+      setSelectionArea({
+        ...selectionArea,
+        points: selectionArea.mode === 'marquee'
+          ? [selectionArea.points[0], point]
+          : [...selectionArea.points, point]
+      });
+      return;
+    }
+
+    if (transformState) {
+      let previews = applyTransform(transformState, point, e);
+
+      // Dragged connector endpoints attach to whatever they are dropped on
+      const { handle } = transformState;
+      if (handle === 'start' || handle === 'end') {
+        const connector = previews[0];
+        const otherBinding = handle === 'start' ? connector.endBinding : connector.startBinding;
+        const binding = findBindingTarget(
+          point,
+          elementsNear(point, ANCHOR_SNAP_DISTANCE / viewport.zoom),
+          viewport.zoom,
+          otherBinding ? [otherBinding.elementId] : []
+        );
+        setBindingTarget(binding);
+        previews = [resolveBindings({
+          ...connector,
+          [handle === 'start' ? 'startBinding' : 'endBinding']: binding ?? undefined
+        }, elementLookup)];
+      }
+
+      setTransformState({ ...transformState, previews });
+      return;
+    }
+
     if (!drawingState.isDrawing || !drawingState.currentElement) return;
 
-    const updatedElement = updateElementWithPoint(
+    let updatedElement = updateElementWithPoint(
       drawingState.currentElement,
       point,
       drawingState.currentPath
     );
 
+    if (isConnector(updatedElement)) {
+      const startId = updatedElement.startBinding?.elementId;
+      const endBinding = findBindingTarget(
+        point,
+        elementsNear(point, ANCHOR_SNAP_DISTANCE / viewport.zoom),
+        viewport.zoom,
+        startId ? [startId] : []
+      );
+      setBindingTarget(endBinding);
+      updatedElement = resolveBindings({ ...updatedElement, endBinding: endBinding ?? undefined }, elementLookup);
+    }
+
     setDrawingState({
       ...drawingState,
       currentPath: activeTool === 'pen' ? [...drawingState.currentPath, point] : drawingState.currentPath,
       currentElement: updatedElement
     });
-  }, [screenToCanvas, broadcastCursor, isPanning, lastPanPoint, onViewportChange, viewport, drawingState, updateElementWithPoint, activeTool]);
+  }, [screenToCanvas, broadcastCursor, isPanning, lastPanPoint, onViewportChange, viewport, erasedIds, selectionArea, transformState, applyTransform, drawingState, updateElementWithPoint, elementsNear, elementLookup, activeTool]);
 
   // Handle mouse up
   const handleMouseUp = useCallback(() => {
@@ -399,13 +838,47 @@ export function Canvas({
       return;
     }
 
+    if (erasedIds) {
+      if (erasedIds.size > 0) {
+        const newElements = elements.filter(el => !erasedIds.has(el.id));
+        onElementsChange(newElements);
+      }
+      setErasedIds(null);
+      return;
+    }
+
+    if (selectionArea) {
+      const { mode, points, additive } = selectionArea;
+      const area = mode === 'marquee' ? rectFromPoints(points[0], points[1]) : boundsOfPoints(points);
+
+      // Only elements overlapping the area can be inside it
+      const enclosedIds = new Set(searchSpatialIndex(spatialIndex, area)
+        .filter(el => mode === 'marquee' ? isElementInRect(el, area) : isElementInPolygon(el, points))
+        .map(el => el.id));
+
+      const updatedElements = selectWhere(elements, el => enclosedIds.has(el.id), additive);
+      if (updatedElements.some((el, index) => el.selected !== !!elements[index].selected)) {
+        onElementsChange(updatedElements);
+      }
+      setSelectionArea(null);
+      return;
+    }
+
+    if (transformState) {
+      // A click without a drag leaves the elements untouched
+      if (JSON.stringify(transformState.previews) !== JSON.stringify(transformState.originals)) {
+        const previews = new Map(transformState.previews.map(el => [el.id, el]));
+        const newElements = elements.map(el => previews.get(el.id) ?? el);
+        onElementsChange(newElements);
+      }
+      setTransformState(null);
+      setBindingTarget(null);
+      return;
+    }
+
     if (drawingState.isDrawing && drawingState.currentElement) {
       const newElements = [...elements, drawingState.currentElement];
       onElementsChange(newElements);
-      // Broadcast element changes for collaboration
-      if (broadcastElementChange) {
-        broadcastElementChange(newElements);
-      }
     }
 
     setDrawingState({
@@ -413,7 +886,8 @@ export function Canvas({
       currentPath: [],
       currentElement: null
     });
-  }, [isPanning, drawingState, elements, onElementsChange, broadcastElementChange]);
+    setBindingTarget(null);
+  }, [isPanning, erasedIds, selectionArea, transformState, drawingState, elements, spatialIndex, onElementsChange]);
 
   // Handle wheel for zooming
   const handleWheel = useCallback((e: React.WheelEvent) => {
@@ -436,40 +910,117 @@ export function Canvas({
     }
   }, [viewport, onViewportChange]);
 
-  // Resize canvas
-  const resizeCanvas = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    canvas.width = window.innerWidth;
-    canvas.height = window.innerHeight;
-    redraw();
-  }, [redraw]);
+  // Both layers follow the container's size. A new size clears the
+  // canvases, which the static layer notices and repaints in full.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setCanvasSize(size => (size.width === width && size.height === height ? size : { width, height }));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
 
   useEffect(() => {
-    resizeCanvas();
-    window.addEventListener('resize', resizeCanvas);
-    return () => window.removeEventListener('resize', resizeCanvas);
-  }, [resizeCanvas]);
+    onResize?.(canvasSize);
+  }, [canvasSize, onResize]);
+
+  // devicePixelRatio has no change event, but a query for the current
+  // resolution stops matching when the window moves to another monitor
+  // or the page is zoomed
+  useEffect(() => {
+    const query = window.matchMedia(`(resolution: ${pixelRatio}dppx)`);
+    const updatePixelRatio = () => setPixelRatio(window.devicePixelRatio || 1);
+
+    query.addEventListener('change', updatePixelRatio);
+    return () => query.removeEventListener('change', updatePixelRatio);
+  }, [pixelRatio]);
 
   useEffect(() => {
     redraw();
   }, [redraw]);
 
+  // Keyboard shortcuts: delete, select all and space-to-pan
+  useEffect(() => {
+    const isEditing = (target: EventTarget | null) => {
+      const el = target as HTMLElement | null;
+      return !!el && (el.isContentEditable || el.tagName === 'INPUT' || el.tagName === 'TEXTAREA');
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditing(e.target)) return;
+
+      if (e.key === ' ') {
+        e.preventDefault();
+        setIsSpacePressed(true);
+        return;
+      }
+
+      if (readOnly) return;
+
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'a') {
+        e.preventDefault();
+        onElementsChange(selectWhere(elements, () => true));
+        return;
+      }
+
+      if (e.key !== 'Delete' && e.key !== 'Backspace') return;
+      if (!elements.some(el => el.selected)) return;
+
+      e.preventDefault();
+      const newElements = elements.filter(el => !el.selected);
+      onElementsChange(newElements);
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === ' ') {
+        setIsSpacePressed(false);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [elements, readOnly, onElementsChange]);
+
   return (
     <div ref={containerRef} className="w-full h-full overflow-hidden relative">
+      <canvas
+        ref={staticCanvasRef}
+        width={Math.round(canvasSize.width * pixelRatio)}
+        height={Math.round(canvasSize.height * pixelRatio)}
+        className="absolute top-0 left-0 pointer-events-none"
+        style={{ width: canvasSize.width, height: canvasSize.height }}
+      />
       <canvas
         ref={canvasRef}
-        className="cursor-crosshair"
+        width={Math.round(canvasSize.width * pixelRatio)}
+        height={Math.round(canvasSize.height * pixelRatio)}
+        className="absolute top-0 left-0 cursor-crosshair"
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         onWheel={handleWheel}
         style={{
-          cursor: activeTool === 'select' ? 'default' : 'crosshair'
+          width: canvasSize.width,
+          height: canvasSize.height,
+          cursor: isPanning || isSpacePressed || readOnly ? 'grab' : activeTool === 'select' ? 'default' : 'crosshair'
         }}
       />
       
+      {showFrameStats && frameStats && (
+        <div className="absolute top-4 right-4 z-10 bg-gray-900/80 text-white text-xs font-mono rounded-md px-3 py-2 pointer-events-none">
+          <div>frame {frameStats.last.toFixed(1)} ms (avg {frameStats.average.toFixed(1)} ms)</div>
+          <div>drawn {frameStats.drawn.toLocaleString()} / {displayElements.length.toLocaleString()}</div>
+        </div>
+      )}
+
       {/* Render user cursors for collaboration */}
       <UserCursors 
         cursors={collaboration?.cursors || []}
@@ -0,0 +1,30 @@
+import { Loader2, RefreshCw, Wifi, WifiOff } from 'lucide-react';
+import type { ConnectionState } from '../types/whiteboard';
+
+interface ConnectionStatusProps {
+  connection: ConnectionState;
+}
+
+const LABELS: Record<ConnectionState, string> = {
+  connecting: 'Connecting…',
+  connected: 'Live',
+  reconnecting: 'Reconnecting…',
+  offline: 'Not connected',
+  resyncing: 'Catching up…'
+};
+
+export function ConnectionStatus({ connection }: ConnectionStatusProps) {
+  return (
+    <div
+      className="flex items-center gap-1.5 bg-white rounded-lg shadow-lg border border-gray-200 px-3 py-2 text-sm text-gray-600"
+      role="status"
+      title="Live updates from collaborators"
+    >
+      {connection === 'connected' && <Wifi className="w-4 h-4 text-green-600" />}
+      {(connection === 'connecting' || connection === 'reconnecting') && <Loader2 className="w-4 h-4 animate-spin" />}
+      {connection === 'offline' && <WifiOff className="w-4 h-4 text-amber-600" />}
+      {connection === 'resyncing' && <RefreshCw className="w-4 h-4 animate-spin" />}
+      <span>{LABELS[connection]}</span>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, LayoutGrid, Loader2, MoreHorizontal, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Card, CardContent } from './ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from './ui/dialog';
+import { useWhiteboardPersistence, type WhiteboardSession } from '../hooks/useWhiteboardPersistence';
+import { renderThumbnail } from '../lib/thumbnail';
+import type { WhiteboardElement } from '../types/whiteboard';
+
+// Size the previews are drawn at; they scale to the card's width
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_HEIGHT = 180;
+
+// Preview of a board's stored elements, drawn by the same renderer as the canvas
+function BoardThumbnail({ sessionId, loadElements }: {
+  sessionId: string;
+  loadElements: (sessionId: string) => Promise<WhiteboardElement[]>;
+}) {
+  const [elements, setElements] = useState<WhiteboardElement[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadElements(sessionId)
+      .then(loaded => {
+        if (!cancelled) setElements(loaded);
+      })
+      .catch(error => {
+        console.error('Failed to load board preview:', error);
+        if (!cancelled) setElements([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, loadElements]);
+
+  const svg = useMemo(
+    () => elements && renderThumbnail(elements, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT),
+    [elements]
+  );
+
+  return (
+    <div className="aspect-video bg-white border-b border-gray-100 rounded-t-lg overflow-hidden flex items-center justify-center">
+      {svg ? (
+        <img
+          src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+          alt=""
+          className="w-full h-full"
+          draggable={false}
+        />
+      ) : elements === null ? (
+        <Loader2 className="h-4 w-4 animate-spin text-gray-300" />
+      ) : (
+        <span className="text-xs text-gray-400">Empty board</span>
+      )}
+    </div>
+  );
+}
+
+export function Dashboard() {
+  const navigate = useNavigate();
+  const { createSession, getUserSessions, renameSession, duplicateSession, deleteSession, previewElements } = useWhiteboardPersistence();
+  const [sessions, setSessions] = useState<WhiteboardSession[] | null>(null);
+  const [renaming, setRenaming] = useState<WhiteboardSession | null>(null);
+  const [newName, setNewName] = useState('');
+  const [deleting, setDeleting] = useState<WhiteboardSession | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setSessions(await getUserSessions());
+  }, [getUserSessions]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleCreate = useCallback(async () => {
+    setIsCreating(true);
+    const session = await createSession();
+    setIsCreating(false);
+    if (session) {
+      navigate(`/board/${session.id}`);
+    } else {
+      toast.error('Failed to create whiteboard');
+    }
+  }, [createSession, navigate]);
+
+  const handleRename = useCallback(async () => {
+    const name = newName.trim();
+    if (!renaming || !name) return;
+
+    if (await renameSession(renaming.id, name)) {
+      setSessions(current => current?.map(s => s.id === renaming.id ? { ...s, name } : s) ?? null);
+    } else {
+      toast.error('Failed to rename whiteboard');
+    }
+    setRenaming(null);
+  }, [renaming, newName, renameSession]);
+
+  const handleDuplicate = useCallback(async (session: WhiteboardSession) => {
+    const copy = await duplicateSession(session.id, `${session.name} (copy)`);
+    if (copy) {
+      setSessions(current => current ? [copy, ...current] : [copy]);
+      toast.success(`Duplicated "${session.name}"`);
+    } else {
+      toast.error('Failed to duplicate whiteboard');
+    }
+  }, [duplicateSession]);
+
+  const handleDelete = useCallback(async () => {
+    if (!deleting) return;
+
+    if (await deleteSession(deleting.id)) {
+      setSessions(current => current?.filter(s => s.id !== deleting.id) ?? null);
+      toast.success(`Deleted "${deleting.name}"`);
+    } else {
+      toast.error('Failed to delete whiteboard');
+    }
+    setDeleting(null);
+  }, [deleting, deleteSession]);
+
+  return (
+    <div className="min-h-full bg-gray-50">
+      <div className="max-w-5xl mx-auto px-6 py-10">
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-2">
+            <LayoutGrid className="h-5 w-5 text-indigo-600" />
+            <h1 className="text-xl font-semibold text-gray-900">Your boards</h1>
+          </div>
+          <Button onClick={handleCreate} disabled={isCreating}>
+            {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            New board
+          </Button>
+        </div>
+
+        {sessions === null ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : sessions.length === 0 ? (
+          <div className="text-center py-20 text-gray-500">
+            <p className="mb-4">You don't have any boards yet.</p>
+            <Button variant="outline" onClick={handleCreate} disabled={isCreating}>
+              Create your first board
+            </Button>
+          </div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {sessions.map((session) => (
+              <Card
+                key={session.id}
+                className="cursor-pointer transition-shadow hover:shadow-md"
+                onClick={() => navigate(`/board/${session.id}`)}
+              >
+                <BoardThumbnail sessionId={session.id} loadElements={previewElements} />
+                <CardContent className="p-4 flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{session.name}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Updated {formatDistanceToNow(new Date(session.updatedAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 shrink-0"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <MoreHorizontal className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                      <DropdownMenuItem
+                        onSelect={() => {
+                          setNewName(session.name);
+                          setRenaming(session);
+                        }}
+                      >
+                        <Pencil className="h-4 w-4 mr-2" />
+                        Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => handleDuplicate(session)}>
+                        <Copy className="h-4 w-4 mr-2" />
+                        Duplicate
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem className="text-red-600" onSelect={() => setDeleting(session)}>
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={renaming !== null} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Rename board</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleRename();
+            }}
+          >
+            <Input value={newName} onChange={(e) => setNewName(e.target.value)} autoFocus />
+            <DialogFooter className="mt-4">
+              <Button type="button" variant="outline" onClick={() => setRenaming(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!newName.trim()}>
+                Rename
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The board and everything on it will be removed for everyone. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={handleDelete}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
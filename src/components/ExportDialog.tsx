@@ -0,0 +1,369 @@
+import { useState, useMemo, useEffect, useCallback } from 'react';
+import { Copy, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from './ui/dialog';
+import type { Bounds, WhiteboardElement } from '../types/whiteboard';
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  type ExportFormat,
+  type ExportOptions,
+  type ExportScope,
+  downloadBlob,
+  exportToBlob,
+  getExportFilename,
+  planExport,
+  renderExport,
+  renderSvgExport
+} from '../lib/exportImage';
+import { type PdfLayout, type PdfOrientation, type PdfPageSize, countPdfPages } from '../lib/exportPdf';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  elements: WhiteboardElement[];
+  // Board area currently on screen
+  view: Bounds;
+}
+
+// Longest side of the preview thumbnail, in CSS pixels
+const PREVIEW_SIZE = 320;
+
+const scopes: { id: ExportScope; label: string }[] = [
+  { id: 'board', label: 'Whole board' },
+  { id: 'selection', label: 'Selection' },
+  { id: 'view', label: 'Current view' }
+];
+
+const formats: { id: ExportFormat; label: string }[] = [
+  { id: 'png', label: 'PNG' },
+  { id: 'jpeg', label: 'JPEG' },
+  { id: 'webp', label: 'WebP' },
+  { id: 'svg', label: 'SVG' },
+  { id: 'pdf', label: 'PDF' }
+];
+
+const scales = [1, 2, 4];
+
+const pdfLayouts: { id: PdfLayout; label: string }[] = [
+  { id: 'tiled', label: 'Tiled' },
+  { id: 'sections', label: 'Page per section' }
+];
+
+const pageSizes: { id: PdfPageSize; label: string }[] = [
+  { id: 'a4', label: 'A4' },
+  { id: 'letter', label: 'Letter' }
+];
+
+const orientations: { id: PdfOrientation; label: string }[] = [
+  { id: 'portrait', label: 'Portrait' },
+  { id: 'landscape', label: 'Landscape' }
+];
+
+export function ExportDialog({ open, onOpenChange, elements, view }: ExportDialogProps) {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [backgroundColor, setBackgroundColor] = useState('#ffffff');
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const hasSelection = elements.some(el => el.selected);
+  const plan = useMemo(() => planExport(elements, options, view), [elements, options, view]);
+  const isPdf = options.format === 'pdf';
+  const pageCount = useMemo(
+    () => (plan && isPdf ? countPdfPages(plan.elements, plan.area, {
+      layout: options.pdfLayout,
+      pageSize: options.pageSize,
+      orientation: options.orientation,
+      pagesAcross: options.pagesAcross,
+      background: options.background,
+      showGrid: options.showGrid
+    }) : 0),
+    [plan, isPdf, options]
+  );
+
+  const updateOptions = useCallback((changes: Partial<ExportOptions>) => {
+    setOptions(current => ({ ...current, ...changes }));
+  }, []);
+
+  // Exporting the selection only makes sense when there is one
+  useEffect(() => {
+    if (open) {
+      updateOptions({ scope: hasSelection ? 'selection' : 'board' });
+    }
+  }, [open, hasSelection, updateOptions]);
+
+  // Small render of the same plan, with transparency shown as a checkerboard
+  useEffect(() => {
+    if (!open || !plan) {
+      setPreview(null);
+      return;
+    }
+
+    const scale = Math.min(PREVIEW_SIZE / plan.area.width, PREVIEW_SIZE / plan.area.height);
+    setPreview(renderExport({ ...plan, scale }, options).toDataURL());
+  }, [open, plan, options]);
+
+  const handleExport = useCallback(async () => {
+    if (!plan) return;
+
+    setIsExporting(true);
+    try {
+      const blob = await exportToBlob(plan, options);
+      downloadBlob(blob, getExportFilename(options.format));
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to export:', error);
+      toast.error('Failed to export');
+    } finally {
+      setIsExporting(false);
+    }
+  }, [plan, options, onOpenChange]);
+
+  // SVG markup pastes straight into most design and docs tools
+  const handleCopySvg = useCallback(async () => {
+    if (!plan) return;
+
+    try {
+      await navigator.clipboard.writeText(renderSvgExport(plan, options));
+      toast.success('SVG copied to clipboard');
+    } catch (error) {
+      console.error('Failed to copy SVG:', error);
+      toast.error('Failed to copy SVG');
+    }
+  }, [plan, options]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export</DialogTitle>
+          <DialogDescription>
+            Save the board, the selection or the current view as an image, SVG or PDF.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div
+          className="flex items-center justify-center h-48 rounded-md border bg-gray-50"
+          style={{
+            backgroundImage: 'repeating-conic-gradient(#e5e7eb 0% 25%, transparent 0% 50%)',
+            backgroundSize: '16px 16px'
+          }}
+        >
+          {preview ? (
+            <img src={preview} alt="Export preview" className="max-h-44 max-w-full shadow-sm" />
+          ) : (
+            <span className="text-sm text-gray-500">Nothing to export</span>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <Label className="text-xs text-gray-500">Area</Label>
+            <div className="flex gap-1 mt-1">
+              {scopes.map((scope) => (
+                <Button
+                  key={scope.id}
+                  variant={options.scope === scope.id ? "default" : "outline"}
+                  size="sm"
+                  disabled={scope.id === 'selection' && !hasSelection}
+                  onClick={() => updateOptions({ scope: scope.id })}
+                  className="h-7 px-2 text-xs"
+                >
+                  {scope.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-6">
+            <div>
+              <Label className="text-xs text-gray-500">Format</Label>
+              <div className="flex gap-1 mt-1">
+                {formats.map((format) => (
+                  <Button
+                    key={format.id}
+                    variant={options.format === format.id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => updateOptions({ format: format.id })}
+                    className="h-7 px-2 text-xs"
+                  >
+                    {format.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {!isPdf && (
+              <div>
+                <Label className="text-xs text-gray-500">Scale</Label>
+                <div className="flex gap-1 mt-1">
+                  {scales.map((scale) => (
+                    <Button
+                      key={scale}
+                      variant={options.scale === scale ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => updateOptions({ scale })}
+                      className="h-7 px-2 text-xs"
+                    >
+                      {scale}x
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {isPdf && (
+            <div className="space-y-4">
+              <div>
+                <Label className="text-xs text-gray-500">Layout</Label>
+                <div className="flex gap-1 mt-1">
+                  {pdfLayouts.map((layout) => (
+                    <Button
+                      key={layout.id}
+                      variant={options.pdfLayout === layout.id ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => updateOptions({ pdfLayout: layout.id })}
+                      className="h-7 px-2 text-xs"
+                    >
+                      {layout.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex gap-6">
+                <div>
+                  <Label className="text-xs text-gray-500">Page size</Label>
+                  <div className="flex gap-1 mt-1">
+                    {pageSizes.map((size) => (
+                      <Button
+                        key={size.id}
+                        variant={options.pageSize === size.id ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => updateOptions({ pageSize: size.id })}
+                        className="h-7 px-2 text-xs"
+                      >
+                        {size.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <Label className="text-xs text-gray-500">Orientation</Label>
+                  <div className="flex gap-1 mt-1">
+                    {orientations.map((orientation) => (
+                      <Button
+                        key={orientation.id}
+                        variant={options.orientation === orientation.id ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => updateOptions({ orientation: orientation.id })}
+                        className="h-7 px-2 text-xs"
+                      >
+                        {orientation.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {options.pdfLayout === 'tiled' && (
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="export-pages-across" className="text-sm">Pages across</Label>
+                  <Input
+                    id="export-pages-across"
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={options.pagesAcross}
+                    onChange={(e) => updateOptions({ pagesAcross: Math.min(10, Math.max(1, Math.round(Number(e.target.value)) || 1)) })}
+                    className="h-7 w-20 text-sm"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center gap-6">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="export-background"
+                checked={options.background !== null}
+                onCheckedChange={(checked) => updateOptions({ background: checked ? backgroundColor : null })}
+              />
+              <Label htmlFor="export-background" className="text-sm">Background</Label>
+              <input
+                type="color"
+                value={backgroundColor}
+                disabled={options.background === null}
+                onChange={(e) => {
+                  setBackgroundColor(e.target.value);
+                  updateOptions({ background: e.target.value });
+                }}
+                className="h-6 w-8 cursor-pointer rounded border disabled:opacity-40"
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="export-grid"
+                checked={options.showGrid}
+                onCheckedChange={(checked) => updateOptions({ showGrid: checked })}
+              />
+              <Label htmlFor="export-grid" className="text-sm">Grid</Label>
+            </div>
+          </div>
+
+          {options.scope !== 'view' && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="export-padding" className="text-sm">Padding</Label>
+              <Input
+                id="export-padding"
+                type="number"
+                min={0}
+                value={options.padding}
+                onChange={(e) => updateOptions({ padding: Math.max(0, Number(e.target.value) || 0) })}
+                className="h-7 w-20 text-sm"
+              />
+            </div>
+          )}
+
+          {options.background === null && options.format === 'jpeg' && (
+            <p className="text-xs text-gray-500">JPEG has no transparency, so the background will be white.</p>
+          )}
+        </div>
+
+        <DialogFooter className="items-center sm:justify-between">
+          <span className="text-xs text-gray-500">
+            {plan && isPdf && `${pageCount} ${pageCount === 1 ? 'page' : 'pages'}`}
+            {plan && !isPdf && `${Math.round(plan.area.width * plan.scale)} × ${Math.round(plan.area.height * plan.scale)} px`}
+            {plan && !isPdf && plan.scale < options.scale && ' (reduced to fit)'}
+          </span>
+          <div className="flex gap-2">
+            {options.format === 'svg' && (
+              <Button variant="outline" onClick={handleCopySvg} disabled={!plan}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+            )}
+            <Button onClick={handleExport} disabled={!plan || isExporting}>
+              {isExporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Export
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Bookmark, Clock, Loader2, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { ScrollArea } from './ui/scroll-area';
+import type { BoardSnapshot } from '../lib/boardStorage';
+import { cn } from '../lib/utils';
+
+interface HistoryPanelProps {
+  // Newest first; null while loading
+  snapshots: BoardSnapshot[] | null;
+  currentUserId?: string;
+  // Snapshot being previewed, if any
+  previewId: string | null;
+  onSaveVersion: (label: string) => void;
+  onPreview: (snapshot: BoardSnapshot) => void;
+  onClose: () => void;
+}
+
+export function HistoryPanel({ snapshots, currentUserId, previewId, onSaveVersion, onPreview, onClose }: HistoryPanelProps) {
+  const [label, setLabel] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = label.trim();
+    if (!trimmed) return;
+    onSaveVersion(trimmed);
+    setLabel('');
+  };
+
+  const authorOf = (snapshot: BoardSnapshot) => {
+    if (snapshot.userId === currentUserId) return 'You';
+    return snapshot.authorName ?? 'Unknown';
+  };
+
+  return (
+    <div className="fixed top-20 right-4 bottom-20 z-40 w-72 flex flex-col bg-white rounded-lg shadow-lg border border-gray-200">
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <h2 className="text-sm font-semibold">Version history</h2>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <form className="flex gap-2 p-3 border-b" onSubmit={handleSubmit}>
+        <Input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Name this version"
+          className="h-8"
+        />
+        <Button type="submit" size="sm" className="h-8" disabled={!label.trim()}>
+          Save
+        </Button>
+      </form>
+
+      <ScrollArea className="flex-1">
+        {snapshots === null && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {snapshots?.length === 0 && (
+          <p className="px-4 py-8 text-center text-sm text-gray-500">
+            No versions yet. Versions are saved automatically while you edit, or name one above.
+          </p>
+        )}
+
+        <ul className="p-2">
+          {snapshots?.map(snapshot => {
+            const createdAt = new Date(snapshot.createdAt);
+            return (
+              <li key={snapshot.id}>
+                <button
+                  type="button"
+                  onClick={() => onPreview(snapshot)}
+                  className={cn(
+                    'w-full flex gap-2 rounded-md px-2 py-2 text-left hover:bg-gray-100',
+                    snapshot.id === previewId && 'bg-indigo-50 hover:bg-indigo-50'
+                  )}
+                >
+                  {snapshot.label
+                    ? <Bookmark className="h-4 w-4 mt-0.5 shrink-0 text-indigo-600" />
+                    : <Clock className="h-4 w-4 mt-0.5 shrink-0 text-gray-400" />}
+                  <span className="min-w-0">
+                    <span className="block truncate text-sm font-medium">
+                      {snapshot.label ?? format(createdAt, 'MMM d, HH:mm')}
+                    </span>
+                    <span className="block truncate text-xs text-gray-500" title={createdAt.toLocaleString()}>
+                      {authorOf(snapshot)} · {formatDistanceToNow(createdAt, { addSuffix: true })}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </ScrollArea>
+    </div>
+  );
+}
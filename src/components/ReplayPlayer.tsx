@@ -0,0 +1,149 @@
+import { useState, useEffect, useRef } from 'react';
+import { format } from 'date-fns';
+import { Download, Loader2, Pause, Play, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Slider } from './ui/slider';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu';
+import type { Replay } from '../lib/replay';
+import { type ReplayVideoFormat, REPLAY_EXPORT_PRESETS, exportReplay, getReplayFilename } from '../lib/exportReplay';
+import { downloadBlob } from '../lib/exportImage';
+
+interface ReplayPlayerProps {
+  // Null while the operation log loads
+  replay: Replay | null;
+  // Replay time in milliseconds
+  time: number;
+  onTimeChange: (time: number) => void;
+  onClose: () => void;
+}
+
+const SPEEDS = [1, 2, 4, 8];
+
+export function ReplayPlayer({ replay, time, onTimeChange, onClose }: ReplayPlayerProps) {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  // Export progress from 0 to 1, or null when not exporting
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  // The animation loop reads the latest time without restarting
+  const timeRef = useRef(time);
+  timeRef.current = time;
+
+  useEffect(() => {
+    if (!isPlaying || !replay) return;
+
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const next = Math.min(replay.duration, timeRef.current + (now - last) * speed);
+      last = now;
+      onTimeChange(next);
+      if (next >= replay.duration) {
+        setIsPlaying(false);
+      } else {
+        frame = requestAnimationFrame(tick);
+      }
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, replay, onTimeChange]);
+
+  const togglePlaying = () => {
+    // Play from the start again once the end is reached
+    if (!isPlaying && replay && time >= replay.duration) {
+      onTimeChange(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const handleExport = async (videoFormat: ReplayVideoFormat) => {
+    if (!replay) return;
+    setIsPlaying(false);
+    setExportProgress(0);
+    try {
+      const blob = await exportReplay(replay, REPLAY_EXPORT_PRESETS[videoFormat], setExportProgress);
+      downloadBlob(blob, getReplayFilename(videoFormat));
+    } catch (error) {
+      console.error('Failed to export replay:', error);
+      toast.error('Failed to export replay', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  const step = replay ? replay.stepAt(time) : -1;
+  const stepLabel = replay && step >= 0
+    ? format(new Date(replay.steps[step].createdAt), 'MMM d, HH:mm:ss')
+    : 'Start';
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 w-[min(640px,calc(100vw-2rem))] flex items-center gap-3 bg-white rounded-lg shadow-lg border border-gray-200 px-3 py-2 text-sm">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={togglePlaying}
+        disabled={!replay || exportProgress !== null}
+      >
+        {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+
+      <Slider
+        className="flex-1"
+        min={0}
+        max={replay?.duration ?? 1}
+        step={10}
+        value={[time]}
+        onValueChange={([value]) => onTimeChange(value)}
+        disabled={!replay || exportProgress !== null}
+      />
+
+      <span className="w-36 shrink-0 text-xs text-gray-500 tabular-nums">
+        {replay ? `${stepLabel} · ${step + 1}/${replay.steps.length}` : 'Loading…'}
+      </span>
+
+      <div className="flex shrink-0">
+        {SPEEDS.map(value => (
+          <Button
+            key={value}
+            variant={speed === value ? 'default' : 'ghost'}
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => setSpeed(value)}
+          >
+            {value}×
+          </Button>
+        ))}
+      </div>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={!replay?.area || exportProgress !== null}>
+            {exportProgress === null
+              ? <Download className="h-4 w-4" />
+              : <Loader2 className="h-4 w-4 animate-spin" />}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => handleExport('webm')}>Export WebM video</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport('gif')}>Export animated GIF</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {exportProgress !== null && (
+        <span className="shrink-0 text-xs text-gray-500 tabular-nums">{Math.round(exportProgress * 100)}%</span>
+      )}
+
+      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onClose}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -7,7 +7,7 @@ import { Badge } from './ui/badge';
 import { Separator } from './ui/separator';
 import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
 import { RichNote, Comment } from '../types/whiteboard';
-import { useCollaboration } from '../hooks/useCollaboration';
+import { useCurrentUser } from '../hooks/useCurrentUser';
 
 interface RichNoteCardProps {
   richNote: RichNote;
@@ -31,7 +31,7 @@ export function RichNoteCard({
   const [newComment, setNewComment] = useState('');
   const [showComments, setShowComments] = useState(false);
   const contentRef = useRef<HTMLDivElement>(null);
-  const { currentUser } = useCollaboration();
+  const currentUser = useCurrentUser();
 
   // Auto-save content changes
   useEffect(() => {
@@ -0,0 +1,27 @@
+import { Check, CloudOff, Loader2 } from 'lucide-react';
+import type { SaveStatus as Status } from '../hooks/useWhiteboardPersistence';
+
+interface SaveStatusProps {
+  status: Status;
+}
+
+function describe({ state, pending }: Status) {
+  if (state === 'saved') return 'Saved';
+  if (state === 'saving') return 'Saving…';
+  if (pending === 0) return 'Offline';
+  return `Offline, ${pending} ${pending === 1 ? 'change' : 'changes'} pending`;
+}
+
+export function SaveStatus({ status }: SaveStatusProps) {
+  return (
+    <div
+      className="flex items-center gap-1.5 bg-white rounded-lg shadow-lg border border-gray-200 px-3 py-2 text-sm text-gray-600"
+      role="status"
+    >
+      {status.state === 'saved' && <Check className="w-4 h-4 text-green-600" />}
+      {status.state === 'saving' && <Loader2 className="w-4 h-4 animate-spin" />}
+      {status.state === 'offline' && <CloudOff className="w-4 h-4 text-amber-600" />}
+      <span>{describe(status)}</span>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { useRef } from 'react';
 import { 
   MousePointer2, 
   Pen, 
@@ -12,12 +13,28 @@ import {
   Redo,
   ZoomIn,
   ZoomOut,
-  Download
+  Download,
+  FolderOpen,
+  Save,
+  History,
+  Film,
+  Spline,
+  Lasso,
+  BoxSelect,
+  Eraser
 } from 'lucide-react';
 import { Button } from './ui/button';
 import { Separator } from './ui/separator';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
-import { Tool } from '../types/whiteboard';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu';
+import type { Tool, ConnectorStyle, ConnectorRouting, ArrowheadStyle, ElementType } from '../types/whiteboard';
 
 interface ToolbarProps {
   activeTool: Tool;
@@ -26,11 +43,20 @@ interface ToolbarProps {
   onStrokeColorChange: (color: string) => void;
   strokeWidth: number;
   onStrokeWidthChange: (width: number) => void;
+  connectorStyle: ConnectorStyle;
+  onConnectorStyleChange: (style: ConnectorStyle) => void;
+  showConnectorStyle: boolean;
+  onSelectByType: (type: ElementType | 'all') => void;
   onUndo: () => void;
   onRedo: () => void;
   onZoomIn: () => void;
   onZoomOut: () => void;
   onExport: () => void;
+  onSaveBoardFile: () => void;
+  onOpenBoardFile: (file: File) => void;
+  onToggleHistory: () => void;
+  isHistoryOpen: boolean;
+  onReplay: () => void;
   canUndo: boolean;
   canRedo: boolean;
 }
@@ -42,6 +68,31 @@ const colors = [
 
 const strokeWidths = [2, 4, 6, 8];
 
+const selectableTypes: { id: ElementType; label: string }[] = [
+  { id: 'path', label: 'Drawings' },
+  { id: 'rectangle', label: 'Rectangles' },
+  { id: 'circle', label: 'Circles' },
+  { id: 'arrow', label: 'Arrows' },
+  { id: 'line', label: 'Lines' },
+  { id: 'text', label: 'Text' },
+  { id: 'sticky-note', label: 'Sticky Notes' },
+  { id: 'rich-note', label: 'Rich Text Notes' }
+];
+
+const routings: { id: ConnectorRouting; label: string }[] = [
+  { id: 'straight', label: 'Straight' },
+  { id: 'curved', label: 'Curved' },
+  { id: 'elbow', label: 'Elbow' }
+];
+
+const arrowheads: { id: ArrowheadStyle; label: string }[] = [
+  { id: 'none', label: 'None' },
+  { id: 'triangle', label: 'Triangle' },
+  { id: 'open', label: 'Open' },
+  { id: 'circle', label: 'Circle' },
+  { id: 'diamond', label: 'Diamond' }
+];
+
 export function Toolbar({
   activeTool,
   onToolChange,
@@ -49,17 +100,30 @@ export function Toolbar({
   onStrokeColorChange,
   strokeWidth,
   onStrokeWidthChange,
+  connectorStyle,
+  onConnectorStyleChange,
+  showConnectorStyle,
+  onSelectByType,
   onUndo,
   onRedo,
   onZoomIn,
   onZoomOut,
   onExport,
+  onSaveBoardFile,
+  onOpenBoardFile,
+  onToggleHistory,
+  isHistoryOpen,
+  onReplay,
   canUndo,
   canRedo
 }: ToolbarProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
   const tools = [
     { id: 'select' as Tool, icon: MousePointer2, label: 'Select' },
+    { id: 'lasso' as Tool, icon: Lasso, label: 'Lasso Select' },
     { id: 'pen' as Tool, icon: Pen, label: 'Pen' },
+    { id: 'eraser' as Tool, icon: Eraser, label: 'Eraser' },
     { id: 'rectangle' as Tool, icon: Square, label: 'Rectangle' },
     { id: 'circle' as Tool, icon: Circle, label: 'Circle' },
     { id: 'arrow' as Tool, icon: ArrowRight, label: 'Arrow' },
@@ -95,6 +159,32 @@ export function Toolbar({
                 </Tooltip>
               );
             })}
+
+            <DropdownMenu>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                      <BoxSelect className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Select by Type</p>
+                </TooltipContent>
+              </Tooltip>
+              <DropdownMenuContent>
+                <DropdownMenuItem onClick={() => onSelectByType('all')}>
+                  Select All
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                {selectableTypes.map((type) => (
+                  <DropdownMenuItem key={type.id} onClick={() => onSelectByType(type.id)}>
+                    {type.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
 
           <Separator orientation="vertical" className="h-6" />
@@ -133,6 +223,67 @@ export function Toolbar({
             ))}
           </div>
 
+          {/* Connector style */}
+          {(activeTool === 'arrow' || activeTool === 'line' || showConnectorStyle) && (
+            <>
+              <Separator orientation="vertical" className="h-6" />
+
+              <Popover>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <PopoverTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                        <Spline className="h-4 w-4" />
+                      </Button>
+                    </PopoverTrigger>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Connector Style</p>
+                  </TooltipContent>
+                </Tooltip>
+                <PopoverContent className="w-auto p-3 space-y-3">
+                  <div>
+                    <div className="text-xs font-medium text-gray-500 mb-1">Routing</div>
+                    <div className="flex gap-1">
+                      {routings.map((routing) => (
+                        <Button
+                          key={routing.id}
+                          variant={connectorStyle.routing === routing.id ? "default" : "ghost"}
+                          size="sm"
+                          onClick={() => onConnectorStyleChange({ ...connectorStyle, routing: routing.id })}
+                          className="h-7 px-2 text-xs"
+                        >
+                          {routing.label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {(['startArrowhead', 'endArrowhead'] as const).map((end) => (
+                    <div key={end}>
+                      <div className="text-xs font-medium text-gray-500 mb-1">
+                        {end === 'startArrowhead' ? 'Start' : 'End'}
+                      </div>
+                      <div className="flex gap-1">
+                        {arrowheads.map((arrowhead) => (
+                          <Button
+                            key={arrowhead.id}
+                            variant={connectorStyle[end] === arrowhead.id ? "default" : "ghost"}
+                            size="sm"
+                            onClick={() => onConnectorStyleChange({ ...connectorStyle, [end]: arrowhead.id })}
+                            className="h-7 px-2 text-xs"
+                          >
+                            {arrowhead.label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </PopoverContent>
+              </Popover>
+            </>
+          )}
+
           <Separator orientation="vertical" className="h-6" />
 
           {/* Actions */}
@@ -207,6 +358,50 @@ export function Toolbar({
 
             <Separator orientation="vertical" className="h-6" />
 
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="h-8 w-8 p-0"
+                >
+                  <FolderOpen className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Open Board File</p>
+              </TooltipContent>
+            </Tooltip>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onOpenBoardFile(file);
+                // Allow picking the same file again
+                e.target.value = '';
+              }}
+            />
+
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onSaveBoardFile}
+                  className="h-8 w-8 p-0"
+                >
+                  <Save className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Save Board File</p>
+              </TooltipContent>
+            </Tooltip>
+
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button
@@ -222,6 +417,38 @@ export function Toolbar({
                 <p>Export</p>
               </TooltipContent>
             </Tooltip>
+
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant={isHistoryOpen ? "default" : "ghost"}
+                  size="sm"
+                  onClick={onToggleHistory}
+                  className="h-8 w-8 p-0"
+                >
+                  <History className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Version History</p>
+              </TooltipContent>
+            </Tooltip>
+
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onReplay}
+                  className="h-8 w-8 p-0"
+                >
+                  <Film className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Replay</p>
+              </TooltipContent>
+            </Tooltip>
           </div>
         </div>
       </div>
@@ -1,164 +1,443 @@
-import { useState, useEffect, useCallback } from 'react'
-import { blink } from '../blink/client'
-import type { WhiteboardElement, User, UserCursor, CollaborationState } from '../types/whiteboard'
-
-const CHANNEL_NAME = 'whiteboard-collaboration'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { type CollaborationTransport, type TransportMessage, createCollaborationTransport } from '../lib/collaborationTransport'
+import type { User, CollaborationState, ConnectionState, WhiteboardElement } from '../types/whiteboard'
+import { ELEMENT_SCHEMA_VERSION } from '../lib/elementSchema'
+import type { ElementDelta, ElementOperation, VersionVector } from '../lib/operations'
+import { parseBoardMessage, parsePeerMetadata, splitForPublishing } from '../lib/collaborationMessages'
+import type { BoardDocument } from '../lib/boardDocument'
 
 // User colors for cursors
 const USER_COLORS = [
-  '#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', 
+  '#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4',
   '#FFEAA7', '#DDA0DD', '#98D8C8', '#F7DC6F'
 ]
 
-export function useCollaboration(onElementsUpdate?: (elements: WhiteboardElement[]) => void) {
-  const [collaboration, setCollaboration] = useState<CollaborationState>({
-    users: [],
-    cursors: [],
-    isConnected: false
-  })
-  const [currentUser, setCurrentUser] = useState<User | null>(null)
-  const [userColor, setUserColor] = useState<string>('')
+const DISCONNECTED: CollaborationState = {
+  users: [],
+  cursors: [],
+  previews: [],
+  isConnected: false,
+  connection: 'connecting'
+}
+
+// Reconnecting waits twice as long after each failed attempt, up to a limit
+const INITIAL_RECONNECT_DELAY = 1000
+const MAX_RECONNECT_DELAY = 30000
+// How long to wait for a peer to answer a resync, or for the next part of
+// its answer, before asking storage
+const RESYNC_TIMEOUT = 3000
+// Peers wait up to this long before answering a resync, and don't answer
+// if someone else does first, so each request gets about one answer
+const MAX_RESYNC_ANSWER_DELAY = 1000
+// Previews of strokes and drags go out at most this often; the latest one
+// always follows
+const PREVIEW_INTERVAL = 50
+
+interface CollaborationOptions {
+  // Remote operations and resyncs are merged into this
+  board: BoardDocument
+  // Called after something remote changed the board
+  onRemoteChange: () => void
+  // Stored elements of the board, merged in when nobody answers a resync
+  readStoredElements?: (boardId: string) => Promise<WhiteboardElement[]>
+}
+
+// Each board has its own channel, so edits never reach other boards
+export function getBoardChannelName(boardId: string) {
+  return `whiteboard-${boardId}`
+}
+
+function getUserColor(userId: string) {
+  return USER_COLORS[userId.charCodeAt(0) % USER_COLORS.length]
+}
+
+// Realtime presence, cursors and element operations for one board. Joins the
+// board's channel once both the board and the user are known, and moves to
+// the new board's channel when `boardId` changes. Dropped connections are
+// rejoined with backoff. On joining and on every rejoin, whatever this client
+// is missing is caught up on from peers, or from storage if nobody answers.
+export function useCollaboration(
+  boardId: string | undefined,
+  currentUser: User | null,
+  { board, onRemoteChange, readStoredElements }: CollaborationOptions
+) {
+  const [collaboration, setCollaboration] = useState<CollaborationState>(DISCONNECTED)
+  const userColor = currentUser ? getUserColor(currentUser.id) : ''
+  // Transport of the current board once joined, for broadcasting
+  const transportRef = useRef<CollaborationTransport | null>(null)
 
-  // Initialize collaboration
   useEffect(() => {
-    let channel: any = null
-    let unsubscribeAuth: (() => void) | null = null
+    if (!boardId || !currentUser) return
 
-    const initCollaboration = async () => {
-      try {
-        // Listen for auth state changes
-        unsubscribeAuth = blink.auth.onAuthStateChanged(async (state) => {
-          if (state.user && !state.isLoading) {
-            const user: User = {
-              id: state.user.id,
-              email: state.user.email,
-              displayName: state.user.email.split('@')[0] || 'Anonymous'
-            }
-            setCurrentUser(user)
-
-            // Assign a color based on user ID
-            const colorIndex = user.id.charCodeAt(0) % USER_COLORS.length
-            setUserColor(USER_COLORS[colorIndex])
-
-            // Join the collaboration channel
-            channel = blink.realtime.channel(CHANNEL_NAME)
-            await channel.subscribe({
-              userId: user.id,
-              metadata: { 
-                displayName: user.displayName,
-                color: USER_COLORS[colorIndex]
-              }
-            })
-
-            // Listen for presence changes (who's online)
-            channel.onPresence((users: any[]) => {
-              setCollaboration(prev => ({
-                ...prev,
-                users: users.map(u => ({
-                  id: u.userId,
-                  email: u.metadata?.email || '',
-                  displayName: u.metadata?.displayName || 'Anonymous'
-                })),
-                isConnected: true
-              }))
-            })
-
-            // Listen for cursor movements and element updates
-            channel.onMessage((message: any) => {
-              if (message.type === 'cursor-move' && message.userId !== user.id) {
-                setCollaboration(prev => ({
-                  ...prev,
-                  cursors: [
-                    ...prev.cursors.filter(c => c.userId !== message.userId),
-                    {
-                      userId: message.userId,
-                      x: message.data.x,
-                      y: message.data.y,
-                      displayName: message.metadata?.displayName || 'Anonymous',
-                      color: message.metadata?.color || '#666'
-                    }
-                  ]
-                }))
-              } else if (message.type === 'elements-update' && message.userId !== user.id) {
-                // Handle incoming element updates from other users
-                if (onElementsUpdate) {
-                  onElementsUpdate(message.data.elements)
-                }
+    const user = currentUser
+    const color = getUserColor(user.id)
+    const channel = getBoardChannelName(boardId)
+    // Cleared on leaving, so nothing still in flight can revive an old board
+    let active = true
+    let transport: CollaborationTransport | null = null
+    let unsubscribers: (() => void)[] = []
+    let attempts = 0
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined
+    let resyncTimer: ReturnType<typeof setTimeout> | undefined
+    // Board version when the connection was lost; everything written after
+    // it is swapped with peers once back
+    let lostAt: VersionVector | null = null
+    // This client's unanswered resync request
+    let resyncId: string | null = null
+    // Answers this client is about to send to other clients' requests
+    const pendingAnswers = new Map<string, ReturnType<typeof setTimeout>>()
+
+    const setConnection = (connection: ConnectionState) => {
+      setCollaboration(prev => ({
+        ...prev,
+        connection,
+        isConnected: connection === 'connected' || connection === 'resyncing'
+      }))
+    }
+
+    const publish = (type: string, data: object) => {
+      transport?.publish(type, { boardId, ...data })
+        .catch(error => console.error(`Failed to send ${type}:`, error))
+    }
+
+    const mergeDelta = (delta: ElementDelta[]) => {
+      if (board.merge(delta)) onRemoteChange()
+    }
+
+    // Changes can be too big for one message, so they go out in parts
+    const publishChanges = (changes: ElementDelta[], requestId?: string) => {
+      const parts = splitForPublishing(changes)
+      parts.forEach((part, index) => {
+        if (requestId) {
+          publish('sync-response', { requestId, changes: part, final: index === parts.length - 1 })
+        } else {
+          publish('sync-changes', { changes: part })
+        }
+      })
+    }
+
+    const finishResync = () => {
+      clearTimeout(resyncTimer)
+      resyncId = null
+      lostAt = null
+      setConnection('connected')
+    }
+
+    // Falls back to storage if the answer to `requestId` stops coming
+    const waitForAnswer = (requestId: string) => {
+      clearTimeout(resyncTimer)
+      resyncTimer = setTimeout(async () => {
+        if (readStoredElements) {
+          try {
+            const stored = await readStoredElements(boardId)
+            // Left the board, lost the connection again or got an answer meanwhile
+            if (!active || resyncId !== requestId) return
+            if (board.mergeStored(stored)) onRemoteChange()
+          } catch (error) {
+            console.error('Failed to resync board from storage:', error)
+          }
+        }
+        if (active && resyncId === requestId) finishResync()
+      }, RESYNC_TIMEOUT)
+    }
+
+    // Sends what changed here since `since` and asks peers for whatever
+    // this client hasn't seen from anyone. One peer's answer is enough, as
+    // all of them merge the same operations.
+    const resync = (since: VersionVector) => {
+      setConnection('resyncing')
+      const requestId = `sync_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+      resyncId = requestId
+      const changes = board.getChangesSince(since)
+      if (changes.length > 0) publishChanges(changes)
+      publish('sync-request', { requestId, version: board.getVersion() })
+      waitForAnswer(requestId)
+    }
+
+    const disconnect = () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+      unsubscribers = []
+      clearTimeout(resyncTimer)
+      resyncId = null
+      pendingAnswers.forEach(timer => clearTimeout(timer))
+      pendingAnswers.clear()
+      if (!transport) return
+      if (transportRef.current === transport) {
+        transportRef.current = null
+      }
+      transport.leave().catch(error => console.error('Failed to leave board channel:', error))
+      transport = null
+    }
+
+    const scheduleReconnect = () => {
+      clearTimeout(reconnectTimer)
+      // Presence, cursors and previews are unknown until the connection is back
+      setCollaboration(prev => ({ ...prev, users: [], cursors: [], previews: [] }))
+      if (!navigator.onLine) {
+        // Coming back online reconnects
+        setConnection('offline')
+        return
+      }
+      setConnection('reconnecting')
+      const delay = Math.min(MAX_RECONNECT_DELAY, INITIAL_RECONNECT_DELAY * 2 ** attempts)
+      attempts++
+      reconnectTimer = setTimeout(connect, delay)
+    }
+
+    const handleConnectionLost = () => {
+      if (!active) return
+      // Failed attempts in a row keep the first point
+      lostAt ??= board.getVersion()
+      disconnect()
+      scheduleReconnect()
+    }
+
+    const handleMessage = (received: TransportMessage) => {
+      // Messages from other boards or older clients are never applied here
+      const message = parseBoardMessage(received, boardId)
+      if (!message) return
+
+      switch (message.type) {
+        case 'cursor-move': {
+          const senderId = received.userId
+          if (!senderId || senderId === user.id) break
+          const sender = parsePeerMetadata(received.metadata)
+          setCollaboration(prev => ({
+            ...prev,
+            cursors: [
+              ...prev.cursors.filter(c => c.userId !== senderId),
+              {
+                userId: senderId,
+                x: message.x,
+                y: message.y,
+                displayName: sender.displayName || 'Anonymous',
+                color: sender.color || '#666'
               }
-            })
-
-            console.log('✅ Collaboration initialized for user:', user.displayName)
-          } else if (!state.isLoading) {
-            setCurrentUser(null)
-            setCollaboration({
-              users: [],
-              cursors: [],
-              isConnected: false
-            })
+            ]
+          }))
+          break
+        }
+
+        case 'element-preview': {
+          const senderId = received.userId
+          if (!senderId || senderId === user.id) break
+          const { color: senderColor } = parsePeerMetadata(received.metadata)
+          const { elements } = message
+          setCollaboration(prev => ({
+            ...prev,
+            previews: [
+              ...prev.previews.filter(p => p.userId !== senderId),
+              ...(elements.length > 0 ? [{ userId: senderId, color: senderColor || '#666', elements }] : [])
+            ]
+          }))
+          break
+        }
+
+        case 'element-operations':
+          // Also taken from this user's other tabs; operations already
+          // applied here are dropped by their stamps
+          if (message.operations.length > 0 && board.apply(message.operations)) onRemoteChange()
+          break
+
+        case 'sync-changes':
+          mergeDelta(message.changes)
+          break
+
+        case 'sync-request': {
+          // Transports that echo hand back this client's own request
+          if (message.requestId === resyncId) break
+          // Clients still catching up themselves leave answering to others
+          if (resyncId !== null || pendingAnswers.has(message.requestId)) break
+
+          const { requestId, version } = message
+          pendingAnswers.set(requestId, setTimeout(() => {
+            pendingAnswers.delete(requestId)
+            publishChanges(board.getChangesSince(version), requestId)
+          }, Math.random() * MAX_RESYNC_ANSWER_DELAY))
+          break
+        }
+
+        case 'sync-response':
+          // Someone else answered first
+          clearTimeout(pendingAnswers.get(message.requestId))
+          pendingAnswers.delete(message.requestId)
+          // Answers to other clients' requests are merged too; they're
+          // just as current
+          mergeDelta(message.changes)
+          if (message.requestId !== resyncId) break
+          if (message.final) {
+            finishResync()
+          } else {
+            waitForAnswer(message.requestId)
+          }
+          break
+      }
+    }
+
+    async function connect() {
+      clearTimeout(reconnectTimer)
+      if (!active || transport) return
+
+      const next = createCollaborationTransport()
+      transport = next
+      try {
+        await next.join(channel, {
+          userId: user.id,
+          metadata: {
+            displayName: user.displayName,
+            color
           }
         })
       } catch (error) {
-        console.error('❌ Failed to initialize collaboration:', error)
+        // Left, or given up on, while joining
+        if (transport !== next) return
+        console.error('Failed to join board channel:', error)
+        handleConnectionLost()
+        return
       }
+      if (transport !== next) return
+
+      attempts = 0
+      transportRef.current = next
+
+      // Listen for presence changes (who's online)
+      unsubscribers.push(next.onPresence(users => {
+        const present = new Set(users.map(u => u.userId))
+        setCollaboration(prev => ({
+          ...prev,
+          // Whatever someone who left was in the middle of won't be committed
+          previews: prev.previews.filter(p => present.has(p.userId)),
+          users: users.map(u => {
+            const metadata = parsePeerMetadata(u.metadata)
+            return {
+              id: u.userId,
+              email: metadata.email || '',
+              displayName: metadata.displayName || 'Anonymous'
+            }
+          })
+        }))
+      }))
+      // Listen for cursor movements, element operations and resyncs
+      unsubscribers.push(next.onMessage(handleMessage))
+      unsubscribers.push(next.onDisconnect(handleConnectionLost))
+
+      // A first join catches up on edits peers haven't saved yet, which a
+      // stale local copy of the board can't have either
+      resync(lostAt ?? {})
+    }
+
+    const handleOnline = () => {
+      if (transport) return
+      attempts = 0
+      connect()
     }
 
-    initCollaboration()
+    connect()
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleConnectionLost)
 
     return () => {
-      if (channel) {
-        channel.unsubscribe()
-      }
-      if (unsubscribeAuth) {
-        unsubscribeAuth()
-      }
+      active = false
+      clearTimeout(reconnectTimer)
+      disconnect()
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleConnectionLost)
+      // Presence, cursors and previews belong to the board being left
+      setCollaboration(DISCONNECTED)
     }
-  }, [onElementsUpdate])
+  }, [boardId, currentUser, board, onRemoteChange, readStoredElements])
 
   // Broadcast cursor position
   const broadcastCursor = useCallback(async (x: number, y: number) => {
-    if (!currentUser) return
+    const transport = transportRef.current
+    if (!transport) return
 
     try {
-      await blink.realtime.publish(CHANNEL_NAME, 'cursor-move', {
+      await transport.publish('cursor-move', {
+        boardId,
         x,
         y,
         timestamp: Date.now()
-      }, {
-        userId: currentUser.id,
-        metadata: {
-          displayName: currentUser.displayName,
-          color: userColor
-        }
       })
     } catch (error) {
       console.error('Failed to broadcast cursor:', error)
     }
-  }, [currentUser, userColor])
+  }, [boardId])
+
+  // Latest preview not yet sent, and whether peers last heard of none
+  const previewRef = useRef<{
+    timer?: ReturnType<typeof setTimeout>
+    pending: WhiteboardElement[] | null
+    cleared: boolean
+  }>({ pending: null, cleared: true })
 
-  // Broadcast element changes
-  const broadcastElementChange = useCallback(async (elements: WhiteboardElement[]) => {
-    if (!currentUser) return
+  const publishPreview = useCallback((elements: WhiteboardElement[]) => {
+    const transport = transportRef.current
+    if (!transport) return
+
+    // A preview is only a glimpse, so one too big for a message is cut short
+    const [part] = splitForPublishing(elements)
+    transport.publish('element-preview', { boardId, elements: part, schemaVersion: ELEMENT_SCHEMA_VERSION })
+      .catch(error => console.error('Failed to broadcast preview:', error))
+  }, [boardId])
+
+  // Broadcast the stroke or drag in progress, or that there is none. Each
+  // pointer move may call this; previews go out at most every PREVIEW_INTERVAL.
+  const broadcastPreview = useCallback((elements: WhiteboardElement[]) => {
+    const preview = previewRef.current
+
+    if (elements.length === 0) {
+      clearTimeout(preview.timer)
+      preview.timer = undefined
+      preview.pending = null
+      if (!preview.cleared) publishPreview([])
+      preview.cleared = true
+      return
+    }
+
+    preview.cleared = false
+    if (preview.timer !== undefined) {
+      preview.pending = elements
+      return
+    }
+
+    publishPreview(elements)
+    const flush = () => {
+      preview.timer = undefined
+      if (!preview.pending) return
+      publishPreview(preview.pending)
+      preview.pending = null
+      preview.timer = setTimeout(flush, PREVIEW_INTERVAL)
+    }
+    preview.timer = setTimeout(flush, PREVIEW_INTERVAL)
+  }, [publishPreview])
+
+  // Broadcast operations made on this board
+  const broadcastOperations = useCallback(async (operations: ElementOperation[]) => {
+    const transport = transportRef.current
+    if (!transport || operations.length === 0) return
 
     try {
-      await blink.realtime.publish(CHANNEL_NAME, 'elements-update', {
-        elements,
-        timestamp: Date.now()
-      }, {
-        userId: currentUser.id,
-        metadata: {
-          displayName: currentUser.displayName
-        }
-      })
+      // A big paste or restore goes out in parts; each operation stands alone
+      for (const part of splitForPublishing(operations)) {
+        if (part.length === 0) continue
+        await transport.publish('element-operations', {
+          boardId,
+          operations: part,
+          schemaVersion: ELEMENT_SCHEMA_VERSION,
+          timestamp: Date.now()
+        })
+      }
     } catch (error) {
-      console.error('Failed to broadcast elements:', error)
+      console.error('Failed to broadcast operations:', error)
     }
-  }, [currentUser])
+  }, [boardId])
 
   return {
     collaboration,
-    currentUser,
     userColor,
     broadcastCursor,
-    broadcastElementChange
+    broadcastPreview,
+    broadcastOperations
   }
-}
\ No newline at end of file
+}
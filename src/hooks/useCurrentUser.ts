@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react'
+import { blink } from '../blink/client'
+import type { User } from '../types/whiteboard'
+
+// The signed-in user, or null while signed out or still loading. Keeps the
+// same object across auth refreshes so effects depending on it don't rerun.
+export function useCurrentUser() {
+  const [currentUser, setCurrentUser] = useState<User | null>(null)
+
+  useEffect(() => {
+    return blink.auth.onAuthStateChanged(state => {
+      if (state.isLoading) return
+
+      if (!state.user) {
+        setCurrentUser(null)
+        return
+      }
+
+      const user: User = {
+        id: state.user.id,
+        email: state.user.email,
+        displayName: state.user.email.split('@')[0] || 'Anonymous'
+      }
+      setCurrentUser(prev => prev?.id === user.id ? prev : user)
+    })
+  }, [])
+
+  return currentUser
+}
@@ -1,46 +1,59 @@
-import { useState, useEffect, useCallback } from 'react'
-import { blink } from '../blink/client'
+import { useState, useEffect, useCallback, useRef, useSyncExternalStore } from 'react'
 import type { WhiteboardElement } from '../types/whiteboard'
+import { type BoardOperation, type BoardSession, type BoardSnapshot, boardStorage } from '../lib/boardStorage'
+import { parseStoredElements, serializeElement } from '../lib/elementSchema'
+import { type ElementChanges, type SaveQueue, createSaveQueue } from '../lib/saveQueue'
+import { type ElementOperation, getStoredChanges } from '../lib/operations'
+import { sortByPosition } from '../lib/boardDocument'
+import { type SyncStatus, offlineSync } from '../lib/offlineSync'
 
-interface WhiteboardSession {
-  id: string
-  name: string
-  createdAt: string
-  updatedAt: string
-  userId: string
+export type WhiteboardSession = BoardSession
+
+// Shown next to the zoom badge; `saving` also covers edits still waiting for the debounce
+export type SaveStatus = SyncStatus
+
+// A board being edited is snapshotted this often, if it changed
+const AUTO_SNAPSHOT_INTERVAL = 10 * 60 * 1000
+// Oldest automatic snapshots beyond this are deleted; named ones are kept
+const MAX_AUTO_SNAPSHOTS = 50
+
+interface PersistenceOptions {
+  // Recorded as the author of snapshots
+  authorName?: string
 }
 
-export function useWhiteboardPersistence() {
+export function useWhiteboardPersistence({ authorName }: PersistenceOptions = {}) {
   const [currentSession, setCurrentSession] = useState<WhiteboardSession | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const syncStatus = useSyncExternalStore(offlineSync.subscribe, offlineSync.getStatus)
+  const [hasQueuedChanges, setHasQueuedChanges] = useState(false)
 
   // Generate session ID
   const generateSessionId = () => `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  const generateOperationId = () => `op_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  const generateSnapshotId = () => `snapshot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 
-  // Create a new whiteboard session
-  const createSession = useCallback(async (name: string = 'Untitled Whiteboard') => {
+  // Create a new whiteboard session, optionally starting with `elements`
+  const createSession = useCallback(async (name: string = 'Untitled Whiteboard', elements: WhiteboardElement[] = []) => {
     setIsLoading(true)
     setError(null)
     
     try {
-      const user = await blink.auth.me()
-      const sessionId = generateSessionId()
-      
-      await blink.db.whiteboardSessions.create({
-        id: sessionId,
-        name,
-        userId: user.id
-      })
-      
+      const now = new Date().toISOString()
       const session: WhiteboardSession = {
-        id: sessionId,
+        id: generateSessionId(),
         name,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        userId: user.id
+        createdAt: now,
+        updatedAt: now,
+        userId: await boardStorage.getUserId()
       }
       
+      await boardStorage.createSession(session)
+      if (elements.length > 0) {
+        const upserts = elements.map(element => ({ id: element.id, data: serializeElement(element) }))
+        await boardStorage.writeElements(session.id, { upserts, deletes: [] })
+      }
       setCurrentSession(session)
       return session
     } catch (err) {
@@ -52,44 +65,92 @@ export function useWhiteboardPersistence() {
     }
   }, [])
 
-  // Save elements to database
-  const saveElements = useCallback(async (elements: WhiteboardElement[]) => {
-    if (!currentSession) return
-    
-    try {
-      const user = await blink.auth.me()
-      
-      // Clear existing elements for this session
-      const existingElements = await blink.db.whiteboardElements.list({
-        where: { sessionId: currentSession.id }
-      })
-      
-      for (const element of existingElements) {
-        await blink.db.whiteboardElements.delete(element.id)
-      }
-      
-      // Save new elements
-      if (elements.length > 0) {
-        const elementsToSave = elements.map(element => ({
-          id: `${currentSession.id}_${element.id}`,
-          sessionId: currentSession.id,
-          elementData: JSON.stringify(element),
-          userId: user.id
-        }))
-        
-        await blink.db.whiteboardElements.createMany(elementsToSave)
+  // Send changes left over from earlier visits
+  useEffect(() => {
+    offlineSync.sync()
+  }, [])
+
+  // Debounced writer for the current session. Keyed on the id so renaming
+  // the session keeps the queue and the changes waiting in it.
+  // Writes go to the local copy and outbox, which sync to the backend.
+  const currentSessionId = currentSession?.id
+  const saveQueueRef = useRef<SaveQueue | null>(null)
+  const latestElementsRef = useRef<WhiteboardElement[]>([])
+  // Set once something was written since the last automatic snapshot
+  const snapshotDueRef = useRef(false)
+  const authorNameRef = useRef(authorName)
+  authorNameRef.current = authorName
+
+  useEffect(() => {
+    if (!currentSessionId) return
+
+    const sessionId = currentSessionId
+    latestElementsRef.current = []
+    snapshotDueRef.current = false
+    const write = async ({ upserts, deletes }: ElementChanges) => {
+      const changes = {
+        upserts: upserts.map(element => ({ id: element.id, data: serializeElement(element) })),
+        deletes
       }
-      
-      // Update session timestamp
-      await blink.db.whiteboardSessions.update(currentSession.id, {
-        updatedAt: new Date().toISOString()
-      })
-      
-    } catch (err) {
-      console.error('Failed to save elements:', err)
-      setError('Failed to save whiteboard')
+      const createdAt = new Date().toISOString()
+      await offlineSync.writeElements(sessionId, changes)
+      snapshotDueRef.current = true
+
+      // Queued like the changes themselves, so edits made offline are
+      // replayed too. A save that can't be logged is still saved.
+      boardStorage.getUserId()
+        .then(userId => offlineSync.appendOperation({ id: generateOperationId(), sessionId, createdAt, userId, ...changes }))
+        .catch(err => console.error('Failed to record operation:', err))
+    }
+
+    const queue = createSaveQueue({
+      write,
+      onError: (err, attempt) => {
+        console.error(`Failed to save elements (attempt ${attempt}):`, err)
+        setError('Failed to save whiteboard')
+      },
+      onSettled: () => setHasQueuedChanges(false)
+    })
+    saveQueueRef.current = queue
+
+    // Get the last changes out when the tab is closed or hidden
+    const flushSaves = () => {
+      queue.flush()
     }
-  }, [currentSession])
+    window.addEventListener('pagehide', flushSaves)
+
+    return () => {
+      window.removeEventListener('pagehide', flushSaves)
+      saveQueueRef.current = null
+      queue.flush().finally(() => queue.dispose())
+    }
+  }, [currentSessionId])
+
+  // Queue a save of the elements `operations` touched; `elements` is the
+  // board with them applied
+  const saveOperations = useCallback((operations: ElementOperation[], elements: WhiteboardElement[]) => {
+    if (!saveQueueRef.current) return
+    latestElementsRef.current = elements
+    const changes = getStoredChanges(operations, elements)
+    if (changes.upserts.length === 0 && changes.deletes.length === 0) return
+    setHasQueuedChanges(true)
+    saveQueueRef.current.schedule(changes)
+  }, [])
+
+  // Stored elements of a board, leaving pending saves alone; for catching up
+  // with rather than starting over from
+  const readElements = useCallback(async (sessionId: string): Promise<WhiteboardElement[]> => {
+    const stored = await offlineSync.loadElements(sessionId)
+    return sortByPosition(parseStoredElements(stored.map(element => element.data)))
+  }, [])
+
+  // Stored elements of a board straight from the backend, for previews.
+  // Unlike readElements this leaves the local copy alone, so listing boards
+  // never rewrites or adds local copies of them.
+  const previewElements = useCallback(async (sessionId: string): Promise<WhiteboardElement[]> => {
+    const stored = await boardStorage.listElements(sessionId)
+    return sortByPosition(parseStoredElements(stored.map(element => element.data)))
+  }, [])
 
   // Load elements from database
   const loadElements = useCallback(async (sessionId: string): Promise<WhiteboardElement[]> => {
@@ -97,12 +158,18 @@ export function useWhiteboardPersistence() {
     setError(null)
     
     try {
-      const elements = await blink.db.whiteboardElements.list({
-        where: { sessionId },
-        orderBy: { createdAt: 'asc' }
-      })
-      
-      return elements.map(el => JSON.parse(el.elementData))
+      const elements = await readElements(sessionId)
+
+      // Edits made while loading are still queued, and stay on top of what
+      // was loaded until the board is next saved
+      if (sessionId === currentSessionId) {
+        const edited = new Map(latestElementsRef.current.map(element => [element.id, element]))
+        latestElementsRef.current = sortByPosition([
+          ...elements.filter(element => !edited.has(element.id)),
+          ...edited.values()
+        ])
+      }
+      return elements
     } catch (err) {
       console.error('Failed to load elements:', err)
       setError('Failed to load whiteboard')
@@ -110,7 +177,7 @@ export function useWhiteboardPersistence() {
     } finally {
       setIsLoading(false)
     }
-  }, [])
+  }, [currentSessionId, readElements])
 
   // Load session
   const loadSession = useCallback(async (sessionId: string) => {
@@ -118,22 +185,11 @@ export function useWhiteboardPersistence() {
     setError(null)
     
     try {
-      const sessions = await blink.db.whiteboardSessions.list({
-        where: { id: sessionId },
-        limit: 1
-      })
-      const session = sessions[0]
+      const session = await offlineSync.loadSession(sessionId)
       if (session) {
-        setCurrentSession({
-          id: session.id,
-          name: session.name,
-          createdAt: session.createdAt,
-          updatedAt: session.updatedAt,
-          userId: session.userId
-        })
-        return session
+        setCurrentSession(session)
       }
-      return null
+      return session
     } catch (err) {
       console.error('Failed to load session:', err)
       setError('Failed to load session')
@@ -146,40 +202,149 @@ export function useWhiteboardPersistence() {
   // Get user's sessions
   const getUserSessions = useCallback(async (): Promise<WhiteboardSession[]> => {
     try {
-      const user = await blink.auth.me()
-      const sessions = await blink.db.whiteboardSessions.list({
-        where: { userId: user.id },
-        orderBy: { updatedAt: 'desc' }
-      })
-      
-      return sessions.map(session => ({
-        id: session.id,
-        name: session.name,
-        createdAt: session.createdAt,
-        updatedAt: session.updatedAt,
-        userId: session.userId
-      }))
+      return await boardStorage.listSessions(await boardStorage.getUserId())
     } catch (err) {
       console.error('Failed to get user sessions:', err)
       return []
     }
   }, [])
 
-  // Auto-create session on mount if none exists
-  useEffect(() => {
-    if (!currentSession) {
-      createSession()
+  // Rename a session, keeping the open one in sync
+  const renameSession = useCallback(async (sessionId: string, name: string) => {
+    try {
+      const updatedAt = new Date().toISOString()
+      await boardStorage.updateSession(sessionId, { name, updatedAt })
+      setCurrentSession(session => session?.id === sessionId ? { ...session, name, updatedAt } : session)
+      return true
+    } catch (err) {
+      console.error('Failed to rename session:', err)
+      setError('Failed to rename whiteboard')
+      return false
+    }
+  }, [])
+
+  // Copy a session and all of its elements into a new session. The elements
+  // come from the local copy with queued changes on top, so edits the
+  // backend hasn't seen yet are copied too.
+  const duplicateSession = useCallback(async (sessionId: string, name: string) => {
+    try {
+      if (sessionId === currentSessionId) await saveQueueRef.current?.flush()
+      const now = new Date().toISOString()
+      const copy: WhiteboardSession = {
+        id: generateSessionId(),
+        name,
+        createdAt: now,
+        updatedAt: now,
+        userId: await boardStorage.getUserId()
+      }
+      const elements = await offlineSync.loadElements(sessionId)
+
+      await boardStorage.createSession(copy)
+      if (elements.length > 0) {
+        await boardStorage.writeElements(copy.id, { upserts: elements, deletes: [] })
+      }
+      return copy
+    } catch (err) {
+      console.error('Failed to duplicate session:', err)
+      setError('Failed to duplicate whiteboard')
+      return null
+    }
+  }, [currentSessionId])
+
+  // Delete a session and everything stored with it
+  const deleteSession = useCallback(async (sessionId: string) => {
+    try {
+      await boardStorage.deleteSession(sessionId)
+      await offlineSync.forget(sessionId)
+      setCurrentSession(session => session?.id === sessionId ? null : session)
+      return true
+    } catch (err) {
+      console.error('Failed to delete session:', err)
+      setError('Failed to delete whiteboard')
+      return false
+    }
+  }, [])
+
+  // Snapshots of a session, newest first
+  const listSnapshots = useCallback(async (sessionId: string): Promise<BoardSnapshot[]> => {
+    try {
+      return await boardStorage.listSnapshots(sessionId)
+    } catch (err) {
+      console.error('Failed to list snapshots:', err)
+      return []
+    }
+  }, [])
+
+  // Store a copy of the board; snapshots without a label are automatic
+  const createSnapshot = useCallback(async (sessionId: string, elements: WhiteboardElement[], label?: string) => {
+    try {
+      const snapshot: BoardSnapshot = {
+        id: generateSnapshotId(),
+        sessionId,
+        createdAt: new Date().toISOString(),
+        userId: await boardStorage.getUserId(),
+        authorName: authorNameRef.current,
+        label,
+        elements: elements.map(serializeElement)
+      }
+      await boardStorage.createSnapshot(snapshot)
+
+      if (!label) {
+        const automatic = (await boardStorage.listSnapshots(sessionId)).filter(item => !item.label)
+        for (const old of automatic.slice(MAX_AUTO_SNAPSHOTS)) {
+          await boardStorage.deleteSnapshot(old.id)
+        }
+      }
+      return snapshot
+    } catch (err) {
+      console.error('Failed to create snapshot:', err)
+      return null
     }
-  }, [createSession, currentSession])
+  }, [])
+
+  // Saves of a session, oldest first, for replaying it
+  const listOperations = useCallback(async (sessionId: string): Promise<BoardOperation[]> => {
+    try {
+      return await offlineSync.listOperations(sessionId)
+    } catch (err) {
+      console.error('Failed to list operations:', err)
+      return []
+    }
+  }, [])
+
+  // Snapshot the open board now and then while it is being edited
+  useEffect(() => {
+    if (!currentSessionId) return
+
+    const timer = setInterval(() => {
+      if (!snapshotDueRef.current) return
+      snapshotDueRef.current = false
+      createSnapshot(currentSessionId, latestElementsRef.current)
+    }, AUTO_SNAPSHOT_INTERVAL)
+    return () => clearInterval(timer)
+  }, [currentSessionId, createSnapshot])
+
+  const saveStatus: SaveStatus = hasQueuedChanges && syncStatus.state === 'saved'
+    ? { ...syncStatus, state: 'saving' }
+    : syncStatus
 
   return {
     currentSession,
+    saveStatus,
     isLoading,
     error,
     createSession,
     loadSession,
-    saveElements,
+    renameSession,
+    duplicateSession,
+    deleteSession,
+    saveOperations,
     loadElements,
+    readElements,
+    previewElements,
+    listSnapshots,
+    createSnapshot,
+    listOperations,
     getUserSessions
   }
 }
\ No newline at end of file
@@ -0,0 +1,88 @@
+import type { Point, WhiteboardElement } from '../types/whiteboard'
+
+// Board-space pitch of the synthetic element grid
+const CELL_SIZE = 160
+
+const COLORS = ['#000000', '#ef4444', '#3b82f6', '#22c55e', '#a855f7', '#f97316']
+const FILLS = ['#fef08a', '#bfdbfe', '#bbf7d0', '#fecaca']
+
+// Element count requested with `?benchmark=N`, or null outside benchmark mode.
+// A bare `?benchmark` asks for 20,000.
+export function getBenchmarkSize(search = window.location.search): number | null {
+  const params = new URLSearchParams(search)
+  if (!params.has('benchmark')) return null
+
+  const size = parseInt(params.get('benchmark') || '', 10)
+  return Number.isFinite(size) && size > 0 ? size : 20000
+}
+
+// Small seeded PRNG, so every run draws the same board
+function createRandom(seed: number) {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// A mix of every drawable element type laid out on a square grid, one per cell
+export function generateSyntheticElements(count: number, seed = 1): WhiteboardElement[] {
+  const random = createRandom(seed)
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)]
+  const columns = Math.ceil(Math.sqrt(count))
+  const elements: WhiteboardElement[] = []
+
+  for (let i = 0; i < count; i++) {
+    const x = (i % columns) * CELL_SIZE + random() * 20
+    const y = Math.floor(i / columns) * CELL_SIZE + random() * 20
+    const width = 40 + random() * 80
+    const height = 40 + random() * 80
+    const base = {
+      id: `bench-${i}`,
+      x,
+      y,
+      color: pick(COLORS),
+      strokeWidth: 1 + Math.floor(random() * 4)
+    }
+
+    switch (i % 6) {
+      case 0:
+        elements.push({ ...base, type: 'rectangle', width, height, fill: random() < 0.3 ? pick(FILLS) : undefined })
+        break
+
+      case 1:
+        elements.push({ ...base, type: 'circle', width, height: width })
+        break
+
+      case 2: {
+        const points: Point[] = []
+        for (let step = 0; step < 12; step++) {
+          points.push({ x: x + step * (width / 12), y: y + height / 2 + Math.sin(step + random()) * height / 3 })
+        }
+        elements.push({ ...base, type: 'path', points })
+        break
+      }
+
+      case 3:
+        elements.push({
+          ...base,
+          type: 'arrow',
+          width,
+          height: height - 60,
+          routing: pick(['straight', 'curved', 'elbow'] as const)
+        })
+        break
+
+      case 4:
+        elements.push({ ...base, type: 'text', y: y + 20, text: `Item ${i}` })
+        break
+
+      default:
+        elements.push({ ...base, type: 'sticky-note', width: 100, height: 100, fill: pick(FILLS), text: `Note ${i}` })
+    }
+  }
+
+  return elements
+}
@@ -0,0 +1,185 @@
+import type { AnchorPosition, ConnectorBinding, Point, WhiteboardElement } from '../types/whiteboard'
+import { getConnectorEndpoints, isConnector } from './connectors'
+import { getBoundsCenter, getElementBounds, hitTest, rotatePoint, toLocalPoint } from './geometry'
+
+// Screen-space distance within which a dropped endpoint snaps to a fixed anchor
+export const ANCHOR_SNAP_DISTANCE = 12
+
+export const ANCHOR_POSITIONS: AnchorPosition[] = ['top', 'right', 'bottom', 'left']
+
+const ANCHOR_DIRECTIONS: Record<AnchorPosition, Point> = {
+  top: { x: 0, y: -1 },
+  right: { x: 1, y: 0 },
+  bottom: { x: 0, y: 1 },
+  left: { x: -1, y: 0 }
+}
+
+export function isBindable(element: WhiteboardElement) {
+  return (
+    element.type === 'rectangle' ||
+    element.type === 'circle' ||
+    element.type === 'sticky-note' ||
+    element.type === 'rich-note'
+  )
+}
+
+function getCenter(element: WhiteboardElement): Point {
+  return getBoundsCenter(getElementBounds(element))
+}
+
+export function getAnchorPoint(element: WhiteboardElement, anchor: AnchorPosition): Point {
+  const bounds = getElementBounds(element)
+  const center = getCenter(element)
+  const direction = ANCHOR_DIRECTIONS[anchor]
+  const halfWidth = element.type === 'circle' ? Math.min(bounds.width, bounds.height) / 2 : bounds.width / 2
+  const halfHeight = element.type === 'circle' ? Math.min(bounds.width, bounds.height) / 2 : bounds.height / 2
+
+  return rotatePoint(
+    { x: center.x + direction.x * halfWidth, y: center.y + direction.y * halfHeight },
+    center,
+    element.rotation || 0
+  )
+}
+
+// Point where the ray from the element's center toward `toward` leaves its outline
+export function getEdgePoint(element: WhiteboardElement, toward: Point): Point {
+  const bounds = getElementBounds(element)
+  const center = getCenter(element)
+  const local = toLocalPoint(element, toward)
+  const dx = local.x - center.x
+  const dy = local.y - center.y
+
+  if (dx === 0 && dy === 0) return center
+
+  let scale: number
+  if (element.type === 'circle') {
+    scale = Math.min(bounds.width, bounds.height) / 2 / Math.hypot(dx, dy)
+  } else {
+    scale = Math.min(
+      dx === 0 ? Infinity : bounds.width / 2 / Math.abs(dx),
+      dy === 0 ? Infinity : bounds.height / 2 / Math.abs(dy)
+    )
+  }
+
+  return rotatePoint({ x: center.x + dx * scale, y: center.y + dy * scale }, center, element.rotation || 0)
+}
+
+// Binding for an endpoint dropped at `point`, preferring the topmost element.
+// Lands on a fixed anchor when close enough to one, otherwise floats on the edge.
+export function findBindingTarget(
+  point: Point,
+  elements: WhiteboardElement[],
+  zoom: number,
+  excludeIds: string[] = []
+): ConnectorBinding | null {
+  const snapDistance = ANCHOR_SNAP_DISTANCE / zoom
+  const element = hitTest(
+    point,
+    elements,
+    zoom,
+    el => isBindable(el) && !excludeIds.includes(el.id),
+    snapDistance
+  )
+  if (!element) return null
+
+  const anchor = ANCHOR_POSITIONS.find(position => {
+    const anchorPoint = getAnchorPoint(element, position)
+    return Math.hypot(point.x - anchorPoint.x, point.y - anchorPoint.y) <= snapDistance
+  })
+
+  return anchor ? { elementId: element.id, anchor } : { elementId: element.id }
+}
+
+function samePoint(a: Point, b: Point) {
+  return a.x === b.x && a.y === b.y
+}
+
+// Moves a connector's bound endpoints onto the elements they are attached to.
+// Bindings to elements that no longer exist are dropped, leaving the endpoint in place.
+export function resolveBindings(
+  connector: WhiteboardElement,
+  lookup: Pick<Map<string, WhiteboardElement>, 'get'>
+): WhiteboardElement {
+  const { start, end } = getConnectorEndpoints(connector)
+  const startTarget = connector.startBinding && lookup.get(connector.startBinding.elementId)
+  const endTarget = connector.endBinding && lookup.get(connector.endBinding.elementId)
+  const startAnchor = startTarget && connector.startBinding?.anchor
+  const endAnchor = endTarget && connector.endBinding?.anchor
+
+  // Fixed anchors first, so floating ends can aim at them
+  let newStart = startTarget && startAnchor ? getAnchorPoint(startTarget, startAnchor) : start
+  let newEnd = endTarget && endAnchor ? getAnchorPoint(endTarget, endAnchor) : end
+
+  if (startTarget && !startAnchor) {
+    newStart = getEdgePoint(startTarget, endTarget && !endAnchor ? getCenter(endTarget) : newEnd)
+  }
+  if (endTarget && !endAnchor) {
+    newEnd = getEdgePoint(endTarget, startTarget && !startAnchor ? getCenter(startTarget) : newStart)
+  }
+
+  const bindingsIntact = !!startTarget === !!connector.startBinding && !!endTarget === !!connector.endBinding
+  if (bindingsIntact && samePoint(newStart, start) && samePoint(newEnd, end)) {
+    return connector
+  }
+
+  return {
+    ...connector,
+    x: newStart.x,
+    y: newStart.y,
+    width: newEnd.x - newStart.x,
+    height: newEnd.y - newStart.y,
+    startBinding: startTarget ? connector.startBinding : undefined,
+    endBinding: endTarget ? connector.endBinding : undefined
+  }
+}
+
+// Re-routes every bound connector against the given element list.
+// Returns the same array when nothing moved, so it is cheap to run on every change.
+export function rerouteConnectors(elements: WhiteboardElement[]): WhiteboardElement[] {
+  if (!elements.some(el => el.startBinding || el.endBinding)) return elements
+
+  const lookup = new Map(elements.map(el => [el.id, el]))
+  let changed = false
+
+  const routed = elements.map(el => {
+    if (!isConnector(el) || (!el.startBinding && !el.endBinding)) return el
+    const resolved = resolveBindings(el, lookup)
+    if (resolved !== el) changed = true
+    return resolved
+  })
+
+  return changed ? routed : elements
+}
+
+// Connectors with an endpoint bound to each element, keyed by element id
+export function getConnectorsByTarget(elements: WhiteboardElement[]): Map<string, WhiteboardElement[]> {
+  const connectors = new Map<string, WhiteboardElement[]>()
+  const add = (targetId: string, connector: WhiteboardElement) => {
+    const bound = connectors.get(targetId)
+    if (bound) {
+      if (!bound.includes(connector)) bound.push(connector)
+    } else {
+      connectors.set(targetId, [connector])
+    }
+  }
+
+  elements.forEach(el => {
+    if (!isConnector(el)) return
+    if (el.startBinding) add(el.startBinding.elementId, el)
+    if (el.endBinding) add(el.endBinding.elementId, el)
+  })
+  return connectors
+}
+
+// Ids of the elements and of every connector bound to them: all that moving
+// the elements can reroute
+export function withBoundConnectorIds(
+  elements: WhiteboardElement[],
+  connectorsByTarget: Map<string, WhiteboardElement[]>
+): Set<string> {
+  const ids = new Set(elements.map(el => el.id))
+  elements.forEach(el => {
+    connectorsByTarget.get(el.id)?.forEach(connector => ids.add(connector.id))
+  })
+  return ids
+}
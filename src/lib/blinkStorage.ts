@@ -0,0 +1,179 @@
+import { blink } from '../blink/client'
+import type { BoardOperation, BoardSession, BoardSnapshot, BoardStorage } from './boardStorage'
+
+interface ElementRow {
+  id: string
+  sessionId: string
+  elementData: string
+  userId: string
+}
+
+interface SnapshotRow {
+  id: string
+  sessionId: string
+  userId: string
+  authorName?: string
+  label?: string
+  // JSON array of serialized elements
+  elementData: string
+  createdAt: string
+}
+
+interface OperationRow {
+  id: string
+  sessionId: string
+  userId: string
+  // JSON arrays of StoredElement and of element ids
+  upserts: string
+  deletes: string
+  createdAt: string
+}
+
+const sessions = () => blink.db.table<BoardSession>('whiteboardSessions')
+const elements = () => blink.db.table<ElementRow>('whiteboardElements')
+const snapshots = () => blink.db.table<SnapshotRow>('whiteboardSnapshots')
+const operations = () => blink.db.table<OperationRow>('whiteboardOperations')
+
+// Element rows are shared by all sessions, so their ids are prefixed
+function rowId(sessionId: string, elementId: string) {
+  return `${sessionId}_${elementId}`
+}
+
+function toSession(row: BoardSession): BoardSession {
+  return {
+    id: row.id,
+    name: row.name,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    userId: row.userId
+  }
+}
+
+function toSnapshot(row: SnapshotRow): BoardSnapshot {
+  return {
+    id: row.id,
+    sessionId: row.sessionId,
+    createdAt: row.createdAt,
+    userId: row.userId,
+    authorName: row.authorName || undefined,
+    label: row.label || undefined,
+    elements: JSON.parse(row.elementData)
+  }
+}
+
+function toOperation(row: OperationRow): BoardOperation {
+  return {
+    id: row.id,
+    sessionId: row.sessionId,
+    createdAt: row.createdAt,
+    userId: row.userId,
+    upserts: JSON.parse(row.upserts),
+    deletes: JSON.parse(row.deletes)
+  }
+}
+
+// Blink database tables, one per kind of row
+export function createBlinkStorage(): BoardStorage {
+  const getUserId = async () => (await blink.auth.me()).id
+
+  return {
+    getUserId,
+
+    async listSessions(userId) {
+      const rows = await sessions().list({
+        where: { userId },
+        orderBy: { updatedAt: 'desc' }
+      })
+      return rows.map(toSession)
+    },
+
+    async getSession(id) {
+      const rows = await sessions().list({ where: { id }, limit: 1 })
+      return rows[0] ? toSession(rows[0]) : null
+    },
+
+    async createSession(session) {
+      await sessions().create(session)
+    },
+
+    async updateSession(id, changes) {
+      await sessions().update(id, changes)
+    },
+
+    async deleteSession(id) {
+      await elements().deleteMany({ where: { sessionId: id } })
+      await snapshots().deleteMany({ where: { sessionId: id } })
+      await operations().deleteMany({ where: { sessionId: id } })
+      await sessions().delete(id)
+    },
+
+    async listElements(sessionId) {
+      const rows = await elements().list({
+        where: { sessionId },
+        orderBy: { createdAt: 'asc' }
+      })
+      return rows.map(row => ({ id: row.id.slice(sessionId.length + 1), data: row.elementData }))
+    },
+
+    async writeElements(sessionId, { upserts, deletes }) {
+      if (upserts.length > 0) {
+        const userId = await getUserId()
+        await elements().upsertMany(upserts.map(element => ({
+          id: rowId(sessionId, element.id),
+          sessionId,
+          elementData: element.data,
+          userId
+        })))
+      }
+
+      if (deletes.length > 0) {
+        await elements().deleteMany({
+          where: { id: { in: deletes.map(id => rowId(sessionId, id)) } }
+        })
+      }
+    },
+
+    async listSnapshots(sessionId) {
+      const rows = await snapshots().list({
+        where: { sessionId },
+        orderBy: { createdAt: 'desc' }
+      })
+      return rows.map(toSnapshot)
+    },
+
+    async createSnapshot(snapshot) {
+      await snapshots().create({
+        id: snapshot.id,
+        sessionId: snapshot.sessionId,
+        userId: snapshot.userId,
+        authorName: snapshot.authorName,
+        label: snapshot.label,
+        elementData: JSON.stringify(snapshot.elements),
+        createdAt: snapshot.createdAt
+      })
+    },
+
+    async deleteSnapshot(id) {
+      await snapshots().delete(id)
+    },
+
+    async listOperations(sessionId) {
+      const rows = await operations().list({
+        where: { sessionId },
+        orderBy: { createdAt: 'asc' }
+      })
+      return rows.map(toOperation)
+    },
+
+    async appendOperation(operation) {
+      await operations().upsert({
+        id: operation.id,
+        sessionId: operation.sessionId,
+        userId: operation.userId,
+        upserts: JSON.stringify(operation.upserts),
+        deletes: JSON.stringify(operation.deletes),
+        createdAt: operation.createdAt
+      })
+    }
+  }
+}
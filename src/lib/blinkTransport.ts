@@ -0,0 +1,68 @@
+import type { RealtimeChannel } from '@blinkdotnew/sdk'
+import { blink } from '../blink/client'
+import type { CollaborationTransport, TransportMessage, TransportPeer } from './collaborationTransport'
+
+// Blink doesn't report dropped connections, and doesn't resubscribe after
+// one either, so the channel is checked on this interval
+const CONNECTION_CHECK_INTERVAL = 2000
+
+// Blink's hosted realtime channels
+export function createBlinkTransport(): CollaborationTransport {
+  let channel: RealtimeChannel | null = null
+  let self: TransportPeer | null = null
+  let connectionCheck: ReturnType<typeof setInterval> | undefined
+  const unsubscribers: (() => void)[] = []
+  const disconnectListeners = new Set<() => void>()
+
+  const getChannel = () => {
+    if (!channel) throw new Error('Join a channel first')
+    return channel
+  }
+
+  return {
+    async join(name, peer) {
+      channel = blink.realtime.channel(name)
+      self = peer
+      await channel.subscribe({ userId: peer.userId, metadata: peer.metadata })
+
+      const joined = channel
+      connectionCheck = setInterval(() => {
+        if (joined.isReady()) return
+        clearInterval(connectionCheck)
+        disconnectListeners.forEach(listener => listener())
+      }, CONNECTION_CHECK_INTERVAL)
+    },
+
+    async leave() {
+      clearInterval(connectionCheck)
+      disconnectListeners.clear()
+      unsubscribers.splice(0).forEach(unsubscribe => unsubscribe())
+      await channel?.unsubscribe()
+    },
+
+    async publish(type, data) {
+      await getChannel().publish(type, data, { userId: self?.userId, metadata: self?.metadata })
+    },
+
+    onMessage(listener) {
+      const unsubscribe = getChannel().onMessage(message => listener(message as TransportMessage))
+      unsubscribers.push(unsubscribe)
+      return unsubscribe
+    },
+
+    onPresence(listener) {
+      const unsubscribe = getChannel().onPresence(users => {
+        listener(users.map(user => ({ userId: user.userId, metadata: user.metadata })))
+      })
+      unsubscribers.push(unsubscribe)
+      return unsubscribe
+    },
+
+    onDisconnect(listener) {
+      disconnectListeners.add(listener)
+      return () => {
+        disconnectListeners.delete(listener)
+      }
+    }
+  }
+}
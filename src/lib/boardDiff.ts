@@ -0,0 +1,46 @@
+import type { WhiteboardElement } from '../types/whiteboard'
+import { serializeElement } from './elementSchema'
+
+export type ElementChange = 'added' | 'removed' | 'changed'
+
+// How each element differs between two versions of a board. Unchanged
+// elements are left out, as are differences in selection.
+export function diffBoards(before: WhiteboardElement[], after: WhiteboardElement[]): Map<string, ElementChange> {
+  const changes = new Map<string, ElementChange>()
+  const previous = new Map(before.map(el => [el.id, serializeElement(el)]))
+  const current = new Set(after.map(el => el.id))
+
+  after.forEach(el => {
+    const serialized = previous.get(el.id)
+    if (serialized === undefined) {
+      changes.set(el.id, 'added')
+    } else if (serialized !== serializeElement(el)) {
+      changes.set(el.id, 'changed')
+    }
+  })
+  before.forEach(el => {
+    if (!current.has(el.id)) changes.set(el.id, 'removed')
+  })
+  return changes
+}
+
+// `after` plus the elements it no longer has, so removals can be shown too.
+// Removed elements go where they were drawn in `before`.
+export function withRemovedElements(before: WhiteboardElement[], after: WhiteboardElement[]): WhiteboardElement[] {
+  const positions = new Map(after.map((el, index) => [el.id, index]))
+  const result: WhiteboardElement[] = []
+  let next = 0
+
+  before.forEach(el => {
+    const index = positions.get(el.id)
+    if (index === undefined) {
+      result.push(el)
+    } else if (index >= next) {
+      // Catch up on everything in `after` up to this kept element
+      result.push(...after.slice(next, index + 1))
+      next = index + 1
+    }
+  })
+  result.push(...after.slice(next))
+  return result
+}
@@ -0,0 +1,482 @@
+import type { WhiteboardElement } from '../types/whiteboard'
+import { indexesBetween, isValidIndex } from './fractionalIndex'
+import {
+  type ElementDelta,
+  type ElementOperation,
+  type ElementProperties,
+  type ElementProperty,
+  type LogicalClock,
+  type Register,
+  type Stamp,
+  type VersionVector,
+  compareStamps
+} from './operations'
+
+interface ElementRecord {
+  id: string
+  // Set by adds and cleared by deletes, so a delete leaves a tombstone that
+  // outranks older operations. Null until the element's add arrives.
+  exists: Register<boolean> | null
+  // Stamp of the newest add. An add clears every property it doesn't
+  // mention, including ones whose older writes only arrive after it.
+  added: Stamp | null
+  // One register per property, so concurrent edits to different properties
+  // of one element both survive
+  properties: Map<ElementProperty, Register<unknown>>
+  // Each user's own editor state, never replicated
+  selected: boolean
+  // The element built from the registers, until one of them changes
+  element: WhiteboardElement | null
+}
+
+// Replicated state of one board: a map of element id to property registers.
+// Every client that applies the same operations, in any order, ends up with
+// the same elements in the same drawing order.
+export interface BoardDocument {
+  // Visible elements in drawing order. The same array comes back until the
+  // board changes, and unchanged elements keep their identity.
+  getElements(): WhiteboardElement[]
+  // Merges the stored elements a board opens with, which are listed in
+  // drawing order. Like mergeStored it leaves alone whatever operations
+  // arrived before loading finished. Elements without a valid position get
+  // one from that order.
+  load(elements: WhiteboardElement[]): void
+  // Applies operations from any client; returns whether the board changed
+  apply(operations: ElementOperation[]): boolean
+  // Makes the board look like `next`, returning the operations that did it.
+  // Selection is taken from `next` but never produces operations.
+  change(next: WhiteboardElement[]): ElementOperation[]
+  // Newest clock issued or seen from each client, this one included
+  getVersion(): VersionVector
+  // Every register written after `version`, for a client that missed them
+  getChangesSince(version: VersionVector): ElementDelta[]
+  // Merges registers from getChangesSince on another client; returns
+  // whether the board changed
+  merge(delta: ElementDelta[]): boolean
+  // Merges a stored copy of the board. Stored elements carry no stamps, so
+  // they only replace what is still as loaded: anything changed since, here
+  // or by others, is newer. Returns whether the board changed.
+  mergeStored(elements: WhiteboardElement[]): boolean
+}
+
+// Stamp of whatever was loaded from storage: any operation outranks it
+const LOADED: Stamp = { clock: 0, clientId: '' }
+
+// Drawing order: position first, then id to settle elements that two
+// clients happened to give the same position
+function compareElements(a: WhiteboardElement, b: WhiteboardElement) {
+  const positionA = a.position ?? ''
+  const positionB = b.position ?? ''
+  if (positionA !== positionB) return positionA < positionB ? -1 : 1
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+}
+
+// Stored elements in drawing order. Ones saved before positions existed sort
+// first, in the order they were stored.
+export function sortByPosition(elements: WhiteboardElement[]): WhiteboardElement[] {
+  return [...elements].sort(compareElements)
+}
+
+// Nested values such as points are replaced rather than mutated, so most
+// comparisons end at the identity check
+export function sameValue(a: unknown, b: unknown) {
+  if (a === b) return true
+  return typeof a === 'object' && typeof b === 'object' && a !== null && b !== null &&
+    JSON.stringify(a) === JSON.stringify(b)
+}
+
+function toProperties(element: WhiteboardElement) {
+  const { id: _id, selected: _selected, ...properties } = element
+  return Object.entries(properties).filter(([, value]) => value !== undefined) as [ElementProperty, unknown][]
+}
+
+// Properties that differ between two versions of an element, or null if none do
+function diffProperties(before: WhiteboardElement, after: WhiteboardElement) {
+  const properties: Record<string, unknown> = {}
+  const unset: ElementProperty[] = []
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof WhiteboardElement>
+
+  keys.forEach(key => {
+    if (key === 'id' || key === 'selected' || sameValue(before[key], after[key])) return
+    if (after[key] === undefined) {
+      unset.push(key)
+    } else {
+      properties[key] = after[key]
+    }
+  })
+
+  return Object.keys(properties).length > 0 || unset.length > 0
+    ? { properties: properties as ElementProperties, unset }
+    : null
+}
+
+// Indexes into `keys` of a longest strictly increasing run
+function longestIncreasing(keys: string[]): Set<number> {
+  // tails[k] is the index of the smallest key ending a run of length k + 1
+  const tails: number[] = []
+  const previous: number[] = []
+
+  keys.forEach((key, index) => {
+    let low = 0
+    let high = tails.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (keys[tails[middle]] < key) {
+        low = middle + 1
+      } else {
+        high = middle
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1
+    tails[low] = index
+  })
+
+  const run = new Set<number>()
+  for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index >= 0; index = previous[index]) {
+    run.add(index)
+  }
+  return run
+}
+
+// Positions that put `ids` in order. Elements in `current`, keyed by id, keep
+// theirs where the most of them already are in order; the rest get new ones
+// between their neighbours.
+function assignPositions(ids: string[], current: Map<string, string>): Map<string, string> {
+  const kept = ids.filter(id => current.has(id))
+  const keys = kept.map(id => current.get(id)!)
+  // Usually nothing moved, and the search can be skipped
+  const inOrder = keys.every((key, index) => index === 0 || keys[index - 1] < key)
+  const stays = new Set(inOrder ? kept : Array.from(longestIncreasing(keys), index => kept[index]))
+  const positions = new Map<string, string>()
+
+  let lower: string | null = null
+  const fits = (id: string) => stays.has(id) && (lower === null || current.get(id)! > lower)
+
+  let index = 0
+  while (index < ids.length) {
+    if (fits(ids[index])) {
+      lower = current.get(ids[index])!
+      positions.set(ids[index], lower)
+      index++
+      continue
+    }
+
+    // A run of elements that need new positions, up to the next one that stays
+    let end = index
+    while (end < ids.length && !fits(ids[end])) end++
+    const upper = end < ids.length ? current.get(ids[end])! : null
+    indexesBetween(lower, upper, end - index).forEach((position, offset) => {
+      positions.set(ids[index + offset], position)
+      lower = position
+    })
+    index = end
+  }
+  return positions
+}
+
+function isNewer(stamp: Stamp, register: Register<unknown> | null | undefined) {
+  return !register || compareStamps(stamp, register.stamp) > 0
+}
+
+// Registers nobody has written to since loading
+function isUntouched(register: Register<unknown> | null | undefined) {
+  return !register || register.stamp.clock === LOADED.clock
+}
+
+export function createBoardDocument(clock: LogicalClock): BoardDocument {
+  const records = new Map<string, ElementRecord>()
+  // Visible ids in drawing order, until an element appears, disappears or moves
+  let order: string[] | null = null
+  let elements: WhiteboardElement[] | null = null
+  const version: VersionVector = {}
+
+  // Notes a stamp issued here or seen from another client
+  const observe = ({ clock: time, clientId }: Stamp) => {
+    clock.observe(time)
+    if (time > (version[clientId] ?? 0)) version[clientId] = time
+  }
+
+  // Stored registers carry the LOADED stamp, which every client has
+  const isMissing = (stamp: Stamp, since: VersionVector) => stamp.clock > (since[stamp.clientId] ?? 0)
+
+  const getRecord = (id: string) => {
+    let record = records.get(id)
+    if (!record) {
+      record = { id, exists: null, added: null, properties: new Map(), selected: false, element: null }
+      records.set(id, record)
+    }
+    return record
+  }
+
+  const isVisible = (record: ElementRecord) => !!record.exists?.value
+
+  const build = (record: ElementRecord): WhiteboardElement => {
+    if (!record.element) {
+      const element: Record<string, unknown> = { id: record.id }
+      record.properties.forEach((register, key) => {
+        if (register.value !== undefined) element[key] = register.value
+      })
+      if (record.selected) element.selected = true
+      record.element = element as unknown as WhiteboardElement
+    }
+    return record.element
+  }
+
+  // Writes a register if `stamp` outranks it; returns whether it did
+  const setProperty = (record: ElementRecord, key: ElementProperty, value: unknown, stamp: Stamp) => {
+    // Writes from before the newest add lose to it
+    const existing = record.properties.get(key)
+    const register = record.added && (!existing || compareStamps(existing.stamp, record.added) < 0)
+      ? { value: undefined, stamp: record.added }
+      : existing
+    if (!isNewer(stamp, register)) return false
+    record.properties.set(key, { value, stamp })
+    record.element = null
+    if (key === 'position') order = null
+    return true
+  }
+
+  // Clears properties written before an add it didn't mention
+  const setAdded = (record: ElementRecord, stamp: Stamp) => {
+    if (!isNewer(stamp, record.added && { value: undefined, stamp: record.added })) return false
+    record.added = stamp
+    let changed = false
+    record.properties.forEach((register, key) => {
+      if (register.value === undefined || compareStamps(register.stamp, stamp) >= 0) return
+      record.properties.set(key, { value: undefined, stamp })
+      record.element = null
+      if (key === 'position') order = null
+      changed = true
+    })
+    return changed
+  }
+
+  const setExists = (record: ElementRecord, value: boolean, stamp: Stamp) => {
+    if (!isNewer(stamp, record.exists)) return false
+    const wasVisible = isVisible(record)
+    record.exists = { value, stamp }
+    if (wasVisible !== value) order = null
+    return true
+  }
+
+  // Applies one operation; returns whether the visible board changed
+  const applyOne = (operation: ElementOperation) => {
+    const record = getRecord(operation.id)
+    const stamp: Stamp = { clock: operation.clock, clientId: operation.clientId }
+    observe(stamp)
+    let changed = false
+
+    switch (operation.type) {
+      case 'add': {
+        changed = setExists(record, true, stamp)
+        toProperties(operation.element).forEach(([key, value]) => {
+          if (setProperty(record, key, value, stamp)) changed = true
+        })
+        // Adding an element again, e.g. undoing its delete, clears whatever
+        // it had that this version doesn't
+        if (setAdded(record, stamp)) changed = true
+        break
+      }
+
+      case 'update':
+        Object.entries(operation.properties).forEach(([key, value]) => {
+          if (setProperty(record, key as ElementProperty, value, stamp)) changed = true
+        })
+        operation.unset.forEach(key => {
+          if (setProperty(record, key, undefined, stamp)) changed = true
+        })
+        break
+
+      case 'delete':
+        changed = setExists(record, false, stamp)
+        break
+    }
+
+    // Registers of hidden elements change nothing on screen
+    return changed && (isVisible(record) || operation.type === 'delete')
+  }
+
+  // Writes stored elements into registers no operation has touched; returns
+  // whether the board changed
+  const mergeStoredElements = (stored: WhiteboardElement[]) => {
+    const storedIds = new Set(stored.map(element => element.id))
+    let changed = false
+
+    stored.forEach(element => {
+      const record = getRecord(element.id)
+      if (isUntouched(record.exists) && !isVisible(record)) {
+        record.exists = { value: true, stamp: LOADED }
+        order = null
+        changed = true
+      }
+
+      // An add outranks everything stored, including properties it left out
+      if (record.added) return
+
+      const properties = new Map(toProperties(element))
+      record.properties.forEach((_register, key) => {
+        if (!properties.has(key)) properties.set(key, undefined)
+      })
+      properties.forEach((value, key) => {
+        // Keep the position given on loading to elements stored without one
+        if (key === 'position' && !isValidIndex(value)) return
+        const register = record.properties.get(key)
+        if (!isUntouched(register) || sameValue(register?.value, value)) return
+        record.properties.set(key, { value, stamp: LOADED })
+        record.element = null
+        if (key === 'position') order = null
+        changed = true
+      })
+    })
+
+    // Deleted from storage by someone this client never heard from
+    records.forEach(record => {
+      if (storedIds.has(record.id) || !isVisible(record) || !isUntouched(record.exists)) return
+      record.exists = { value: false, stamp: LOADED }
+      order = null
+      changed = true
+    })
+
+    return changed
+  }
+
+  const getElements = () => {
+    if (!elements) {
+      if (!order) {
+        order = Array.from(records.values())
+          .filter(isVisible)
+          .map(build)
+          .sort(compareElements)
+          .map(element => element.id)
+      }
+      elements = order.map(id => build(records.get(id)!))
+    }
+    return elements
+  }
+
+  return {
+    getElements,
+
+    load(loaded) {
+      const current = new Map(loaded
+        .filter(element => isValidIndex(element.position))
+        .map(element => [element.id, element.position!]))
+      const positions = assignPositions(loaded.map(element => element.id), current)
+
+      if (mergeStoredElements(loaded.map(element => ({ ...element, position: positions.get(element.id) })))) {
+        elements = null
+      }
+      loaded.forEach(element => {
+        const record = records.get(element.id)!
+        if (record.selected === !!element.selected) return
+        record.selected = !!element.selected
+        record.element = null
+        elements = null
+      })
+    },
+
+    apply(operations) {
+      let changed = false
+      operations.forEach(operation => {
+        if (applyOne(operation)) changed = true
+      })
+      if (changed) elements = null
+      return changed
+    },
+
+    getVersion() {
+      return { ...version }
+    },
+
+    getChangesSince(since) {
+      const delta: ElementDelta[] = []
+      records.forEach(record => {
+        const properties: ElementDelta['properties'] = []
+        record.properties.forEach((register, key) => {
+          if (isMissing(register.stamp, since)) properties.push({ key, ...register })
+        })
+        const exists = record.exists && isMissing(record.exists.stamp, since) ? record.exists : undefined
+        const added = record.added && isMissing(record.added, since) ? record.added : undefined
+        if (exists || added || properties.length > 0) delta.push({ id: record.id, exists, added, properties })
+      })
+      return delta
+    },
+
+    merge(delta) {
+      let changed = false
+      delta.forEach(({ id, exists, added, properties }) => {
+        const record = getRecord(id)
+        let recordChanged = false
+        const wasVisible = isVisible(record)
+        if (exists) {
+          observe(exists.stamp)
+          if (setExists(record, exists.value, exists.stamp)) recordChanged = true
+        }
+        properties.forEach(({ key, value, stamp }) => {
+          observe(stamp)
+          if (setProperty(record, key, value, stamp)) recordChanged = true
+        })
+        if (added) {
+          observe(added)
+          if (setAdded(record, added)) recordChanged = true
+        }
+        if (recordChanged && (wasVisible || isVisible(record))) changed = true
+      })
+      if (changed) elements = null
+      return changed
+    },
+
+    mergeStored(stored) {
+      const changed = mergeStoredElements(stored)
+      if (changed) elements = null
+      return changed
+    },
+
+    change(next) {
+      const before = getElements()
+      const nextIds = new Set(next.map(element => element.id))
+      const operations: ElementOperation[] = []
+
+      before.forEach(element => {
+        if (!nextIds.has(element.id)) {
+          operations.push({ type: 'delete', id: element.id, ...clock.tick() })
+        }
+      })
+
+      const current = new Map(before.map(element => [element.id, element.position!]))
+      const positions = assignPositions(next.map(element => element.id), current)
+
+      next.forEach(element => {
+        const position = positions.get(element.id)
+        const record = records.get(element.id)
+        // Elements passed back untouched need no comparing
+        if (record?.element === element && element.position === position) return
+
+        const target = { ...element, position }
+        if (!record || !isVisible(record)) {
+          const { selected: _selected, ...added } = target
+          operations.push({ type: 'add', id: element.id, element: added, ...clock.tick() })
+        } else {
+          const changes = diffProperties(build(record), target)
+          if (changes) {
+            operations.push({ type: 'update', id: element.id, ...changes, ...clock.tick() })
+          }
+        }
+      })
+
+      operations.forEach(applyOne)
+
+      let changed = operations.length > 0
+      next.forEach(element => {
+        const record = records.get(element.id)!
+        if (record.selected !== !!element.selected) {
+          record.selected = !!element.selected
+          record.element = null
+          changed = true
+        }
+      })
+      if (changed) elements = null
+      return operations
+    }
+  }
+}
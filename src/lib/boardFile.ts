@@ -0,0 +1,266 @@
+import type { Comment, ViewportState, WhiteboardElement } from '../types/whiteboard'
+import { CommentSchema, ELEMENT_SCHEMA_VERSION, parseElement } from './elementSchema'
+
+// A whole board as one portable `.board.json` file, for backups and for
+// moving boards between accounts. Version 1 looks like:
+//
+// {
+//   "format": "whiteboard-board",
+//   "version": 1,
+//   "board": { "name": "Roadmap", "exportedAt": "2026-01-01T00:00:00.000Z", "createdAt": "…", "updatedAt": "…" },
+//   "viewport": { "x": 0, "y": 0, "zoom": 1 },
+//   "elementSchemaVersion": 2,
+//   "elements": [ …WhiteboardElement in drawing order, rich notes without their comments… ],
+//   "comments": { "<rich note element id>": [ …Comment… ] },
+//   "assets": { "<asset id>": { "mimeType": "image/png", "data": "<base64>" } }
+// }
+//
+// Elements follow the same versioned schema as the database, so files from
+// older builds are migrated on import. Images pasted into rich notes are
+// embedded in `assets` and referenced from the note HTML as
+// `src="asset:<asset id>"`, so the file opens anywhere. Images that cannot
+// be fetched keep their original URL.
+
+export const BOARD_FILE_FORMAT = 'whiteboard-board'
+export const BOARD_FILE_VERSION = 1
+export const BOARD_FILE_EXTENSION = '.board.json'
+
+export interface BoardFileMetadata {
+  name: string
+  exportedAt: string
+  createdAt?: string
+  updatedAt?: string
+}
+
+export interface BoardFileAsset {
+  mimeType: string
+  // Base64 without a data URL prefix
+  data: string
+}
+
+export interface BoardFile {
+  format: typeof BOARD_FILE_FORMAT
+  version: number
+  board: BoardFileMetadata
+  viewport: ViewportState
+  // Schema version of `elements`; see elementSchema
+  elementSchemaVersion: number
+  elements: WhiteboardElement[]
+  comments: Record<string, Comment[]>
+  assets: Record<string, BoardFileAsset>
+}
+
+// What an imported file puts back on the canvas
+export interface ImportedBoard {
+  name: string
+  elements: WhiteboardElement[]
+  viewport: ViewportState
+}
+
+const ASSET_PREFIX = 'asset:'
+
+// `src` attributes of images in rich note HTML
+const IMAGE_SRC_PATTERN = /(<img\b[^>]*?\bsrc\s*=\s*)(["'])(.*?)\2/gi
+
+export function getBoardFilename(name: string) {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+  return `${slug || 'whiteboard'}${BOARD_FILE_EXTENSION}`
+}
+
+// Whether a dropped or picked file looks like a board file
+export function isBoardFile(file: File) {
+  return file.name.toLowerCase().endsWith('.json') || file.type === 'application/json'
+}
+
+function replaceImageSources(html: string, replace: (src: string) => string) {
+  return html.replace(IMAGE_SRC_PATTERN, (_, start: string, quote: string, src: string) =>
+    `${start}${quote}${replace(src)}${quote}`
+  )
+}
+
+function bytesToBase64(bytes: Uint8Array) {
+  let binary = ''
+  // Chunked so large images stay within the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+async function fetchAsset(src: string): Promise<BoardFileAsset | null> {
+  const dataUrl = src.match(/^data:([^;,]+);base64,(.*)$/)
+  if (dataUrl) {
+    return { mimeType: dataUrl[1], data: dataUrl[2] }
+  }
+
+  try {
+    const response = await fetch(src)
+    if (!response.ok) return null
+    const blob = await response.blob()
+    return {
+      mimeType: blob.type || 'application/octet-stream',
+      data: bytesToBase64(new Uint8Array(await blob.arrayBuffer()))
+    }
+  } catch (error) {
+    // Typically a cross-origin image; the note keeps linking to it
+    console.warn('Could not embed image in board file:', src, error)
+    return null
+  }
+}
+
+// Snapshot of a board, with rich note images embedded
+export async function createBoardFile(
+  elements: WhiteboardElement[],
+  viewport: ViewportState,
+  metadata: Omit<BoardFileMetadata, 'exportedAt'>
+): Promise<BoardFile> {
+  const assets: Record<string, BoardFileAsset> = {}
+  const assetIds = new Map<string, string | null>()
+
+  // Fetch every distinct image once
+  const sources = new Set<string>()
+  elements.forEach(el => {
+    for (const match of el.richNote?.content.matchAll(IMAGE_SRC_PATTERN) ?? []) {
+      sources.add(match[3])
+    }
+  })
+  await Promise.all(Array.from(sources, async (src, index) => {
+    const asset = await fetchAsset(src)
+    const id = asset ? `image-${index + 1}` : null
+    if (id && asset) {
+      assets[id] = asset
+    }
+    assetIds.set(src, id)
+  }))
+
+  const comments: Record<string, Comment[]> = {}
+  const fileElements = elements.map(el => {
+    const { selected: _selected, ...element } = el
+    if (!element.richNote) return element
+
+    const { comments: noteComments, ...note } = element.richNote
+    if (noteComments.length > 0) {
+      comments[element.id] = noteComments
+    }
+    const content = replaceImageSources(note.content, src => {
+      const id = assetIds.get(src)
+      return id ? `${ASSET_PREFIX}${id}` : src
+    })
+    return { ...element, richNote: { ...note, content, comments: [] } }
+  })
+
+  return {
+    format: BOARD_FILE_FORMAT,
+    version: BOARD_FILE_VERSION,
+    board: { ...metadata, exportedAt: new Date().toISOString() },
+    viewport,
+    elementSchemaVersion: ELEMENT_SCHEMA_VERSION,
+    elements: fileElements,
+    comments,
+    assets
+  }
+}
+
+export function serializeBoardFile(file: BoardFile) {
+  return JSON.stringify(file, null, 2)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+// Parses and checks a board file, throwing an Error whose message says what
+// is wrong in terms the person importing it can act on
+export function parseBoardFile(text: string): BoardFile {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON.')
+  }
+
+  if (!isRecord(data) || data.format !== BOARD_FILE_FORMAT) {
+    throw new Error('The file is not a whiteboard board file.')
+  }
+  if (!Number.isInteger(data.version) || (data.version as number) < 1) {
+    throw new Error('The file has no valid format version.')
+  }
+  if ((data.version as number) > BOARD_FILE_VERSION) {
+    throw new Error(`The file was saved by a newer version of the app (format ${data.version}).`)
+  }
+
+  const { board, viewport, elements, comments = {}, assets = {} } = data
+  if (!isRecord(board) || typeof board.name !== 'string') {
+    throw new Error('The board details are missing or invalid.')
+  }
+  if (!isRecord(viewport) || !isFiniteNumber(viewport.x) || !isFiniteNumber(viewport.y) ||
+    !isFiniteNumber(viewport.zoom) || viewport.zoom <= 0) {
+    throw new Error('The viewport is missing or invalid.')
+  }
+  if (!Array.isArray(elements)) {
+    throw new Error('The file has no element list.')
+  }
+
+  const elementVersion = isFiniteNumber(data.elementSchemaVersion) ? data.elementSchemaVersion : undefined
+  const ids = new Set<string>()
+  const parsedElements = elements.map((element, index) => {
+    const result = parseElement(element, elementVersion)
+    if (!result.success) {
+      throw new Error(`Element ${index + 1} is invalid (${result.error}).`)
+    }
+    if (ids.has(result.element.id)) {
+      throw new Error(`Element ${index + 1} reuses the id "${result.element.id}".`)
+    }
+    ids.add(result.element.id)
+    return result.element
+  })
+
+  if (!isRecord(comments) || !Object.values(comments).every(thread =>
+    Array.isArray(thread) && thread.every(comment => CommentSchema.safeParse(comment).success)
+  )) {
+    throw new Error('The rich note comments are invalid.')
+  }
+  if (!isRecord(assets) || !Object.values(assets).every(asset =>
+    isRecord(asset) && typeof asset.mimeType === 'string' && typeof asset.data === 'string'
+  )) {
+    throw new Error('The embedded assets are invalid.')
+  }
+
+  return {
+    ...(data as unknown as BoardFile),
+    elementSchemaVersion: ELEMENT_SCHEMA_VERSION,
+    elements: parsedElements
+  }
+}
+
+// Elements as the board uses them: comments back on their notes and asset
+// references turned into data URLs
+export function restoreBoardFile(file: BoardFile): ImportedBoard {
+  const elements = file.elements.map(element => {
+    if (!element.richNote) return element
+
+    const content = replaceImageSources(element.richNote.content, src => {
+      if (!src.startsWith(ASSET_PREFIX)) return src
+      const asset = file.assets[src.slice(ASSET_PREFIX.length)]
+      if (!asset) {
+        throw new Error(`A rich note refers to a missing image "${src}".`)
+      }
+      return `data:${asset.mimeType};base64,${asset.data}`
+    })
+
+    return {
+      ...element,
+      richNote: { ...element.richNote, content, comments: file.comments[element.id] ?? [] }
+    }
+  })
+
+  return { name: file.board.name, elements, viewport: file.viewport }
+}
+
+export async function readBoardFile(file: File): Promise<ImportedBoard> {
+  return restoreBoardFile(parseBoardFile(await file.text()))
+}
@@ -0,0 +1,92 @@
+import { createBlinkStorage } from './blinkStorage'
+import { createIndexedDbStorage } from './indexedDbStorage'
+import { createMemoryStorage } from './memoryStorage'
+
+export interface BoardSession {
+  id: string
+  name: string
+  createdAt: string
+  updatedAt: string
+  userId: string
+}
+
+// An element as stored: its id and serialized data (see elementSchema)
+export interface StoredElement {
+  id: string
+  data: string
+}
+
+export interface StoredElementChanges {
+  upserts: StoredElement[]
+  deletes: string[]
+}
+
+// A saved copy of a whole board at one point in time
+export interface BoardSnapshot {
+  id: string
+  sessionId: string
+  createdAt: string
+  userId: string
+  // Shown as the author, since other users' profiles are not available
+  authorName?: string
+  // Set for snapshots the user named; automatic ones have none
+  label?: string
+  // Serialized elements in drawing order
+  elements: string[]
+}
+
+// One save of a board's elements, kept in order to replay how it evolved
+export interface BoardOperation {
+  id: string
+  sessionId: string
+  createdAt: string
+  userId: string
+  upserts: StoredElement[]
+  deletes: string[]
+}
+
+// Everything the app persists. Adapters store data as given; serializing
+// and validating elements is up to the caller.
+export interface BoardStorage {
+  // Owner of new sessions and rows
+  getUserId(): Promise<string>
+
+  listSessions(userId: string): Promise<BoardSession[]>
+  getSession(id: string): Promise<BoardSession | null>
+  createSession(session: BoardSession): Promise<void>
+  updateSession(id: string, changes: Partial<Pick<BoardSession, 'name' | 'updatedAt'>>): Promise<void>
+  // Also removes the session's elements, snapshots and operations
+  deleteSession(id: string): Promise<void>
+
+  // In drawing order: elements keep their position when updated, new ones go last
+  listElements(sessionId: string): Promise<StoredElement[]>
+  writeElements(sessionId: string, changes: StoredElementChanges): Promise<void>
+
+  // Newest first
+  listSnapshots(sessionId: string): Promise<BoardSnapshot[]>
+  createSnapshot(snapshot: BoardSnapshot): Promise<void>
+  deleteSnapshot(id: string): Promise<void>
+
+  // Oldest first
+  listOperations(sessionId: string): Promise<BoardOperation[]>
+  // Appending an id again replaces it, so a resent entry is stored once
+  appendOperation(operation: BoardOperation): Promise<void>
+}
+
+function createBoardStorage(kind: string): BoardStorage {
+  switch (kind) {
+    case 'indexeddb':
+      return createIndexedDbStorage()
+    case 'memory':
+      return createMemoryStorage()
+    case 'blink':
+      return createBlinkStorage()
+    default:
+      console.warn(`Unknown VITE_BOARD_STORAGE "${kind}", using blink`)
+      return createBlinkStorage()
+  }
+}
+
+// Set VITE_BOARD_STORAGE to 'indexeddb' or 'memory' to work without the
+// Blink backend, e.g. for local development
+export const boardStorage: BoardStorage = createBoardStorage(import.meta.env.VITE_BOARD_STORAGE ?? 'blink')
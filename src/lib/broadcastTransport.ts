@@ -0,0 +1,132 @@
+import type { CollaborationTransport, TransportMessage, TransportPeer } from './collaborationTransport'
+
+// What tabs send each other. Presence is kept by every tab for itself: tabs
+// say hello when they join, answer hellos, and check in now and then.
+type Envelope =
+  | { kind: 'hello' | 'here' | 'heartbeat'; tabId: string; peer: TransportPeer }
+  | { kind: 'bye'; tabId: string }
+  | { kind: 'message'; tabId: string; message: TransportMessage }
+
+const HEARTBEAT_INTERVAL = 5000
+// Tabs not heard from for this long are taken to be gone, e.g. after a crash
+const PEER_TIMEOUT = 15000
+
+// Syncs tabs of this browser through a BroadcastChannel, with no server at
+// all; for local development and trying collaboration out on one machine
+export function createBroadcastTransport(): CollaborationTransport {
+  const tabId = `tab_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  let channel: BroadcastChannel | null = null
+  let self: TransportPeer | null = null
+  let heartbeat: ReturnType<typeof setInterval> | undefined
+  // Other tabs on the channel, and when each was last heard from
+  const tabs = new Map<string, { peer: TransportPeer; lastSeen: number }>()
+  const messageListeners = new Set<(message: TransportMessage) => void>()
+  const presenceListeners = new Set<(peers: TransportPeer[]) => void>()
+
+  const post = (envelope: Envelope) => channel?.postMessage(envelope)
+
+  // One entry per user, however many tabs they have open
+  const getPeers = () => {
+    const peers = new Map<string, TransportPeer>()
+    if (self) peers.set(self.userId, self)
+    tabs.forEach(({ peer }) => {
+      if (!peers.has(peer.userId)) peers.set(peer.userId, peer)
+    })
+    return Array.from(peers.values())
+  }
+
+  const notifyPresence = () => {
+    const peers = getPeers()
+    presenceListeners.forEach(listener => listener(peers))
+  }
+
+  const handleEnvelope = (event: MessageEvent<Envelope>) => {
+    const envelope = event.data
+    if (envelope.kind === 'message') {
+      messageListeners.forEach(listener => listener(envelope.message))
+    } else if (envelope.kind === 'bye') {
+      if (tabs.delete(envelope.tabId)) notifyPresence()
+    } else {
+      if (envelope.kind === 'hello' && self) {
+        post({ kind: 'here', tabId, peer: self })
+      }
+      const isNew = !tabs.has(envelope.tabId)
+      tabs.set(envelope.tabId, { peer: envelope.peer, lastSeen: Date.now() })
+      if (isNew) notifyPresence()
+    }
+  }
+
+  const checkIn = () => {
+    if (self) post({ kind: 'heartbeat', tabId, peer: self })
+
+    const cutoff = Date.now() - PEER_TIMEOUT
+    let removed = false
+    tabs.forEach((tab, id) => {
+      if (tab.lastSeen < cutoff) {
+        tabs.delete(id)
+        removed = true
+      }
+    })
+    if (removed) notifyPresence()
+  }
+
+  // Closing the tab skips React cleanup, so say goodbye here too
+  const sayGoodbye = () => {
+    post({ kind: 'bye', tabId })
+  }
+
+  return {
+    async join(name, peer) {
+      if (typeof BroadcastChannel === 'undefined') {
+        throw new Error('This browser cannot share boards between tabs')
+      }
+      self = peer
+      channel = new BroadcastChannel(`whiteboard:${name}`)
+      channel.onmessage = handleEnvelope
+      post({ kind: 'hello', tabId, peer })
+      heartbeat = setInterval(checkIn, HEARTBEAT_INTERVAL)
+      window.addEventListener('pagehide', sayGoodbye)
+    },
+
+    async leave() {
+      sayGoodbye()
+      window.removeEventListener('pagehide', sayGoodbye)
+      clearInterval(heartbeat)
+      channel?.close()
+      channel = null
+      tabs.clear()
+      messageListeners.clear()
+      presenceListeners.clear()
+    },
+
+    async publish(type, data) {
+      if (!channel || !self) throw new Error('Join a channel first')
+      post({
+        kind: 'message',
+        tabId,
+        message: { type, data, userId: self.userId, metadata: self.metadata, timestamp: Date.now() }
+      })
+    },
+
+    onMessage(listener) {
+      messageListeners.add(listener)
+      return () => {
+        messageListeners.delete(listener)
+      }
+    },
+
+    onPresence(listener) {
+      presenceListeners.add(listener)
+      // Tabs that answered the hello before anyone listened
+      if (self) listener(getPeers())
+      return () => {
+        presenceListeners.delete(listener)
+      }
+    },
+
+    // Tabs of one browser can't lose each other
+    onDisconnect() {
+      return () => {}
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import type { Bounds, WhiteboardElement } from '../types/whiteboard'
+import { TEXT_FONT_FAMILY } from './geometry'
+import { renderElements, type PathCommand, type RenderBackend, type ShapeStyle, type TextStyle } from './renderer'
+
+function toFont(style: TextStyle) {
+  return `${style.bold ? 'bold ' : ''}${style.fontSize}px ${TEXT_FONT_FAMILY}`
+}
+
+function tracePath(ctx: CanvasRenderingContext2D, commands: PathCommand[]) {
+  commands.forEach(command => {
+    switch (command.type) {
+      case 'move':
+        ctx.moveTo(command.point.x, command.point.y)
+        break
+      case 'line':
+        ctx.lineTo(command.point.x, command.point.y)
+        break
+      case 'quadratic':
+        ctx.quadraticCurveTo(command.control.x, command.control.y, command.point.x, command.point.y)
+        break
+      case 'close':
+        ctx.closePath()
+        break
+    }
+  })
+}
+
+// Fills, then strokes, the current path
+function paint(ctx: CanvasRenderingContext2D, style: ShapeStyle) {
+  if (style.fill) {
+    ctx.fillStyle = style.fill
+    ctx.fill()
+  }
+
+  if (style.stroke) {
+    ctx.strokeStyle = style.stroke
+    ctx.lineWidth = style.strokeWidth ?? 1
+    ctx.lineCap = 'round'
+    ctx.lineJoin = 'round'
+    ctx.setLineDash(style.dash ?? [])
+    ctx.stroke()
+  }
+}
+
+// Renders onto a 2D context using whatever transform it already has
+export function createCanvasBackend(ctx: CanvasRenderingContext2D): RenderBackend {
+  return {
+    beginGroup(angle, center) {
+      ctx.save()
+      ctx.translate(center.x, center.y)
+      ctx.rotate(angle)
+      ctx.translate(-center.x, -center.y)
+    },
+
+    endGroup() {
+      ctx.restore()
+    },
+
+    path(commands, style) {
+      ctx.beginPath()
+      tracePath(ctx, commands)
+      paint(ctx, style)
+    },
+
+    rect(bounds, style) {
+      ctx.beginPath()
+      ctx.rect(bounds.x, bounds.y, bounds.width, bounds.height)
+      paint(ctx, style)
+    },
+
+    ellipse(center, radiusX, radiusY, style) {
+      ctx.beginPath()
+      ctx.ellipse(center.x, center.y, Math.abs(radiusX), Math.abs(radiusY), 0, 0, 2 * Math.PI)
+      paint(ctx, style)
+    },
+
+    text(text, x, y, style) {
+      ctx.font = toFont(style)
+      ctx.fillStyle = style.color
+      ctx.fillText(text, x, y)
+    },
+
+    measureText(text, style) {
+      ctx.font = toFont(style)
+      return ctx.measureText(text).width
+    }
+  }
+}
+
+export interface RasterOptions {
+  // Board area to capture
+  area: Bounds
+  // Output pixels per board unit
+  scale: number
+  // Omitted for a transparent background
+  background?: string
+  // Drawn after the background, beneath the elements
+  beforeElements?: (backend: RenderBackend) => void
+}
+
+// Renders elements into a fresh canvas, e.g. for image export
+export function renderToCanvas(elements: WhiteboardElement[], options: RasterOptions): HTMLCanvasElement {
+  const { area, scale } = options
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(area.width * scale))
+  canvas.height = Math.max(1, Math.round(area.height * scale))
+  paintCanvas(canvas, elements, options)
+  return canvas
+}
+
+// Clears `canvas` and paints elements over its whole size, e.g. once per
+// frame of a video
+export function paintCanvas(canvas: HTMLCanvasElement, elements: WhiteboardElement[], options: RasterOptions) {
+  const { area, scale, background, beforeElements } = options
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
+  ctx.clearRect(0, 0, canvas.width, canvas.height)
+  if (background) {
+    ctx.fillStyle = background
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+  }
+
+  ctx.setTransform(scale, 0, 0, scale, -area.x * scale, -area.y * scale)
+  const backend = createCanvasBackend(ctx)
+  beforeElements?.(backend)
+  renderElements(backend, elements)
+}
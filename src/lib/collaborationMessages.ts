@@ -0,0 +1,140 @@
+import { z } from 'zod'
+import type { WhiteboardElement } from '../types/whiteboard'
+import type { TransportMessage } from './collaborationTransport'
+import { parseElement } from './elementSchema'
+import { type ElementDelta, type ElementOperation, type VersionVector, parseRemoteDelta, parseRemoteOperations } from './operations'
+
+// What peers say about themselves when joining a board's channel. A field
+// that isn't a string is dropped on its own.
+const PeerMetadataSchema = z.object({
+  displayName: z.string().optional().catch(undefined),
+  email: z.string().optional().catch(undefined),
+  color: z.string().optional().catch(undefined)
+})
+
+export type PeerMetadata = z.infer<typeof PeerMetadataSchema>
+
+// Messages on a board's channel. Every one names its board, so a message
+// that reaches the wrong board is never applied there. Lists of operations
+// and changes may be split over several messages, see splitForPublishing;
+// a resync answer marks its last part as final.
+export type BoardMessage =
+  | { type: 'cursor-move'; boardId: string; x: number; y: number }
+  | { type: 'element-operations'; boardId: string; operations: ElementOperation[] }
+  | { type: 'element-preview'; boardId: string; elements: WhiteboardElement[] }
+  | { type: 'sync-changes'; boardId: string; changes: ElementDelta[] }
+  | { type: 'sync-request'; boardId: string; requestId: string; version: VersionVector }
+  | { type: 'sync-response'; boardId: string; requestId: string; changes: ElementDelta[]; final: boolean }
+
+// The relay in server/relay.js closes connections that send more than 1 MB
+// at once. Lists are split well below that, leaving room for the envelope
+// and for characters that take more than one byte.
+export const MAX_PUBLISH_BYTES = 256 * 1024
+
+const BoardMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('cursor-move'),
+    data: z.object({ boardId: z.string(), x: z.number(), y: z.number() })
+  }),
+  z.object({
+    type: z.literal('element-operations'),
+    data: z.object({ boardId: z.string(), operations: z.unknown(), schemaVersion: z.number().optional() })
+  }),
+  z.object({
+    type: z.literal('element-preview'),
+    data: z.object({ boardId: z.string(), elements: z.unknown(), schemaVersion: z.number().optional() })
+  }),
+  z.object({
+    type: z.literal('sync-changes'),
+    data: z.object({ boardId: z.string(), changes: z.unknown() })
+  }),
+  z.object({
+    type: z.literal('sync-request'),
+    data: z.object({ boardId: z.string(), requestId: z.string(), version: z.record(z.string(), z.number()) })
+  }),
+  z.object({
+    type: z.literal('sync-response'),
+    data: z.object({ boardId: z.string(), requestId: z.string(), changes: z.unknown(), final: z.boolean() })
+  })
+])
+
+const MESSAGE_TYPES = new Set<string>(BoardMessageSchema.options.map(option => option.shape.type.value))
+
+// Elements of a peer's preview. Previews are replaced many times a second,
+// so invalid elements are just not shown rather than logged.
+function parsePreviewElements(elements: unknown, version?: number): WhiteboardElement[] {
+  if (!Array.isArray(elements)) return []
+  return elements.flatMap(data => {
+    const result = parseElement(data, version)
+    return result.success ? [result.element] : []
+  })
+}
+
+// A peer's metadata, or none if it isn't what this client sends
+export function parsePeerMetadata(metadata: unknown): PeerMetadata {
+  const parsed = PeerMetadataSchema.safeParse(metadata ?? {})
+  return parsed.success ? parsed.data : {}
+}
+
+// A message for `boardId`, or null if it is for another board, of a type
+// this client doesn't know, or malformed
+export function parseBoardMessage(message: TransportMessage, boardId: string): BoardMessage | null {
+  if (!MESSAGE_TYPES.has(message.type)) return null
+
+  const parsed = BoardMessageSchema.safeParse(message)
+  if (!parsed.success) {
+    console.error(`Rejected ${message.type} message (${parsed.error.issues[0].message}):`, message.data)
+    return null
+  }
+
+  const { type, data } = parsed.data
+  if (data.boardId !== boardId) return null
+
+  switch (type) {
+    case 'cursor-move':
+      return { type, ...data }
+    case 'element-operations':
+      return { type, boardId, operations: parseRemoteOperations(data.operations, data.schemaVersion) }
+    case 'element-preview':
+      return { type, boardId, elements: parsePreviewElements(data.elements, data.schemaVersion) }
+    case 'sync-changes':
+      return { type, boardId, changes: parseRemoteDelta(data.changes) }
+    case 'sync-request':
+      return { type, boardId, requestId: data.requestId, version: data.version }
+    case 'sync-response':
+      return { type, boardId, requestId: data.requestId, changes: parseRemoteDelta(data.changes), final: data.final }
+  }
+}
+
+const encoder = new TextEncoder()
+
+// Splits a list to publish into parts that each serialize to at most
+// `maxBytes`, keeping the order. There is always at least one part, so an
+// empty list still makes a message. An item too big to send even on its
+// own is logged and left out; storage still has it.
+export function splitForPublishing<T>(items: T[], maxBytes = MAX_PUBLISH_BYTES): T[][] {
+  const parts: T[][] = [[]]
+  // Brackets of the list
+  let size = 2
+
+  items.forEach(item => {
+    const itemSize = encoder.encode(JSON.stringify(item)).length
+    if (itemSize + 2 > maxBytes) {
+      console.error(`Not publishing an item of ${itemSize} bytes, over the ${maxBytes} byte limit`)
+      return
+    }
+
+    let part = parts[parts.length - 1]
+    // Commas between items
+    const added = part.length > 0 ? itemSize + 1 : itemSize
+    if (size + added > maxBytes) {
+      part = []
+      parts.push(part)
+      size = 2 + itemSize
+    } else {
+      size += added
+    }
+    part.push(item)
+  })
+  return parts
+}
@@ -0,0 +1,58 @@
+import { createBlinkTransport } from './blinkTransport'
+import { createBroadcastTransport } from './broadcastTransport'
+import { createWebSocketTransport } from './websocketTransport'
+
+// Who is on a channel, as everyone else there sees them
+export interface TransportPeer {
+  userId: string
+  metadata?: Record<string, unknown>
+}
+
+// Payloads are whatever the sender published, unchecked: parse them before
+// use, e.g. with parseBoardMessage
+export interface TransportMessage {
+  type: string
+  data: unknown
+  // Sender, as it joined
+  userId?: string
+  metadata?: Record<string, unknown>
+  timestamp: number
+}
+
+// A realtime channel shared by everyone on one board. Each instance joins
+// one channel once; join a new instance to switch channels.
+export interface CollaborationTransport {
+  // Resolves once messages can be published
+  join(channel: string, peer: TransportPeer): Promise<void>
+  // Also stops every listener
+  leave(): Promise<void>
+  // Sends to everyone else on the channel. Some transports echo messages
+  // back to the sender, so listeners should expect their own.
+  publish(type: string, data: unknown): Promise<void>
+  onMessage(listener: (message: TransportMessage) => void): () => void
+  // Called with everyone on the channel, this peer included, whenever
+  // someone joins or leaves
+  onPresence(listener: (peers: TransportPeer[]) => void): () => void
+  // Called once if the connection drops after joining. Nothing more arrives
+  // after that; leave this instance and join a new one to reconnect.
+  onDisconnect(listener: () => void): () => void
+}
+
+const DEFAULT_RELAY_URL = 'ws://localhost:8787'
+
+// Set VITE_COLLABORATION_TRANSPORT to 'broadcast' to sync tabs of this
+// browser without any server, or to 'websocket' to go through the relay in
+// server/relay.js (at VITE_COLLABORATION_RELAY_URL, by default on port 8787)
+export function createCollaborationTransport(kind = import.meta.env.VITE_COLLABORATION_TRANSPORT ?? 'blink'): CollaborationTransport {
+  switch (kind) {
+    case 'broadcast':
+      return createBroadcastTransport()
+    case 'websocket':
+      return createWebSocketTransport(import.meta.env.VITE_COLLABORATION_RELAY_URL ?? DEFAULT_RELAY_URL)
+    case 'blink':
+      return createBlinkTransport()
+    default:
+      console.error(`Unknown VITE_COLLABORATION_TRANSPORT "${kind}", using blink`)
+      return createBlinkTransport()
+  }
+}
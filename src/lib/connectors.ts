@@ -0,0 +1,153 @@
+import type { ArrowheadStyle, ConnectorStyle, Point, WhiteboardElement } from '../types/whiteboard'
+
+// Number of segments used to approximate a curved connector for hit-testing and bounds
+const CURVE_SEGMENTS = 24
+
+export const DEFAULT_CONNECTOR_STYLE: ConnectorStyle = {
+  routing: 'straight',
+  startArrowhead: 'none',
+  endArrowhead: 'triangle'
+}
+
+export function isConnector(element: WhiteboardElement) {
+  return element.type === 'line' || element.type === 'arrow'
+}
+
+export function getConnectorEndpoints(element: WhiteboardElement): { start: Point; end: Point } {
+  return {
+    start: { x: element.x, y: element.y },
+    end: { x: element.x + (element.width || 0), y: element.y + (element.height || 0) }
+  }
+}
+
+export function getStartArrowhead(element: WhiteboardElement): ArrowheadStyle {
+  return element.startArrowhead ?? 'none'
+}
+
+export function getEndArrowhead(element: WhiteboardElement): ArrowheadStyle {
+  return element.endArrowhead ?? (element.type === 'arrow' ? 'triangle' : 'none')
+}
+
+// Control point of a curved connector; bows out by a quarter of its length until dragged
+export function getControlPoint(element: WhiteboardElement): Point {
+  const { start, end } = getConnectorEndpoints(element)
+  const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 }
+
+  if (element.controlOffset) {
+    return { x: mid.x + element.controlOffset.x, y: mid.y + element.controlOffset.y }
+  }
+
+  return {
+    x: mid.x - (end.y - start.y) * 0.25,
+    y: mid.y + (end.x - start.x) * 0.25
+  }
+}
+
+export function getControlOffset(element: WhiteboardElement, controlPoint: Point): Point {
+  const { start, end } = getConnectorEndpoints(element)
+  return {
+    x: controlPoint.x - (start.x + end.x) / 2,
+    y: controlPoint.y - (start.y + end.y) / 2
+  }
+}
+
+// Orthogonal route that leaves along the dominant axis and turns twice at the midpoint
+export function getElbowPoints(start: Point, end: Point): Point[] {
+  const dx = end.x - start.x
+  const dy = end.y - start.y
+
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    const midX = start.x + dx / 2
+    return [start, { x: midX, y: start.y }, { x: midX, y: end.y }, end]
+  }
+
+  const midY = start.y + dy / 2
+  return [start, { x: start.x, y: midY }, { x: end.x, y: midY }, end]
+}
+
+function quadraticAt(p0: Point, p1: Point, p2: Point, t: number): Point {
+  const u = 1 - t
+  return {
+    x: u * u * p0.x + 2 * u * t * p1.x + t * t * p2.x,
+    y: u * u * p0.y + 2 * u * t * p1.y + t * t * p2.y
+  }
+}
+
+// Polyline approximation of the rendered route
+export function getConnectorPolyline(element: WhiteboardElement): Point[] {
+  const { start, end } = getConnectorEndpoints(element)
+
+  switch (element.routing) {
+    case 'curved': {
+      const control = getControlPoint(element)
+      const points: Point[] = []
+      for (let i = 0; i <= CURVE_SEGMENTS; i++) {
+        points.push(quadraticAt(start, control, end, i / CURVE_SEGMENTS))
+      }
+      return points
+    }
+
+    case 'elbow':
+      return getElbowPoints(start, end)
+
+    default:
+      return [start, end]
+  }
+}
+
+// Point the arrowhead at `tip` is aimed from, skipping zero-length segments
+function getApproachPoint(route: Point[], tipIndex: number, step: number): Point {
+  const tip = route[tipIndex]
+  for (let i = tipIndex + step; i >= 0 && i < route.length; i += step) {
+    if (route[i].x !== tip.x || route[i].y !== tip.y) return route[i]
+  }
+  return tip
+}
+
+export type ArrowheadShape =
+  | { kind: 'polygon'; points: Point[] }
+  | { kind: 'polyline'; points: Point[] }
+  | { kind: 'circle'; center: Point; radius: number }
+
+// Outline of the arrowhead at one end of a connector, or null when it has none.
+// Filled shapes are polygons and circles; the open arrowhead is stroked.
+export function getArrowheadShape(
+  element: WhiteboardElement,
+  end: 'start' | 'end',
+  size: number
+): ArrowheadShape | null {
+  const style = end === 'start' ? getStartArrowhead(element) : getEndArrowhead(element)
+  if (style === 'none') return null
+
+  // Curves are aimed along their tangent, which runs through the control point
+  const { start: first, end: last } = getConnectorEndpoints(element)
+  const route = element.routing === 'curved'
+    ? [first, getControlPoint(element), last]
+    : getConnectorPolyline(element)
+  const tipIndex = end === 'start' ? 0 : route.length - 1
+  const tip = route[tipIndex]
+  const from = getApproachPoint(route, tipIndex, end === 'start' ? 1 : -1)
+
+  const angle = Math.atan2(tip.y - from.y, tip.x - from.x)
+  const back = (distance: number, spread: number): Point => ({
+    x: tip.x - distance * Math.cos(angle) + spread * Math.sin(angle),
+    y: tip.y - distance * Math.sin(angle) - spread * Math.cos(angle)
+  })
+
+  switch (style) {
+    case 'triangle':
+      return { kind: 'polygon', points: [tip, back(size, size / 2), back(size, -size / 2)] }
+
+    case 'open':
+      return { kind: 'polyline', points: [back(size, size / 2), tip, back(size, -size / 2)] }
+
+    case 'circle':
+      return { kind: 'circle', center: tip, radius: size / 3 }
+
+    case 'diamond':
+      return {
+        kind: 'polygon',
+        points: [tip, back(size * 0.6, size / 3), back(size * 1.2, 0), back(size * 0.6, -size / 3)]
+      }
+  }
+}
@@ -0,0 +1,149 @@
+import { z } from 'zod'
+import type { Comment, RichNote, WhiteboardElement } from '../types/whiteboard'
+
+// Version of the element shape written to the database, broadcasts and board
+// files. Bump it and add a migration whenever a stored field changes meaning
+// or an old shape needs filling in.
+export const ELEMENT_SCHEMA_VERSION = 2
+
+// Elements saved before versioning carry no schemaVersion
+const UNVERSIONED = 1
+
+type ElementData = Record<string, unknown>
+
+// Upgrades from the keyed version to the next one
+const MIGRATIONS: Record<number, (data: ElementData) => ElementData> = {
+  // Connectors predating routing and arrowheads, and rich notes created
+  // without their note
+  1: data => {
+    if (data.type === 'line' || data.type === 'arrow') {
+      return {
+        ...data,
+        routing: data.routing ?? 'straight',
+        startArrowhead: data.startArrowhead ?? 'none',
+        endArrowhead: data.endArrowhead ?? (data.type === 'arrow' ? 'triangle' : 'none')
+      }
+    }
+    if (data.type === 'rich-note' && data.richNote === undefined) {
+      return { ...data, richNote: { id: data.id, content: '', comments: [] } }
+    }
+    return data
+  }
+}
+
+const PointSchema = z.object({
+  x: z.number(),
+  y: z.number()
+})
+
+export const CommentSchema: z.ZodType<Comment> = z.object({
+  id: z.string(),
+  text: z.string(),
+  author: z.string(),
+  authorId: z.string(),
+  timestamp: z.number(),
+  resolved: z.boolean().optional()
+})
+
+export const RichNoteSchema: z.ZodType<RichNote> = z.object({
+  id: z.string(),
+  content: z.string(),
+  comments: z.array(CommentSchema),
+  lastEditedBy: z.string().optional(),
+  lastEditedAt: z.number().optional()
+})
+
+const ArrowheadSchema = z.enum(['none', 'triangle', 'open', 'circle', 'diamond'])
+
+const ConnectorBindingSchema = z.object({
+  elementId: z.string(),
+  anchor: z.enum(['top', 'right', 'bottom', 'left']).optional()
+})
+
+// Each field on its own, for checking partial updates
+export const ElementFieldsSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['path', 'rectangle', 'circle', 'arrow', 'line', 'text', 'sticky-note', 'rich-note']),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  points: z.array(PointSchema).optional(),
+  text: z.string().optional(),
+  color: z.string(),
+  strokeWidth: z.number().nonnegative(),
+  fill: z.string().optional(),
+  selected: z.boolean().optional(),
+  rotation: z.number().optional(),
+  richNote: RichNoteSchema.optional(),
+  routing: z.enum(['straight', 'curved', 'elbow']).optional(),
+  startArrowhead: ArrowheadSchema.optional(),
+  endArrowhead: ArrowheadSchema.optional(),
+  controlOffset: PointSchema.optional(),
+  startBinding: ConnectorBindingSchema.optional(),
+  endBinding: ConnectorBindingSchema.optional(),
+  position: z.string().optional()
+})
+
+export const WhiteboardElementSchema: z.ZodType<WhiteboardElement> = ElementFieldsSchema
+
+export type ElementParseResult =
+  | { success: true; element: WhiteboardElement }
+  | { success: false; error: string }
+
+function describeIssue(issue: z.core.$ZodIssue) {
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+}
+
+// Brings an element written at `version` up to the current schema. Versions
+// newer than this build are left as they are for the schema to judge.
+export function migrateElement(data: ElementData, version = UNVERSIONED): ElementData {
+  let migrated = data
+  for (let from = version; from < ELEMENT_SCHEMA_VERSION; from++) {
+    migrated = MIGRATIONS[from]?.(migrated) ?? migrated
+  }
+  return migrated
+}
+
+// Migrates and validates one element. A schemaVersion inside the data wins
+// over `version`, which is the version of the payload it came in.
+export function parseElement(data: unknown, version?: number): ElementParseResult {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { success: false, error: 'element is not an object' }
+  }
+
+  const { schemaVersion, ...fields } = data as ElementData
+  const fromVersion = typeof schemaVersion === 'number' ? schemaVersion : version
+  const result = WhiteboardElementSchema.safeParse(migrateElement(fields, fromVersion))
+  return result.success
+    ? { success: true, element: result.data }
+    : { success: false, error: describeIssue(result.error.issues[0]) }
+}
+
+// JSON for an element's database row. Selection is each user's own editor
+// state, so it is not stored.
+export function serializeElement(element: WhiteboardElement) {
+  const { selected: _selected, ...stored } = element
+  return JSON.stringify({ ...stored, schemaVersion: ELEMENT_SCHEMA_VERSION })
+}
+
+// Elements from database rows. Rows that are corrupt or fail validation are
+// logged and skipped so the rest of the board still loads.
+export function parseStoredElements(rows: string[]): WhiteboardElement[] {
+  return rows.flatMap(row => {
+    let data: unknown
+    try {
+      data = JSON.parse(row)
+    } catch (error) {
+      console.error('Skipping stored element with invalid JSON:', error)
+      return []
+    }
+
+    const result = parseElement(data)
+    if (!result.success) {
+      console.error(`Skipping invalid stored element (${result.error}):`, data)
+      return []
+    }
+    return [result.element]
+  })
+}
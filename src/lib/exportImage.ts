@@ -0,0 +1,145 @@
+import type { Bounds, WhiteboardElement } from '../types/whiteboard'
+import { renderToCanvas } from './canvasBackend'
+import { type PdfLayout, type PdfOrientation, type PdfPageSize, exportToPdf } from './exportPdf'
+import { expandBounds } from './geometry'
+import { renderElements, renderGrid } from './renderer'
+import { getPaintBounds } from './spatialIndex'
+import { createSvgBackend } from './svgBackend'
+
+export type ExportScope = 'board' | 'selection' | 'view'
+export type ImageFormat = 'png' | 'jpeg' | 'webp'
+export type ExportFormat = ImageFormat | 'svg' | 'pdf'
+
+export interface ExportOptions {
+  scope: ExportScope
+  format: ExportFormat
+  // Pixels per board unit for raster formats
+  scale: number
+  // Board units of empty space around the content; ignored for the current view
+  padding: number
+  // Null for transparent. JPEG has no alpha, so it falls back to white.
+  background: string | null
+  showGrid: boolean
+  pdfLayout: PdfLayout
+  pageSize: PdfPageSize
+  orientation: PdfOrientation
+  // Tiled PDF layout: how many pages wide the export area is printed
+  pagesAcross: number
+}
+
+export interface ExportPlan {
+  elements: WhiteboardElement[]
+  area: Bounds
+  // Requested scale, reduced if needed to stay within MAX_EXPORT_SIZE
+  scale: number
+}
+
+// Larger canvases fail to allocate in some browsers
+export const MAX_EXPORT_SIZE = 16384
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  scope: 'board',
+  format: 'png',
+  scale: 2,
+  padding: 32,
+  background: '#ffffff',
+  showGrid: false,
+  pdfLayout: 'tiled',
+  pageSize: 'a4',
+  orientation: 'landscape',
+  pagesAcross: 1
+}
+
+const MIME_TYPES: Record<ImageFormat | 'svg', string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  svg: 'image/svg+xml'
+}
+
+export function getExportFilename(format: ExportFormat) {
+  return `whiteboard.${format === 'jpeg' ? 'jpg' : format}`
+}
+
+// What to draw and which board area to capture, or null when there is
+// nothing to export
+export function planExport(
+  elements: WhiteboardElement[],
+  options: ExportOptions,
+  view: Bounds
+): ExportPlan | null {
+  // Selection state is editor chrome, not content
+  const content = (options.scope === 'selection' ? elements.filter(el => el.selected) : elements)
+    .map(el => (el.selected ? { ...el, selected: false } : el))
+
+  let area: Bounds
+  if (options.scope === 'view') {
+    area = view
+  } else {
+    if (content.length === 0) return null
+    area = expandBounds(getPaintBounds(content), options.padding)
+  }
+  if (area.width <= 0 || area.height <= 0) return null
+
+  const scale = Math.min(options.scale, MAX_EXPORT_SIZE / area.width, MAX_EXPORT_SIZE / area.height)
+  return { elements: content, area, scale }
+}
+
+export function renderExport(plan: ExportPlan, options: ExportOptions): HTMLCanvasElement {
+  const background = options.background ?? (options.format === 'jpeg' ? '#ffffff' : undefined)
+
+  return renderToCanvas(plan.elements, {
+    area: plan.area,
+    scale: plan.scale,
+    background,
+    beforeElements: options.showGrid ? backend => renderGrid(backend, plan.area, 1) : undefined
+  })
+}
+
+// Vector version of the same plan, sized to its area at the plan's scale
+export function renderSvgExport(plan: ExportPlan, options: ExportOptions): string {
+  const backend = createSvgBackend()
+  if (options.showGrid) {
+    renderGrid(backend, plan.area, 1)
+  }
+  renderElements(backend, plan.elements)
+  return backend.toSvg(plan.area, { scale: plan.scale, background: options.background ?? undefined })
+}
+
+export function exportToBlob(plan: ExportPlan, options: ExportOptions): Promise<Blob> {
+  if (options.format === 'svg') {
+    return Promise.resolve(new Blob([renderSvgExport(plan, options)], { type: MIME_TYPES.svg }))
+  }
+  if (options.format === 'pdf') {
+    return Promise.resolve(exportToPdf(plan.elements, plan.area, {
+      layout: options.pdfLayout,
+      pageSize: options.pageSize,
+      orientation: options.orientation,
+      pagesAcross: options.pagesAcross,
+      background: options.background,
+      showGrid: options.showGrid
+    }))
+  }
+  return canvasToBlob(renderExport(plan, options), options.format)
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, format: ImageFormat): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob)
+      } else {
+        reject(new Error(`Failed to encode ${format.toUpperCase()} image`))
+      }
+    }, MIME_TYPES[format], 0.92)
+  })
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.download = filename
+  link.href = url
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
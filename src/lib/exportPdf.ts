@@ -0,0 +1,162 @@
+import type { Bounds, WhiteboardElement } from '../types/whiteboard'
+import { expandBounds, getElementBounds } from './geometry'
+import { createPdfBackend } from './pdfBackend'
+import { type PdfPage, buildPdf, pdfNumber as n } from './pdfDocument'
+import { renderElements, renderGrid } from './renderer'
+import { boundsIntersect, getPaintBounds } from './spatialIndex'
+
+export type PdfPageSize = 'a4' | 'letter'
+export type PdfOrientation = 'portrait' | 'landscape'
+// 'sections' puts each top-level frame rectangle on its own page; 'tiled'
+// spreads the whole export area across as many pages as it needs
+export type PdfLayout = 'tiled' | 'sections'
+
+export interface PdfExportOptions {
+  layout: PdfLayout
+  pageSize: PdfPageSize
+  orientation: PdfOrientation
+  // Tiled layout: number of pages the area spans horizontally
+  pagesAcross: number
+  background: string | null
+  showGrid: boolean
+}
+
+// Portrait page sizes in points
+export const PDF_PAGE_SIZES: Record<PdfPageSize, { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 }
+}
+
+// Blank border on every page, in points (half an inch)
+const PAGE_MARGIN = 36
+
+// Padding kept around a section's rectangle, in board units
+const SECTION_PADDING = 16
+
+function getPageSize(options: PdfExportOptions) {
+  const { width, height } = PDF_PAGE_SIZES[options.pageSize]
+  return options.orientation === 'portrait' ? { width, height } : { width: height, height: width }
+}
+
+function containsBounds(outer: Bounds, inner: Bounds) {
+  return inner.x >= outer.x && inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+}
+
+// Unrotated rectangles that enclose at least one other element and are not
+// themselves inside another such rectangle, in reading order
+export function findSections(elements: WhiteboardElement[]): Bounds[] {
+  const bounds = elements.map(getElementBounds)
+  const frames = elements
+    .map((el, index) => ({ el, bounds: bounds[index] }))
+    .filter(({ el, bounds: frame }) =>
+      el.type === 'rectangle' && !el.rotation &&
+      elements.some((other, index) => other !== el && containsBounds(frame, bounds[index]))
+    )
+
+  return frames
+    .filter(frame => !frames.some(other => other !== frame && containsBounds(other.bounds, frame.bounds)))
+    .map(frame => frame.bounds)
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+}
+
+// One page drawing `area` scaled by `scale` into the page's content box,
+// starting at its top-left corner plus `offset`
+function renderPage(
+  elements: WhiteboardElement[],
+  area: Bounds,
+  scale: number,
+  page: { width: number; height: number },
+  options: PdfExportOptions,
+  offset = { x: 0, y: 0 }
+): PdfPage {
+  const backend = createPdfBackend()
+  const left = PAGE_MARGIN + offset.x
+  const top = page.height - PAGE_MARGIN - offset.y
+
+  if (options.background) {
+    backend.rect(area, { fill: options.background })
+  }
+  if (options.showGrid) {
+    renderGrid(backend, area, 1)
+  }
+  renderElements(backend, elements.filter(el => boundsIntersect(getPaintBounds([el]), area)))
+
+  const content = [
+    'q',
+    // Flip y so board coordinates run top-down, then clip to this page's area
+    `${n(scale)} 0 0 ${n(-scale)} ${n(left - area.x * scale)} ${n(top + area.y * scale)} cm`,
+    `${n(area.x)} ${n(area.y)} ${n(area.width)} ${n(area.height)} re W n`,
+    backend.toContent(),
+    'Q'
+  ]
+  return { ...page, content: content.join('\n') }
+}
+
+// How the tiled layout cuts `area` into pages
+function getTileGrid(area: Bounds, options: PdfExportOptions) {
+  const page = getPageSize(options)
+  const across = Math.max(1, Math.round(options.pagesAcross))
+  const scale = (across * (page.width - PAGE_MARGIN * 2)) / area.width
+  const tileWidth = area.width / across
+  const tileHeight = (page.height - PAGE_MARGIN * 2) / scale
+  // The tolerance keeps rounding error from adding an empty row
+  const down = Math.max(1, Math.ceil(area.height / tileHeight - 1e-6))
+  return { page, scale, across, down, tileWidth, tileHeight }
+}
+
+function tilePages(elements: WhiteboardElement[], area: Bounds, options: PdfExportOptions): PdfPage[] {
+  const { page, scale, across, down, tileWidth, tileHeight } = getTileGrid(area, options)
+
+  const pages: PdfPage[] = []
+  for (let row = 0; row < down; row++) {
+    for (let column = 0; column < across; column++) {
+      const tile = {
+        x: area.x + column * tileWidth,
+        y: area.y + row * tileHeight,
+        width: tileWidth,
+        height: Math.min(tileHeight, area.height - row * tileHeight)
+      }
+      pages.push(renderPage(elements, tile, scale, page, options))
+    }
+  }
+  return pages
+}
+
+function sectionPages(elements: WhiteboardElement[], sections: Bounds[], options: PdfExportOptions): PdfPage[] {
+  const page = getPageSize(options)
+  const contentWidth = page.width - PAGE_MARGIN * 2
+  const contentHeight = page.height - PAGE_MARGIN * 2
+
+  return sections.map(section => {
+    const area = expandBounds(section, SECTION_PADDING)
+    const scale = Math.min(contentWidth / area.width, contentHeight / area.height)
+    // Center the section in the content box
+    const offset = {
+      x: (contentWidth - area.width * scale) / 2,
+      y: (contentHeight - area.height * scale) / 2
+    }
+    return renderPage(elements, area, scale, page, options, offset)
+  })
+}
+
+// PDF of `elements` within `area`. The sections layout falls back to tiling
+// when the board has no sections.
+export function exportToPdf(elements: WhiteboardElement[], area: Bounds, options: PdfExportOptions): Blob {
+  const sections = options.layout === 'sections' ? findSections(elements) : []
+  const pages = sections.length > 0
+    ? sectionPages(elements, sections, options)
+    : tilePages(elements, area, options)
+
+  return new Blob([buildPdf(pages)], { type: 'application/pdf' })
+}
+
+// Pages the export will produce, for showing in the export dialog
+export function countPdfPages(elements: WhiteboardElement[], area: Bounds, options: PdfExportOptions): number {
+  const sections = options.layout === 'sections' ? findSections(elements).length : 0
+  if (sections > 0) return sections
+
+  const { across, down } = getTileGrid(area, options)
+  return across * down
+}
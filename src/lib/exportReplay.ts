@@ -0,0 +1,143 @@
+import { paintCanvas } from './canvasBackend'
+import { createGifEncoder } from './gifEncoder'
+import { expandBounds } from './geometry'
+import type { Replay } from './replay'
+
+export type ReplayVideoFormat = 'webm' | 'gif'
+
+export interface ReplayExportOptions {
+  format: ReplayVideoFormat
+  // Length of the clip; the replay is sped up or slowed down to fit
+  durationSeconds: number
+  fps: number
+  // Pixel width; the height follows the board's aspect ratio
+  width: number
+}
+
+// GIFs store every frame in full, so they are kept smaller and shorter
+export const REPLAY_EXPORT_PRESETS: Record<ReplayVideoFormat, ReplayExportOptions> = {
+  webm: { format: 'webm', durationSeconds: 20, fps: 24, width: 1280 },
+  gif: { format: 'gif', durationSeconds: 15, fps: 10, width: 640 }
+}
+
+export function getReplayFilename(format: ReplayVideoFormat) {
+  return `whiteboard-replay.${format}`
+}
+
+const PADDING = 32
+const BACKGROUND = '#ffffff'
+
+// A run of video frames that all show the board after the same step
+interface FrameRun {
+  time: number
+  frames: number
+}
+
+function planFrames(replay: Replay, { durationSeconds, fps }: ReplayExportOptions): FrameRun[] {
+  const count = Math.max(2, Math.round(durationSeconds * fps))
+  const runs: FrameRun[] = []
+  let lastStep: number | null = null
+
+  for (let frame = 0; frame < count; frame++) {
+    const time = frame / (count - 1) * replay.duration
+    const step = replay.stepAt(time)
+    if (step === lastStep) {
+      runs[runs.length - 1].frames++
+    } else {
+      runs.push({ time, frames: 1 })
+      lastStep = step
+    }
+  }
+  return runs
+}
+
+function pickWebmType() {
+  return ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+    .find(type => MediaRecorder.isTypeSupported(type))
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Plays the frames onto the canvas in real time while MediaRecorder encodes them
+async function recordWebm(
+  canvas: HTMLCanvasElement,
+  runs: FrameRun[],
+  frameMs: number,
+  paint: (time: number) => void,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  const mimeType = typeof MediaRecorder === 'undefined' ? undefined : pickWebmType()
+  if (!mimeType) throw new Error('This browser cannot record WebM video')
+
+  const stream = canvas.captureStream(0)
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack
+  const recorder = new MediaRecorder(stream, { mimeType })
+  const chunks: Blob[] = []
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data)
+  }
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve()
+  })
+
+  recorder.start()
+  for (let index = 0; index < runs.length; index++) {
+    paint(runs[index].time)
+    track.requestFrame()
+    await wait(runs[index].frames * frameMs)
+    onProgress?.((index + 1) / runs.length)
+  }
+  recorder.stop()
+  await stopped
+  track.stop()
+
+  return new Blob(chunks, { type: 'video/webm' })
+}
+
+async function encodeGif(
+  canvas: HTMLCanvasElement,
+  runs: FrameRun[],
+  frameMs: number,
+  paint: (time: number) => void,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) throw new Error('Could not draw the replay')
+
+  const encoder = createGifEncoder(canvas.width, canvas.height)
+  for (let index = 0; index < runs.length; index++) {
+    paint(runs[index].time)
+    encoder.addFrame(ctx.getImageData(0, 0, canvas.width, canvas.height).data, runs[index].frames * frameMs)
+    onProgress?.((index + 1) / runs.length)
+    // Let the page repaint between frames
+    await wait(0)
+  }
+  return encoder.finish()
+}
+
+// Renders the replay into a video file. WebM is recorded in real time, so it
+// takes as long as the clip; GIF is encoded as fast as the page allows.
+export async function exportReplay(
+  replay: Replay,
+  options: ReplayExportOptions,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  if (!replay.area) throw new Error('There is nothing to replay yet')
+
+  const area = expandBounds(replay.area, PADDING)
+  const scale = options.width / area.width
+  const canvas = document.createElement('canvas')
+  // Video encoders want even dimensions
+  canvas.width = Math.round(options.width / 2) * 2
+  canvas.height = Math.max(2, Math.round(area.height * scale / 2) * 2)
+
+  const paint = (time: number) => {
+    paintCanvas(canvas, replay.elementsAt(time), { area, scale, background: BACKGROUND })
+  }
+  const runs = planFrames(replay, options)
+  const frameMs = 1000 / options.fps
+
+  return options.format === 'gif'
+    ? encodeGif(canvas, runs, frameMs, paint, onProgress)
+    : recordWebm(canvas, runs, frameMs, paint, onProgress)
+}
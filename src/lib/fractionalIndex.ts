@@ -0,0 +1,149 @@
+// Fractional indexes: strings that sort in drawing order, with room for a
+// new one between any two, so moving one element never renumbers the rest.
+// A key is an integer part, whose first character gives its length, followed
+// by a fraction that never ends in the zero digit.
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz'
+const ZERO = DIGITS[0]
+const LAST = DIGITS[DIGITS.length - 1]
+// The smallest integer part, which nothing can be placed before
+const SMALLEST_INTEGER = 'A' + ZERO.repeat(26)
+
+// Heads a..z are positive integers of 1..26 digits, A..Z negative ones of 26..1
+function getIntegerLength(head: string) {
+  if (head >= 'a' && head <= 'z') return head.charCodeAt(0) - 'a'.charCodeAt(0) + 2
+  if (head >= 'A' && head <= 'Z') return 'Z'.charCodeAt(0) - head.charCodeAt(0) + 2
+  return null
+}
+
+function splitKey(key: string) {
+  const length = getIntegerLength(key[0])
+  if (length === null || key.length < length) return null
+  return { integer: key.slice(0, length), fraction: key.slice(length) }
+}
+
+export function isValidIndex(key: unknown): key is string {
+  if (typeof key !== 'string' || key === SMALLEST_INTEGER) return false
+  if (Array.from(key).some(char => !DIGITS.includes(char))) return false
+  const parts = splitKey(key)
+  return parts !== null && !parts.fraction.endsWith(ZERO)
+}
+
+// A fraction strictly between `a` and `b`, where b === null means no upper bound
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Equal leading digits carry over unchanged
+    let n = 0
+    while ((a[n] ?? ZERO) === b[n]) n++
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n))
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length
+  if (digitB - digitA > 1) return DIGITS[Math.round((digitA + digitB) / 2)]
+  // Adjacent digits: go a level deeper
+  if (b !== null && b.length > 1) return b.slice(0, 1)
+  return DIGITS[digitA] + midpoint(a.slice(1), null)
+}
+
+function incrementInteger(integer: string): string | null {
+  const [head, ...digits] = integer
+  let carry = true
+  for (let i = digits.length - 1; carry && i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i]) + 1
+    if (digit === DIGITS.length) {
+      digits[i] = ZERO
+    } else {
+      digits[i] = DIGITS[digit]
+      carry = false
+    }
+  }
+  if (!carry) return head + digits.join('')
+
+  if (head === 'Z') return 'a' + ZERO
+  if (head === 'z') return null
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1)
+  if (nextHead > 'a') {
+    digits.push(ZERO)
+  } else {
+    digits.pop()
+  }
+  return nextHead + digits.join('')
+}
+
+function decrementInteger(integer: string): string | null {
+  const [head, ...digits] = integer
+  let borrow = true
+  for (let i = digits.length - 1; borrow && i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i]) - 1
+    if (digit === -1) {
+      digits[i] = LAST
+    } else {
+      digits[i] = DIGITS[digit]
+      borrow = false
+    }
+  }
+  if (!borrow) return head + digits.join('')
+
+  if (head === 'a') return 'Z' + LAST
+  if (head === 'A') return null
+  const previousHead = String.fromCharCode(head.charCodeAt(0) - 1)
+  if (previousHead < 'Z') {
+    digits.push(LAST)
+  } else {
+    digits.pop()
+  }
+  return previousHead + digits.join('')
+}
+
+// A key between `a` and `b`, either of which may be null for an open end.
+// Appending keeps keys short: it counts up through the integer part.
+export function indexBetween(a: string | null, b: string | null): string {
+  if (a !== null && b !== null && a >= b) {
+    throw new Error(`Fractional index ${a} is not below ${b}`)
+  }
+
+  if (a === null) {
+    if (b === null) return 'a' + ZERO
+    const { integer, fraction } = splitKey(b)!
+    if (integer === SMALLEST_INTEGER) return integer + midpoint('', fraction)
+    if (integer < b) return integer
+    const previous = decrementInteger(integer)
+    if (previous === null) throw new Error('No fractional index fits below ' + b)
+    return previous
+  }
+
+  const { integer, fraction } = splitKey(a)!
+  if (b === null) {
+    const next = incrementInteger(integer)
+    return next === null ? integer + midpoint(fraction, null) : next
+  }
+
+  const upper = splitKey(b)!
+  if (integer === upper.integer) return integer + midpoint(fraction, upper.fraction)
+  const next = incrementInteger(integer)
+  if (next === null) throw new Error('No fractional index fits above ' + a)
+  return next < b ? next : integer + midpoint(fraction, null)
+}
+
+// `count` ascending keys between `a` and `b`, spread out so later inserts
+// between them stay short
+export function indexesBetween(a: string | null, b: string | null, count: number): string[] {
+  if (count === 0) return []
+  if (count === 1) return [indexBetween(a, b)]
+
+  if (b === null) {
+    const keys = [indexBetween(a, null)]
+    while (keys.length < count) keys.push(indexBetween(keys[keys.length - 1], null))
+    return keys
+  }
+  if (a === null) {
+    const keys = [indexBetween(null, b)]
+    while (keys.length < count) keys.push(indexBetween(null, keys[keys.length - 1]))
+    return keys.reverse()
+  }
+
+  const middle = Math.floor(count / 2)
+  const key = indexBetween(a, b)
+  return [...indexesBetween(a, key, middle), key, ...indexesBetween(key, b, count - middle - 1)]
+}
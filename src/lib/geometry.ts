@@ -0,0 +1,235 @@
+import type { Bounds, Point, WhiteboardElement } from '../types/whiteboard'
+import { getConnectorPolyline } from './connectors'
+
+// Screen-space slop around thin strokes, so they stay clickable when zoomed out
+export const HIT_TOLERANCE = 6
+
+export const TEXT_FONT_FAMILY = 'Inter, sans-serif'
+// Baseline-to-baseline distance of text lines, relative to the font size
+export const TEXT_LINE_HEIGHT = 1.25
+
+// Shared scratch context for text measurement; absent outside the browser
+let measureContext: CanvasRenderingContext2D | null | undefined
+
+function getMeasureContext() {
+  if (measureContext === undefined) {
+    measureContext = typeof document === 'undefined'
+      ? null
+      : document.createElement('canvas').getContext('2d')
+  }
+  return measureContext
+}
+
+export function getHitTolerance(element: WhiteboardElement, zoom: number) {
+  return Math.max(element.strokeWidth / 2, HIT_TOLERANCE / zoom)
+}
+
+// Box with negative width/height flipped, as for shapes drawn right-to-left
+export function normalizeBounds(x: number, y: number, width: number, height: number): Bounds {
+  return {
+    x: Math.min(x, x + width),
+    y: Math.min(y, y + height),
+    width: Math.abs(width),
+    height: Math.abs(height)
+  }
+}
+
+export function getBoundsCenter(bounds: Bounds): Point {
+  return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }
+}
+
+export function boundsOfPoints(points: Point[]): Bounds {
+  const xs = points.map(p => p.x)
+  const ys = points.map(p => p.y)
+  const minX = Math.min(...xs)
+  const minY = Math.min(...ys)
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY }
+}
+
+export function expandBounds(bounds: Bounds, margin: number): Bounds {
+  return {
+    x: bounds.x - margin,
+    y: bounds.y - margin,
+    width: bounds.width + margin * 2,
+    height: bounds.height + margin * 2
+  }
+}
+
+export function isPointInBounds(point: Point, bounds: Bounds) {
+  return (
+    point.x >= bounds.x &&
+    point.x <= bounds.x + bounds.width &&
+    point.y >= bounds.y &&
+    point.y <= bounds.y + bounds.height
+  )
+}
+
+export function rotatePoint(point: Point, center: Point, angle: number): Point {
+  if (!angle) return point
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const dx = point.x - center.x
+  const dy = point.y - center.y
+  return {
+    x: center.x + dx * cos - dy * sin,
+    y: center.y + dx * sin + dy * cos
+  }
+}
+
+export function distanceToSegment(point: Point, a: Point, b: Point) {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy))
+}
+
+export function distanceToPolyline(point: Point, polyline: Point[]) {
+  if (polyline.length === 1) {
+    return Math.hypot(point.x - polyline[0].x, point.y - polyline[0].y)
+  }
+
+  let min = Infinity
+  for (let i = 1; i < polyline.length; i++) {
+    min = Math.min(min, distanceToSegment(point, polyline[i - 1], polyline[i]))
+  }
+  return min
+}
+
+// Box of a line of text drawn with its baseline at (x, y). Falls back to an
+// estimate where no canvas is available to measure with.
+export function measureTextBounds(text: string, fontSize: number, x: number, y: number): Bounds {
+  const ctx = getMeasureContext()
+
+  if (!ctx) {
+    return { x, y: y - fontSize * 0.8, width: text.length * fontSize * 0.6, height: fontSize }
+  }
+
+  ctx.font = `${fontSize}px ${TEXT_FONT_FAMILY}`
+  const metrics = ctx.measureText(text)
+  const ascent = metrics.fontBoundingBoxAscent ?? fontSize * 0.8
+  const descent = metrics.fontBoundingBoxDescent ?? fontSize * 0.2
+  return { x, y: y - ascent, width: metrics.width, height: ascent + descent }
+}
+
+// Box the glyphs of a line of text actually cover, with its baseline at
+// (x, y). Overhanging glyphs can reach past the advance width and font
+// height measureTextBounds reports, so this covers both.
+export function measureTextInk(text: string, fontSize: number, x: number, y: number): Bounds {
+  const box = measureTextBounds(text, fontSize, x, y)
+  const ctx = getMeasureContext()
+  if (!ctx) return box
+
+  ctx.font = `${fontSize}px ${TEXT_FONT_FAMILY}`
+  const metrics = ctx.measureText(text)
+  const left = Math.min(box.x, x - (metrics.actualBoundingBoxLeft ?? 0))
+  const top = Math.min(box.y, y - (metrics.actualBoundingBoxAscent ?? 0))
+  const right = Math.max(box.x + box.width, x + (metrics.actualBoundingBoxRight ?? 0))
+  const bottom = Math.max(box.y + box.height, y + (metrics.actualBoundingBoxDescent ?? 0))
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+// Unrotated bounds with negative extents normalized
+export function getElementBounds(element: WhiteboardElement): Bounds {
+  switch (element.type) {
+    case 'path':
+      return element.points && element.points.length > 0
+        ? boundsOfPoints(element.points)
+        : { x: element.x, y: element.y, width: 0, height: 0 }
+
+    case 'line':
+    case 'arrow':
+      return boundsOfPoints(getConnectorPolyline(element))
+
+    case 'text': {
+      // Lines are drawn below each other from the first baseline down
+      const fontSize = element.strokeWidth * 4
+      const lines = (element.text || '').split('\n')
+      const first = measureTextBounds(lines[0], fontSize, element.x, element.y)
+      const width = Math.max(...lines.map(line => measureTextBounds(line, fontSize, 0, 0).width))
+      return { ...first, width, height: first.height + (lines.length - 1) * fontSize * TEXT_LINE_HEIGHT }
+    }
+
+    default: {
+      const fallback = element.type === 'sticky-note' ? 100 : 0
+      return normalizeBounds(element.x, element.y, element.width || fallback, element.height || fallback)
+    }
+  }
+}
+
+// Maps a world point into the element's unrotated frame
+export function toLocalPoint(element: WhiteboardElement, point: Point): Point {
+  if (!element.rotation) return point
+  return rotatePoint(point, getBoundsCenter(getElementBounds(element)), -element.rotation)
+}
+
+// Maps a point in the element's unrotated frame onto the board
+export function toWorldPoint(element: WhiteboardElement, point: Point): Point {
+  if (!element.rotation) return point
+  return rotatePoint(point, getBoundsCenter(getElementBounds(element)), element.rotation)
+}
+
+// Whether `point` lands on the element. Strokes are hit within a zoom-aware
+// tolerance; closed shapes anywhere inside, plus `margin`.
+export function isPointInElement(point: Point, element: WhiteboardElement, zoom: number, margin = 0): boolean {
+  const local = toLocalPoint(element, point)
+  const tolerance = getHitTolerance(element, zoom) + margin
+
+  switch (element.type) {
+    case 'path':
+      return !!element.points?.length && distanceToPolyline(local, element.points) <= tolerance
+
+    case 'line':
+    case 'arrow':
+      return distanceToPolyline(local, getConnectorPolyline(element)) <= tolerance
+
+    case 'circle': {
+      const bounds = getElementBounds(element)
+      const center = getBoundsCenter(bounds)
+      const radius = Math.min(bounds.width, bounds.height) / 2
+      return Math.hypot(local.x - center.x, local.y - center.y) <= radius + margin
+    }
+
+    case 'text':
+      return isPointInBounds(local, expandBounds(getElementBounds(element), margin + HIT_TOLERANCE / zoom))
+
+    default:
+      return isPointInBounds(local, expandBounds(getElementBounds(element), margin))
+  }
+}
+
+// Every element under the point, topmost (last drawn) first
+export function hitTestAll(
+  point: Point,
+  elements: WhiteboardElement[],
+  zoom: number,
+  margin = 0
+): WhiteboardElement[] {
+  const hits: WhiteboardElement[] = []
+  for (let i = elements.length - 1; i >= 0; i--) {
+    if (isPointInElement(point, elements[i], zoom, margin)) {
+      hits.push(elements[i])
+    }
+  }
+  return hits
+}
+
+// Topmost element under the point that passes `filter`
+export function hitTest(
+  point: Point,
+  elements: WhiteboardElement[],
+  zoom: number,
+  filter: (element: WhiteboardElement) => boolean = () => true,
+  margin = 0
+): WhiteboardElement | undefined {
+  for (let i = elements.length - 1; i >= 0; i--) {
+    const element = elements[i]
+    if (filter(element) && isPointInElement(point, element, zoom, margin)) {
+      return element
+    }
+  }
+  return undefined
+}
@@ -0,0 +1,238 @@
+// Animated GIF89a encoder. Frames share one fixed 256 colour palette, a
+// 6×6×6 colour cube plus greys, which suits flat whiteboard colours well
+// enough without per-frame quantizing.
+
+export interface GifEncoder {
+  // RGBA pixels of a full frame, shown for `delayMs`
+  addFrame(pixels: Uint8ClampedArray, delayMs: number): void
+  finish(): Blob
+}
+
+const CUBE_LEVELS = 6
+const GREY_LEVELS = 256 - CUBE_LEVELS ** 3
+// Colours closer to grey than this use the grey ramp, which is finer
+const GREY_TOLERANCE = 24
+
+// LZW over 8-bit pixels, with the usual open-addressed string table
+const MIN_CODE_SIZE = 8
+const MAX_BITS = 12
+const HASH_SIZE = 5003
+const HASH_SHIFT = 4
+
+function buildPalette() {
+  const palette = new Uint8Array(256 * 3)
+  let offset = 0
+  for (let r = 0; r < CUBE_LEVELS; r++) {
+    for (let g = 0; g < CUBE_LEVELS; g++) {
+      for (let b = 0; b < CUBE_LEVELS; b++) {
+        palette.set([r * 51, g * 51, b * 51], offset)
+        offset += 3
+      }
+    }
+  }
+  for (let i = 0; i < GREY_LEVELS; i++) {
+    const value = Math.round(i * 255 / (GREY_LEVELS - 1))
+    palette.set([value, value, value], offset)
+    offset += 3
+  }
+  return palette
+}
+
+function nearestIndex(r: number, g: number, b: number) {
+  if (Math.max(r, g, b) - Math.min(r, g, b) <= GREY_TOLERANCE) {
+    return CUBE_LEVELS ** 3 + Math.round((r + g + b) / 3 * (GREY_LEVELS - 1) / 255)
+  }
+  return Math.round(r / 51) * 36 + Math.round(g / 51) * 6 + Math.round(b / 51)
+}
+
+// Palette index for every colour at 5 bits per channel
+function buildLookup() {
+  const lookup = new Uint8Array(32 * 32 * 32)
+  for (let r = 0; r < 32; r++) {
+    for (let g = 0; g < 32; g++) {
+      for (let b = 0; b < 32; b++) {
+        lookup[(r << 10) | (g << 5) | b] = nearestIndex(r * 8 + 4, g * 8 + 4, b * 8 + 4)
+      }
+    }
+  }
+  return lookup
+}
+
+function createByteWriter() {
+  let buffer = new Uint8Array(1 << 16)
+  let length = 0
+
+  const reserve = (count: number) => {
+    if (length + count <= buffer.length) return
+    const grown = new Uint8Array(Math.max(buffer.length * 2, length + count))
+    grown.set(buffer.subarray(0, length))
+    buffer = grown
+  }
+
+  return {
+    byte(value: number) {
+      reserve(1)
+      buffer[length++] = value
+    },
+    word(value: number) {
+      reserve(2)
+      buffer[length++] = value & 0xff
+      buffer[length++] = (value >> 8) & 0xff
+    },
+    bytes(values: ArrayLike<number>) {
+      reserve(values.length)
+      buffer.set(values, length)
+      length += values.length
+    },
+    result() {
+      return buffer.slice(0, length)
+    }
+  }
+}
+
+type ByteWriter = ReturnType<typeof createByteWriter>
+
+// Writes the image data of one frame: code size, sub-blocks, terminator
+function writeLzw(indices: Uint8Array, out: ByteWriter) {
+  const clearCode = 1 << MIN_CODE_SIZE
+  const endCode = clearCode + 1
+  const hashTable = new Int32Array(HASH_SIZE).fill(-1)
+  const codeTable = new Int32Array(HASH_SIZE)
+  let codeSize = MIN_CODE_SIZE + 1
+  let maxCode = (1 << codeSize) - 1
+  let nextCode = clearCode + 2
+  let clearing = false
+
+  const block = new Uint8Array(255)
+  let blockLength = 0
+  let accumulator = 0
+  let bits = 0
+
+  const flushBlock = () => {
+    if (blockLength === 0) return
+    out.byte(blockLength)
+    out.bytes(block.subarray(0, blockLength))
+    blockLength = 0
+  }
+
+  const output = (code: number) => {
+    accumulator = bits > 0 ? accumulator | (code << bits) : code
+    bits += codeSize
+    while (bits >= 8) {
+      block[blockLength++] = accumulator & 0xff
+      if (blockLength === 255) flushBlock()
+      accumulator >>= 8
+      bits -= 8
+    }
+
+    // The decoder widens codes once the table outgrows them
+    if (clearing) {
+      codeSize = MIN_CODE_SIZE + 1
+      maxCode = (1 << codeSize) - 1
+      clearing = false
+    } else if (nextCode > maxCode) {
+      codeSize++
+      maxCode = codeSize === MAX_BITS ? 1 << MAX_BITS : (1 << codeSize) - 1
+    }
+  }
+
+  out.byte(MIN_CODE_SIZE)
+  output(clearCode)
+
+  let prefix = indices[0]
+  pixels: for (let p = 1; p < indices.length; p++) {
+    const pixel = indices[p]
+    const key = (pixel << MAX_BITS) + prefix
+    let slot = (pixel << HASH_SHIFT) ^ prefix
+
+    if (hashTable[slot] === key) {
+      prefix = codeTable[slot]
+      continue
+    }
+    if (hashTable[slot] >= 0) {
+      const step = slot === 0 ? 1 : HASH_SIZE - slot
+      do {
+        slot -= step
+        if (slot < 0) slot += HASH_SIZE
+        if (hashTable[slot] === key) {
+          prefix = codeTable[slot]
+          continue pixels
+        }
+      } while (hashTable[slot] >= 0)
+    }
+
+    output(prefix)
+    prefix = pixel
+    if (nextCode < 1 << MAX_BITS) {
+      codeTable[slot] = nextCode++
+      hashTable[slot] = key
+    } else {
+      // Table full: start over
+      hashTable.fill(-1)
+      nextCode = clearCode + 2
+      clearing = true
+      output(clearCode)
+    }
+  }
+
+  output(prefix)
+  output(endCode)
+  if (bits > 0) {
+    block[blockLength++] = accumulator & 0xff
+    if (blockLength === 255) flushBlock()
+  }
+  flushBlock()
+  out.byte(0)
+}
+
+// Frames are drawn over a white background; transparency is flattened onto it
+export function createGifEncoder(width: number, height: number): GifEncoder {
+  const lookup = buildLookup()
+  const out = createByteWriter()
+  const indices = new Uint8Array(width * height)
+
+  out.bytes([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]) // GIF89a
+  out.word(width)
+  out.word(height)
+  out.byte(0xf7) // Global colour table of 256 entries
+  out.byte(0)
+  out.byte(0)
+  out.bytes(buildPalette())
+
+  // Loop forever
+  out.bytes([0x21, 0xff, 0x0b])
+  out.bytes(Array.from('NETSCAPE2.0', char => char.charCodeAt(0)))
+  out.bytes([0x03, 0x01])
+  out.word(0)
+  out.byte(0)
+
+  return {
+    addFrame(pixels, delayMs) {
+      for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+        const alpha = pixels[p + 3] / 255
+        const r = pixels[p] * alpha + 255 * (1 - alpha)
+        const g = pixels[p + 1] * alpha + 255 * (1 - alpha)
+        const b = pixels[p + 2] * alpha + 255 * (1 - alpha)
+        indices[i] = lookup[((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3)]
+      }
+
+      // Graphic control extension: the delay is in hundredths of a second
+      out.bytes([0x21, 0xf9, 0x04, 0x04])
+      out.word(Math.max(2, Math.round(delayMs / 10)))
+      out.bytes([0, 0])
+
+      out.byte(0x2c)
+      out.word(0)
+      out.word(0)
+      out.word(width)
+      out.word(height)
+      out.byte(0)
+      writeLzw(indices, out)
+    },
+
+    finish() {
+      out.byte(0x3b)
+      return new Blob([out.result()], { type: 'image/gif' })
+    }
+  }
+}
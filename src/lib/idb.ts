@@ -0,0 +1,22 @@
+// Promise wrappers for IndexedDB requests and transactions
+
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'))
+  })
+}
+
+// Keys of the form [sessionId, anything]: a shorter array sorts first and
+// an array sorts after every number and string
+export function sessionKeyRange(sessionId: string) {
+  return IDBKeyRange.bound([sessionId], [sessionId, []])
+}
@@ -0,0 +1,168 @@
+import type { BoardOperation, BoardSession, BoardSnapshot, BoardStorage, StoredElement } from './boardStorage'
+import { promisify, sessionKeyRange, transactionDone } from './idb'
+import { LOCAL_USER_ID } from './memoryStorage'
+
+const DATABASE_NAME = 'whiteboard'
+const DATABASE_VERSION = 3
+
+interface ElementRecord {
+  sessionId: string
+  id: string
+  data: string
+  // Drawing position; set on insert and kept on update
+  order: number
+}
+
+type StoreName = 'sessions' | 'elements' | 'snapshots' | 'operations'
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  const request = indexedDB.open(name, DATABASE_VERSION)
+  // Each step upgrades from the version before it
+  request.onupgradeneeded = event => {
+    const db = request.result
+    if (event.oldVersion < 1) {
+      db.createObjectStore('sessions', { keyPath: 'id' }).createIndex('userId', 'userId')
+      db.createObjectStore('elements', { keyPath: ['sessionId', 'id'] })
+        .createIndex('sessionOrder', ['sessionId', 'order'])
+      db.createObjectStore('snapshots', { keyPath: 'id' }).createIndex('sessionId', 'sessionId')
+    }
+    if (event.oldVersion < 2) {
+      // Keyed so a session's operations sort by time
+      db.createObjectStore('operations', { keyPath: ['sessionId', 'createdAt', 'id'] })
+    }
+    if (event.oldVersion < 3 && db.objectStoreNames.contains('assets')) {
+      // Versions 1 and 2 created an asset store that nothing wrote to
+      db.deleteObjectStore('assets')
+    }
+  }
+  return promisify(request)
+}
+
+// All of a session's records in a store with a `sessionId` index
+function sessionRange(sessionId: string) {
+  return IDBKeyRange.only(sessionId)
+}
+
+// Boards saved in this browser only. Works offline and without an account.
+export function createIndexedDbStorage(name = DATABASE_NAME, userId = LOCAL_USER_ID): BoardStorage {
+  let database: Promise<IDBDatabase> | null = null
+  // Strictly increasing, so elements added in one write keep their order
+  let lastOrder = 0
+  const nextOrder = () => (lastOrder = Math.max(Date.now(), lastOrder + 1))
+
+  const transaction = async (stores: StoreName | StoreName[], mode: IDBTransactionMode) => {
+    database ??= openDatabase(name)
+    return (await database).transaction(stores, mode)
+  }
+
+  const readAll = async <T>(store: StoreName, index: string, range: IDBKeyRange): Promise<T[]> => {
+    const tx = await transaction(store, 'readonly')
+    return promisify(tx.objectStore(store).index(index).getAll(range))
+  }
+
+  return {
+    async getUserId() {
+      return userId
+    },
+
+    async listSessions(owner) {
+      const sessions = await readAll<BoardSession>('sessions', 'userId', IDBKeyRange.only(owner))
+      return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    },
+
+    async getSession(id) {
+      const tx = await transaction('sessions', 'readonly')
+      return (await promisify<BoardSession | undefined>(tx.objectStore('sessions').get(id))) ?? null
+    },
+
+    async createSession(session) {
+      const tx = await transaction('sessions', 'readwrite')
+      tx.objectStore('sessions').add(session)
+      await transactionDone(tx)
+    },
+
+    async updateSession(id, changes) {
+      const tx = await transaction('sessions', 'readwrite')
+      const store = tx.objectStore('sessions')
+      const request = store.get(id)
+      request.onsuccess = () => {
+        if (request.result) {
+          store.put({ ...request.result, ...changes })
+        } else {
+          tx.abort()
+        }
+      }
+      await transactionDone(tx)
+    },
+
+    async deleteSession(id) {
+      const tx = await transaction(['sessions', 'elements', 'snapshots', 'operations'], 'readwrite')
+      tx.objectStore('sessions').delete(id)
+      tx.objectStore('elements').delete(sessionKeyRange(id))
+      tx.objectStore('operations').delete(sessionKeyRange(id))
+      const request = tx.objectStore('snapshots').index('sessionId').openKeyCursor(sessionRange(id))
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (cursor) {
+          tx.objectStore('snapshots').delete(cursor.primaryKey)
+          cursor.continue()
+        }
+      }
+      await transactionDone(tx)
+    },
+
+    async listElements(sessionId) {
+      const records = await readAll<ElementRecord>('elements', 'sessionOrder', sessionKeyRange(sessionId))
+      return records.map((record): StoredElement => ({ id: record.id, data: record.data }))
+    },
+
+    async writeElements(sessionId, { upserts, deletes }) {
+      const tx = await transaction('elements', 'readwrite')
+      const store = tx.objectStore('elements')
+
+      upserts.forEach(element => {
+        const request = store.get([sessionId, element.id])
+        request.onsuccess = () => {
+          const existing = request.result as ElementRecord | undefined
+          store.put({
+            sessionId,
+            id: element.id,
+            data: element.data,
+            order: existing?.order ?? nextOrder()
+          } satisfies ElementRecord)
+        }
+      })
+      deletes.forEach(id => store.delete([sessionId, id]))
+
+      await transactionDone(tx)
+    },
+
+    async listSnapshots(sessionId) {
+      const snapshots = await readAll<BoardSnapshot>('snapshots', 'sessionId', sessionRange(sessionId))
+      return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    },
+
+    async createSnapshot(snapshot) {
+      const tx = await transaction('snapshots', 'readwrite')
+      tx.objectStore('snapshots').put(snapshot)
+      await transactionDone(tx)
+    },
+
+    async deleteSnapshot(id) {
+      const tx = await transaction('snapshots', 'readwrite')
+      tx.objectStore('snapshots').delete(id)
+      await transactionDone(tx)
+    },
+
+    async listOperations(sessionId) {
+      const tx = await transaction('operations', 'readonly')
+      return promisify<BoardOperation[]>(tx.objectStore('operations').getAll(sessionKeyRange(sessionId)))
+    },
+
+    async appendOperation(operation) {
+      const tx = await transaction('operations', 'readwrite')
+      tx.objectStore('operations').put(operation)
+      await transactionDone(tx)
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import type { BoardOperation, BoardSession, BoardSnapshot, BoardStorage } from './boardStorage'
+
+export const LOCAL_USER_ID = 'local-user'
+
+// Keeps everything in this tab only; for tests, demos and trying things out.
+// Updating a Map entry keeps its position, which gives drawing order for free.
+export function createMemoryStorage(userId = LOCAL_USER_ID): BoardStorage {
+  const sessions = new Map<string, BoardSession>()
+  const elements = new Map<string, Map<string, string>>()
+  const snapshots = new Map<string, BoardSnapshot>()
+  const operations: BoardOperation[] = []
+
+  const elementsOf = (sessionId: string) => {
+    let sessionElements = elements.get(sessionId)
+    if (!sessionElements) {
+      sessionElements = new Map()
+      elements.set(sessionId, sessionElements)
+    }
+    return sessionElements
+  }
+
+  return {
+    async getUserId() {
+      return userId
+    },
+
+    async listSessions(owner) {
+      return Array.from(sessions.values())
+        .filter(session => session.userId === owner)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    },
+
+    async getSession(id) {
+      return sessions.get(id) ?? null
+    },
+
+    async createSession(session) {
+      sessions.set(session.id, { ...session })
+    },
+
+    async updateSession(id, changes) {
+      const session = sessions.get(id)
+      if (!session) throw new Error(`Session ${id} not found`)
+      sessions.set(id, { ...session, ...changes })
+    },
+
+    async deleteSession(id) {
+      sessions.delete(id)
+      elements.delete(id)
+      snapshots.forEach((snapshot, snapshotId) => {
+        if (snapshot.sessionId === id) snapshots.delete(snapshotId)
+      })
+      const kept = operations.filter(operation => operation.sessionId !== id)
+      operations.splice(0, operations.length, ...kept)
+    },
+
+    async listElements(sessionId) {
+      return Array.from(elementsOf(sessionId), ([id, data]) => ({ id, data }))
+    },
+
+    async writeElements(sessionId, { upserts, deletes }) {
+      const sessionElements = elementsOf(sessionId)
+      upserts.forEach(element => sessionElements.set(element.id, element.data))
+      deletes.forEach(id => sessionElements.delete(id))
+    },
+
+    async listSnapshots(sessionId) {
+      return Array.from(snapshots.values())
+        .filter(snapshot => snapshot.sessionId === sessionId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    },
+
+    async createSnapshot(snapshot) {
+      snapshots.set(snapshot.id, snapshot)
+    },
+
+    async deleteSnapshot(id) {
+      snapshots.delete(id)
+    },
+
+    async listOperations(sessionId) {
+      return operations.filter(operation => operation.sessionId === sessionId)
+    },
+
+    async appendOperation(operation) {
+      const index = operations.findIndex(existing => existing.id === operation.id)
+      if (index === -1) {
+        operations.push(operation)
+      } else {
+        operations[index] = operation
+      }
+    }
+  }
+}
@@ -0,0 +1,328 @@
+import { type BoardOperation, type BoardSession, type BoardStorage, type StoredElement, type StoredElementChanges, boardStorage } from './boardStorage'
+import { createIndexedDbStorage } from './indexedDbStorage'
+import { type Outbox, type OutboxEntry, createOutbox } from './outbox'
+
+export type SyncState = 'saved' | 'saving' | 'offline'
+
+export interface SyncStatus {
+  state: SyncState
+  // Element changes not yet on the backend
+  pending: number
+}
+
+export interface OfflineSync {
+  getStatus(): SyncStatus
+  subscribe(listener: () => void): () => void
+  // From the backend when it can be reached, otherwise the local copy
+  loadSession(id: string): Promise<BoardSession | null>
+  loadElements(sessionId: string): Promise<StoredElement[]>
+  // Applies changes to the local copy and queues them for the backend, or
+  // writes them to the backend directly if there can be no local copy
+  writeElements(sessionId: string, changes: StoredElementChanges): Promise<void>
+  // Queues a replay log entry the same way, sent after the changes before it
+  appendOperation(operation: BoardOperation): Promise<void>
+  // The backend's replay log with queued entries after it
+  listOperations(sessionId: string): Promise<BoardOperation[]>
+  // Sends queued changes now; resolves once the outbox is empty or a send failed
+  sync(): Promise<void>
+  // Drops the local copy and queued changes of a deleted session
+  forget(sessionId: string): Promise<void>
+}
+
+const INITIAL_BACKOFF = 1000
+const MAX_BACKOFF = 30000
+
+function isOnline() {
+  return typeof navigator === 'undefined' || navigator.onLine
+}
+
+function groupBySession(entries: OutboxEntry[]) {
+  const groups = new Map<string, OutboxEntry[]>()
+  entries.forEach(entry => {
+    const group = groups.get(entry.sessionId)
+    if (group) {
+      group.push(entry)
+    } else {
+      groups.set(entry.sessionId, [entry])
+    }
+  })
+  return groups
+}
+
+function toChanges(entries: OutboxEntry[]): StoredElementChanges {
+  return {
+    upserts: entries.flatMap(entry => entry.data === null ? [] : [{ id: entry.elementId, data: entry.data }]),
+    deletes: entries.filter(entry => entry.data === null).map(entry => entry.elementId)
+  }
+}
+
+// Elements as the backend has them, with queued changes laid on top
+function applyEntries(elements: StoredElement[], entries: OutboxEntry[]): StoredElement[] {
+  const byId = new Map(elements.map(element => [element.id, element.data]))
+  entries.forEach(entry => {
+    if (entry.data === null) {
+      byId.delete(entry.elementId)
+    } else {
+      byId.set(entry.elementId, entry.data)
+    }
+  })
+  return Array.from(byId, ([id, data]) => ({ id, data }))
+}
+
+// Offline-first element storage: edits land in a local IndexedDB copy and a
+// durable outbox first, and the outbox is replayed to `remote` in the
+// background, backing off while the backend can't be reached. Where
+// IndexedDB can't be used, edits are written straight to `remote` instead.
+export function createOfflineSync(remote: BoardStorage, local: BoardStorage, outbox: Outbox): OfflineSync {
+  let status: SyncStatus = { state: 'saved', pending: 0 }
+  const listeners = new Set<() => void>()
+  // False from a failed send until the next one succeeds
+  let reachable = true
+  // Set once the local copy or outbox fails, e.g. in private browsing or
+  // over quota; from then on nothing is kept locally
+  let degraded = false
+  let attempt = 0
+  let retryTimer: ReturnType<typeof setTimeout> | undefined
+  let syncing: Promise<void> | null = null
+  let syncAgain = false
+  // Changes to the local copy, one at a time, so replacing the copy never
+  // interleaves with an edit being written to it
+  let localChanges: Promise<unknown> = Promise.resolve()
+
+  const changeLocally = <T>(change: () => Promise<T>): Promise<T> => {
+    const result = localChanges.then(change)
+    localChanges = result.catch(() => {})
+    return result
+  }
+
+  const degrade = (error: unknown) => {
+    if (!degraded) console.error('Local storage unavailable, saving directly to the backend:', error)
+    degraded = true
+  }
+
+  const countPending = async () => {
+    if (degraded) return 0
+    try {
+      return await outbox.count()
+    } catch (error) {
+      degrade(error)
+      return 0
+    }
+  }
+
+  const refreshStatus = async () => {
+    const pending = await countPending()
+    const state: SyncState = !isOnline() || !reachable ? 'offline' : pending > 0 ? 'saving' : 'saved'
+    if (state !== status.state || pending !== status.pending) {
+      status = { state, pending }
+      listeners.forEach(listener => listener())
+    }
+  }
+
+  // Replaces the local copy of a session's elements, keeping their order.
+  // Only call it through changeLocally.
+  const replaceLocalElements = async (sessionId: string, elements: StoredElement[]) => {
+    const existing = await local.listElements(sessionId)
+    await local.writeElements(sessionId, { upserts: [], deletes: existing.map(element => element.id) })
+    await local.writeElements(sessionId, { upserts: elements, deletes: [] })
+  }
+
+  const cacheSession = async (session: BoardSession) => {
+    if (await local.getSession(session.id)) {
+      await local.updateSession(session.id, { name: session.name, updatedAt: session.updatedAt })
+    } else {
+      await local.createSession(session)
+    }
+  }
+
+  const drain = async () => {
+    for (;;) {
+      let entries: OutboxEntry[]
+      let operations: BoardOperation[]
+      try {
+        entries = degraded ? [] : await outbox.list()
+        operations = degraded ? [] : await outbox.listOperations()
+      } catch (error) {
+        degrade(error)
+        break
+      }
+      if ((entries.length === 0 && operations.length === 0) || !isOnline()) break
+
+      try {
+        for (const [sessionId, sessionEntries] of groupBySession(entries)) {
+          await remote.writeElements(sessionId, toChanges(sessionEntries))
+          await remote.updateSession(sessionId, { updatedAt: new Date().toISOString() })
+          await outbox.remove(sessionEntries)
+        }
+        // Log entries go after the changes they record
+        for (const operation of operations) {
+          await remote.appendOperation(operation)
+          await outbox.removeOperations([operation])
+        }
+        reachable = true
+        attempt = 0
+      } catch (error) {
+        reachable = false
+        attempt++
+        console.error(`Failed to sync changes (attempt ${attempt}):`, error)
+        retryTimer = setTimeout(() => {
+          retryTimer = undefined
+          sync()
+        }, Math.min(MAX_BACKOFF, INITIAL_BACKOFF * 2 ** (attempt - 1)))
+        break
+      }
+      await refreshStatus()
+    }
+    await refreshStatus()
+  }
+
+  // Declared as a function so the retry timer above can call it. Changes
+  // queued while a sync runs are picked up by one more pass afterwards.
+  function sync(): Promise<void> {
+    if (syncing) {
+      syncAgain = true
+      return syncing
+    }
+
+    clearTimeout(retryTimer)
+    retryTimer = undefined
+    syncing = drain().finally(() => {
+      syncing = null
+      const again = syncAgain && retryTimer === undefined
+      syncAgain = false
+      if (again) sync()
+    })
+    return syncing
+  }
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => {
+      sync()
+    })
+    window.addEventListener('offline', () => {
+      refreshStatus()
+    })
+  }
+
+  return {
+    getStatus: () => status,
+
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+
+    async loadSession(id) {
+      try {
+        const session = await remote.getSession(id)
+        if (session && !degraded) await cacheSession(session).catch(degrade)
+        return session
+      } catch (error) {
+        const cached = degraded ? null : await local.getSession(id).catch(() => null)
+        if (!cached) throw error
+        return cached
+      }
+    },
+
+    async loadElements(sessionId) {
+      let elements: StoredElement[]
+      try {
+        elements = await remote.listElements(sessionId)
+      } catch (error) {
+        // Only fall back to a copy that was actually made
+        const cached = degraded ? null : await local.getSession(sessionId).catch(() => null)
+        if (!cached) throw error
+        return local.listElements(sessionId)
+      }
+
+      if (degraded) return elements
+      try {
+        // Queued changes are read in the same turn, so edits written before
+        // are laid on top and edits written after land on the new copy
+        await changeLocally(async () => {
+          elements = applyEntries(elements, await outbox.list(sessionId))
+          await replaceLocalElements(sessionId, elements)
+        })
+      } catch (error) {
+        degrade(error)
+      }
+      return elements
+    },
+
+    async writeElements(sessionId, changes) {
+      if (!degraded) {
+        try {
+          await changeLocally(async () => {
+            await local.writeElements(sessionId, changes)
+            await outbox.add(sessionId, changes)
+          })
+        } catch (error) {
+          degrade(error)
+        }
+      }
+
+      if (degraded) {
+        // Rejects like any other failed save, for the caller to retry
+        try {
+          await remote.writeElements(sessionId, changes)
+          await remote.updateSession(sessionId, { updatedAt: new Date().toISOString() })
+          reachable = true
+        } catch (error) {
+          reachable = false
+          throw error
+        } finally {
+          await refreshStatus()
+        }
+        return
+      }
+
+      await refreshStatus()
+      // While backing off, the retry timer sends these too
+      if (retryTimer === undefined) sync()
+    },
+
+    async appendOperation(operation) {
+      if (!degraded) {
+        try {
+          await outbox.addOperation(operation)
+        } catch (error) {
+          degrade(error)
+        }
+      }
+
+      if (degraded) {
+        await remote.appendOperation(operation)
+        return
+      }
+      if (retryTimer === undefined) sync()
+    },
+
+    async listOperations(sessionId) {
+      const queued = degraded ? [] : await outbox.listOperations(sessionId).catch(() => [])
+      const queuedIds = new Set(queued.map(operation => operation.id))
+      const stored = await remote.listOperations(sessionId)
+      return [...stored.filter(operation => !queuedIds.has(operation.id)), ...queued]
+    },
+
+    sync,
+
+    async forget(sessionId) {
+      if (!degraded) {
+        try {
+          await changeLocally(async () => {
+            await outbox.clear(sessionId)
+            await local.deleteSession(sessionId)
+          })
+        } catch (error) {
+          degrade(error)
+        }
+      }
+      await refreshStatus()
+    }
+  }
+}
+
+// Kept apart from the configured storage so it still works if that is IndexedDB too
+export const offlineSync = createOfflineSync(boardStorage, createIndexedDbStorage('whiteboard-offline'), createOutbox())
@@ -0,0 +1,188 @@
+import { z } from 'zod'
+import type { WhiteboardElement } from '../types/whiteboard'
+import { ElementFieldsSchema, parseElement } from './elementSchema'
+import { isValidIndex } from './fractionalIndex'
+import type { ElementChanges } from './saveQueue'
+
+// When an operation was made: a Lamport clock, with the client id breaking
+// ties between operations made at the same time on different clients
+export interface Stamp {
+  clock: number
+  clientId: string
+}
+
+// Everything about an element except its id and each user's own selection
+export type ElementProperties = Partial<Omit<WhiteboardElement, 'id' | 'selected'>>
+export type ElementProperty = keyof ElementProperties
+
+// One change to one element. Drawing order travels as the `position`
+// property, so moving an element is an update like any other.
+export type ElementOperation = Stamp & { id: string } & (
+  | { type: 'add'; element: WhiteboardElement }
+  | { type: 'update'; properties: ElementProperties; unset: ElementProperty[] }
+  | { type: 'delete' }
+)
+
+// A last-writer-wins value: whichever write has the newest stamp
+export interface Register<T> {
+  value: T
+  stamp: Stamp
+}
+
+// Registers of one element changed since some clock, for catching up a
+// client that missed operations. An unset property has no value.
+export interface ElementDelta {
+  id: string
+  exists?: Register<boolean>
+  // Stamp of the newest add, which cleared properties it didn't mention
+  added?: Stamp
+  properties: ({ key: ElementProperty } & Register<unknown>)[]
+}
+
+// Newest clock seen from each client, by client id. A client's clock only
+// ever grows, so this tells which of its writes another client already has
+// without comparing clocks of different clients.
+export type VersionVector = Record<string, number>
+
+export interface LogicalClock {
+  clientId: string
+  // Stamp for a new local operation
+  tick(): Stamp
+  // Moves past a clock seen on another client's operation
+  observe(clock: number): void
+  // Newest clock issued or seen
+  now(): number
+}
+
+// A Lamport clock that never runs behind the wall clock. Stamps aren't
+// stored, so a client that reloads must still outrank what it wrote before.
+export function createLogicalClock(clientId = `client_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`): LogicalClock {
+  let time = 0
+  return {
+    clientId,
+    tick() {
+      time = Math.max(time + 1, Date.now())
+      return { clock: time, clientId }
+    },
+    observe(clock) {
+      time = Math.max(time, clock)
+    },
+    now() {
+      return time
+    }
+  }
+}
+
+export function compareStamps(a: Stamp, b: Stamp) {
+  if (a.clock !== b.clock) return a.clock - b.clock
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0
+}
+
+// Rows to write once `operations` are applied to `elements`
+export function getStoredChanges(operations: ElementOperation[], elements: WhiteboardElement[]): ElementChanges {
+  const touched = new Set(operations.map(operation => operation.id))
+  const upserts = elements.filter(element => touched.has(element.id))
+  const present = new Set(upserts.map(element => element.id))
+  return { upserts, deletes: Array.from(touched).filter(id => !present.has(id)) }
+}
+
+const PropertiesSchema = ElementFieldsSchema.omit({ id: true, selected: true }).partial()
+
+// Required fields and the position can be changed but never removed
+function canUnset(key: string): key is ElementProperty {
+  if (key === 'id' || key === 'selected' || key === 'position') return false
+  const field = ElementFieldsSchema.shape[key as keyof typeof ElementFieldsSchema.shape]
+  return !!field && field.safeParse(undefined).success
+}
+
+const StampSchema = z.object({
+  clock: z.number().int().nonnegative(),
+  clientId: z.string().min(1)
+})
+
+const RemoteOperationSchema = z.intersection(
+  StampSchema.extend({ id: z.string().min(1) }),
+  z.discriminatedUnion('type', [
+    z.object({ type: z.literal('add'), element: z.unknown() }),
+    z.object({ type: z.literal('update'), properties: PropertiesSchema, unset: z.array(z.string()) }),
+    z.object({ type: z.literal('delete') })
+  ])
+)
+
+// Operations from another client's broadcast. Each operation stands on its
+// own, so invalid ones are logged and skipped rather than failing the batch.
+export function parseRemoteOperations(operations: unknown, version?: number): ElementOperation[] {
+  if (!Array.isArray(operations)) {
+    console.error('Rejected remote operations: operations is not a list', operations)
+    return []
+  }
+
+  const skip = (index: number, reason: string, data: unknown) => {
+    console.error(`Skipping remote operation ${index} (${reason}):`, data)
+    return []
+  }
+
+  return operations.flatMap((data, index): ElementOperation[] => {
+    const parsed = RemoteOperationSchema.safeParse(data)
+    if (!parsed.success) return skip(index, parsed.error.issues[0].message, data)
+
+    const operation = parsed.data
+    const stamp = { id: operation.id, clock: operation.clock, clientId: operation.clientId }
+    switch (operation.type) {
+      case 'add': {
+        const result = parseElement(operation.element, version)
+        if (!result.success) return skip(index, result.error, data)
+        const { selected: _selected, ...element } = result.element
+        if (element.id !== operation.id || !isValidIndex(element.position)) {
+          return skip(index, 'element does not match the operation', data)
+        }
+        return [{ ...stamp, type: 'add', element }]
+      }
+
+      case 'update': {
+        const { properties, unset } = operation
+        if (properties.position !== undefined && !isValidIndex(properties.position)) {
+          return skip(index, 'invalid position', data)
+        }
+        if (!unset.every(canUnset)) return skip(index, 'cannot remove a required property', data)
+        return [{ ...stamp, type: 'update', properties, unset }]
+      }
+
+      case 'delete':
+        return [{ ...stamp, type: 'delete' }]
+    }
+  })
+}
+
+const RemoteDeltaSchema = z.array(z.object({
+  id: z.string().min(1),
+  exists: z.object({ value: z.boolean(), stamp: StampSchema }).optional(),
+  added: StampSchema.optional(),
+  properties: z.array(z.object({ key: z.string(), value: z.unknown(), stamp: StampSchema }))
+}))
+
+function isValidProperty(key: string, value: unknown) {
+  if (value === undefined) return canUnset(key)
+  if (key === 'position') return isValidIndex(value)
+  const field = PropertiesSchema.shape[key as keyof typeof PropertiesSchema.shape]
+  return !!field && field.safeParse(value).success
+}
+
+// Element deltas from another client's resync. Values are always in the
+// current schema; invalid properties are logged and skipped.
+export function parseRemoteDelta(delta: unknown): ElementDelta[] {
+  const parsed = RemoteDeltaSchema.safeParse(delta)
+  if (!parsed.success) {
+    console.error(`Rejected remote resync (${parsed.error.issues[0].message}):`, delta)
+    return []
+  }
+
+  return parsed.data.map(element => ({
+    ...element,
+    properties: element.properties.filter(property => {
+      if (isValidProperty(property.key, property.value)) return true
+      console.error(`Skipping invalid property ${property.key} of ${element.id} in remote resync:`, property.value)
+      return false
+    }) as ElementDelta['properties']
+  }))
+}
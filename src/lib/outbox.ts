@@ -0,0 +1,134 @@
+import type { BoardOperation, StoredElementChanges } from './boardStorage'
+import { promisify, sessionKeyRange, transactionDone } from './idb'
+
+const DATABASE_NAME = 'whiteboard-outbox'
+const DATABASE_VERSION = 2
+const STORE = 'changes'
+const OPERATIONS_STORE = 'operations'
+
+// The latest change to one element that the backend has not seen yet
+export interface OutboxEntry {
+  sessionId: string
+  elementId: string
+  // Serialized element, or null when it was deleted
+  data: string | null
+  // Increases with every change, so entries replay in the order they were made
+  seq: number
+}
+
+export interface Outbox {
+  add(sessionId: string, changes: StoredElementChanges): Promise<void>
+  // Oldest first, for one session or all of them
+  list(sessionId?: string): Promise<OutboxEntry[]>
+  count(): Promise<number>
+  // Drops entries once they are synced, unless the element changed again since
+  remove(entries: OutboxEntry[]): Promise<void>
+  // Replay log entries the backend has not seen yet, which never collapse
+  addOperation(operation: BoardOperation): Promise<void>
+  // Oldest first, for one session or all of them
+  listOperations(sessionId?: string): Promise<BoardOperation[]>
+  removeOperations(operations: BoardOperation[]): Promise<void>
+  // Drops both element changes and log entries
+  clear(sessionId: string): Promise<void>
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  const request = indexedDB.open(name, DATABASE_VERSION)
+  request.onupgradeneeded = () => {
+    const database = request.result
+    if (!database.objectStoreNames.contains(STORE)) {
+      database.createObjectStore(STORE, { keyPath: ['sessionId', 'elementId'] })
+    }
+    if (!database.objectStoreNames.contains(OPERATIONS_STORE)) {
+      database.createObjectStore(OPERATIONS_STORE, { keyPath: ['sessionId', 'id'] })
+    }
+  }
+  return promisify(request)
+}
+
+// Pending element writes and replay log entries kept in IndexedDB so they
+// survive reloads and going offline. Changes to the same element collapse
+// into one entry.
+export function createOutbox(name = DATABASE_NAME): Outbox {
+  let database: Promise<IDBDatabase> | null = null
+  // Time based so entries from earlier page loads still sort first
+  let lastSeq = 0
+  const nextSeq = () => (lastSeq = Math.max(Date.now(), lastSeq + 1))
+
+  const transaction = async (mode: IDBTransactionMode, stores: string | string[] = STORE) => {
+    database ??= openDatabase(name)
+    return (await database).transaction(stores, mode)
+  }
+
+  return {
+    async add(sessionId, { upserts, deletes }) {
+      const tx = await transaction('readwrite')
+      const store = tx.objectStore(STORE)
+      upserts.forEach(element => {
+        store.put({ sessionId, elementId: element.id, data: element.data, seq: nextSeq() } satisfies OutboxEntry)
+      })
+      deletes.forEach(elementId => {
+        store.put({ sessionId, elementId, data: null, seq: nextSeq() } satisfies OutboxEntry)
+      })
+      await transactionDone(tx)
+    },
+
+    async list(sessionId) {
+      const tx = await transaction('readonly')
+      const store = tx.objectStore(STORE)
+      const entries = await promisify<OutboxEntry[]>(
+        sessionId ? store.getAll(sessionKeyRange(sessionId)) : store.getAll()
+      )
+      return entries.sort((a, b) => a.seq - b.seq)
+    },
+
+    async count() {
+      const tx = await transaction('readonly')
+      return promisify(tx.objectStore(STORE).count())
+    },
+
+    async remove(entries) {
+      const tx = await transaction('readwrite')
+      const store = tx.objectStore(STORE)
+      entries.forEach(entry => {
+        const key = [entry.sessionId, entry.elementId]
+        const request = store.get(key)
+        request.onsuccess = () => {
+          if ((request.result as OutboxEntry | undefined)?.seq === entry.seq) {
+            store.delete(key)
+          }
+        }
+      })
+      await transactionDone(tx)
+    },
+
+    async addOperation(operation) {
+      const tx = await transaction('readwrite', OPERATIONS_STORE)
+      tx.objectStore(OPERATIONS_STORE).put(operation)
+      await transactionDone(tx)
+    },
+
+    async listOperations(sessionId) {
+      const tx = await transaction('readonly', OPERATIONS_STORE)
+      const store = tx.objectStore(OPERATIONS_STORE)
+      const operations = await promisify<BoardOperation[]>(
+        sessionId ? store.getAll(sessionKeyRange(sessionId)) : store.getAll()
+      )
+      return operations.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    },
+
+    async removeOperations(operations) {
+      const tx = await transaction('readwrite', OPERATIONS_STORE)
+      const store = tx.objectStore(OPERATIONS_STORE)
+      operations.forEach(operation => store.delete([operation.sessionId, operation.id]))
+      await transactionDone(tx)
+    },
+
+    async clear(sessionId) {
+      const tx = await transaction('readwrite', [STORE, OPERATIONS_STORE])
+      tx.objectStore(STORE).delete(sessionKeyRange(sessionId))
+      tx.objectStore(OPERATIONS_STORE).delete(sessionKeyRange(sessionId))
+      await transactionDone(tx)
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import type { Point } from '../types/whiteboard'
+import { PDF_FONT_BOLD, PDF_FONT_REGULAR, measurePdfText, pdfNumber as n, pdfString } from './pdfDocument'
+import type { PathCommand, RenderBackend, ShapeStyle } from './renderer'
+
+export interface PdfBackend extends RenderBackend {
+  // Operators drawn so far, for a page's content stream
+  toContent(): string
+}
+
+// Control point distance for a quarter ellipse drawn as one cubic curve
+const KAPPA = 0.5522847498
+
+let colorContext: CanvasRenderingContext2D | null | undefined
+
+// Any CSS color as 0-1 RGB components, or null when fully transparent.
+// Partial alpha is dropped. The browser normalizes named and functional
+// colors; hex parsing covers the rest.
+export function parseColor(color: string): [number, number, number] | null {
+  let normalized = color.trim()
+  if (normalized === 'transparent') return null
+
+  if (colorContext === undefined) {
+    colorContext = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d')
+  }
+  if (colorContext) {
+    colorContext.fillStyle = '#000000'
+    colorContext.fillStyle = normalized
+    normalized = String(colorContext.fillStyle)
+  }
+
+  const hex = normalized.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i)
+  if (hex) {
+    const digits = hex[1].length <= 4 ? hex[1].split('').map(d => d + d).join('') : hex[1]
+    if (digits.slice(6) === '00') return null
+    return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16) / 255) as [number, number, number]
+  }
+
+  const rgb = normalized.match(/^rgba?\(([^)]+)\)$/i)
+  if (rgb) {
+    const [r, g, b, alpha] = rgb[1].split(/[\s,/]+/).filter(Boolean).map(parseFloat)
+    if (alpha === 0) return null
+    return [r / 255, g / 255, b / 255]
+  }
+
+  return [0, 0, 0]
+}
+
+function colorOperands(color: string | undefined) {
+  const rgb = color ? parseColor(color) : null
+  return rgb && rgb.map(n).join(' ')
+}
+
+// Renders into PDF content operators. Expects the page's transform to map
+// board coordinates with y pointing down, as on screen.
+export function createPdfBackend(): PdfBackend {
+  const ops: string[] = []
+
+  const tracePath = (commands: PathCommand[]) => {
+    let current: Point = { x: 0, y: 0 }
+    let start: Point = current
+
+    commands.forEach(command => {
+      switch (command.type) {
+        case 'move':
+          ops.push(`${n(command.point.x)} ${n(command.point.y)} m`)
+          current = start = command.point
+          break
+        case 'line':
+          ops.push(`${n(command.point.x)} ${n(command.point.y)} l`)
+          current = command.point
+          break
+        case 'quadratic': {
+          // PDF only has cubic curves; raise the degree
+          const { control, point } = command
+          const c1 = { x: current.x + (2 / 3) * (control.x - current.x), y: current.y + (2 / 3) * (control.y - current.y) }
+          const c2 = { x: point.x + (2 / 3) * (control.x - point.x), y: point.y + (2 / 3) * (control.y - point.y) }
+          ops.push(`${n(c1.x)} ${n(c1.y)} ${n(c2.x)} ${n(c2.y)} ${n(point.x)} ${n(point.y)} c`)
+          current = point
+          break
+        }
+        case 'close':
+          ops.push('h')
+          current = start
+          break
+      }
+    })
+  }
+
+  // Paints the current path: fill, stroke, both or neither
+  const paint = (style: ShapeStyle) => {
+    const fill = colorOperands(style.fill)
+    const stroke = colorOperands(style.stroke)
+    if (fill) {
+      ops.push(`${fill} rg`)
+    }
+    if (stroke) {
+      ops.push(
+        `${stroke} RG`,
+        `${n(style.strokeWidth ?? 1)} w`,
+        '1 J 1 j',
+        `[${(style.dash ?? []).map(n).join(' ')}] 0 d`
+      )
+    }
+    ops.push(fill && stroke ? 'B' : fill ? 'f' : stroke ? 'S' : 'n')
+  }
+
+  return {
+    beginGroup(angle, center) {
+      const cos = Math.cos(angle)
+      const sin = Math.sin(angle)
+      ops.push(
+        'q',
+        `1 0 0 1 ${n(center.x)} ${n(center.y)} cm`,
+        `${n(cos)} ${n(sin)} ${n(-sin)} ${n(cos)} 0 0 cm`,
+        `1 0 0 1 ${n(-center.x)} ${n(-center.y)} cm`
+      )
+    },
+
+    endGroup() {
+      ops.push('Q')
+    },
+
+    path(commands, style) {
+      if (commands.length === 0) return
+      tracePath(commands)
+      paint(style)
+    },
+
+    rect(bounds, style) {
+      ops.push(`${n(bounds.x)} ${n(bounds.y)} ${n(bounds.width)} ${n(bounds.height)} re`)
+      paint(style)
+    },
+
+    ellipse(center, radiusX, radiusY, style) {
+      const rx = Math.abs(radiusX)
+      const ry = Math.abs(radiusY)
+      const kx = rx * KAPPA
+      const ky = ry * KAPPA
+      const { x, y } = center
+      ops.push(
+        `${n(x + rx)} ${n(y)} m`,
+        `${n(x + rx)} ${n(y + ky)} ${n(x + kx)} ${n(y + ry)} ${n(x)} ${n(y + ry)} c`,
+        `${n(x - kx)} ${n(y + ry)} ${n(x - rx)} ${n(y + ky)} ${n(x - rx)} ${n(y)} c`,
+        `${n(x - rx)} ${n(y - ky)} ${n(x - kx)} ${n(y - ry)} ${n(x)} ${n(y - ry)} c`,
+        `${n(x + kx)} ${n(y - ry)} ${n(x + rx)} ${n(y - ky)} ${n(x + rx)} ${n(y)} c`,
+        'h'
+      )
+      paint(style)
+    },
+
+    // The text matrix flips y back so glyphs stay upright on the flipped page
+    text(text, x, y, style) {
+      const color = colorOperands(style.color)
+      if (!text || !color) return
+      ops.push(
+        'BT',
+        `/${style.bold ? PDF_FONT_BOLD : PDF_FONT_REGULAR} ${n(style.fontSize)} Tf`,
+        `${color} rg`,
+        `1 0 0 -1 ${n(x)} ${n(y)} Tm`,
+        `${pdfString(text)} Tj`,
+        'ET'
+      )
+    },
+
+    measureText(text, style) {
+      return measurePdfText(text, style.fontSize, style.bold)
+    },
+
+    toContent() {
+      return ops.join('\n')
+    }
+  }
+}
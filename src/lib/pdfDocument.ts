@@ -0,0 +1,110 @@
+// Minimal PDF 1.4 writer: uncompressed content streams drawn with the
+// standard Helvetica fonts, which every reader has built in.
+
+export interface PdfPage {
+  // Page size in points (1/72 inch)
+  width: number
+  height: number
+  // Content stream operators
+  content: string
+}
+
+// Resource names the content streams refer to
+export const PDF_FONT_REGULAR = 'F1'
+export const PDF_FONT_BOLD = 'F2'
+
+// Non-Latin-1 characters that WinAnsiEncoding does have, by code point
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80, 0x2026: 0x85, 0x2018: 0x91, 0x2019: 0x92, 0x201c: 0x93,
+  0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97, 0x2122: 0x99
+}
+
+// Helvetica advance widths for printable ASCII, in 1/1000 em (from the standard AFM)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+
+// Width of `text` set in Helvetica at `fontSize`. Bold runs roughly 7% wider.
+export function measurePdfText(text: string, fontSize: number, bold = false) {
+  let width = 0
+  for (const char of text) {
+    const code = char.charCodeAt(0)
+    width += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556
+  }
+  return width * fontSize / 1000 * (bold ? 1.07 : 1)
+}
+
+// Literal string operand in WinAnsiEncoding; anything it lacks becomes '?'
+export function pdfString(text: string) {
+  let encoded = ''
+  for (const char of text) {
+    const code = char.codePointAt(0)!
+    const byte = code < 0x80 || (code >= 0xa0 && code <= 0xff) ? code : WIN_ANSI_EXTRAS[code]
+    if (byte === undefined) {
+      encoded += '?'
+    } else if (char === '\\' || char === '(' || char === ')') {
+      encoded += `\\${char}`
+    } else {
+      encoded += String.fromCharCode(byte)
+    }
+  }
+  return `(${encoded})`
+}
+
+// Number operand, trimmed to three decimals
+export function pdfNumber(value: number) {
+  return String(Math.round(value * 1000) / 1000)
+}
+
+// Bytes of a complete PDF file with one page per entry
+export function buildPdf(pages: PdfPage[], title = 'Whiteboard'): Uint8Array {
+  const objects: string[] = []
+  const addObject = (body: string) => {
+    objects.push(body)
+    return objects.length
+  }
+
+  const catalogId = addObject('')
+  const pagesId = addObject('')
+  const regularFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+  const boldFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+  const infoId = addObject(`<< /Title ${pdfString(title)} /Producer (Whiteboard) >>`)
+
+  const pageIds = pages.map(page => {
+    const contentId = addObject(`<< /Length ${page.content.length} >>\nstream\n${page.content}\nendstream`)
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${pdfNumber(page.width)} ${pdfNumber(page.height)}] ` +
+      `/Resources << /Font << /${PDF_FONT_REGULAR} ${regularFontId} 0 R /${PDF_FONT_BOLD} ${boldFontId} 0 R >> >> ` +
+      `/Contents ${contentId} 0 R >>`
+    )
+  })
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n'
+  const offsets = objects.map((body, index) => {
+    const offset = output.length
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`
+    return offset
+  })
+
+  const xrefOffset = output.length
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  offsets.forEach(offset => {
+    output += `${String(offset).padStart(10, '0')} 00000 n \n`
+  })
+  output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  const bytes = new Uint8Array(output.length)
+  for (let i = 0; i < output.length; i++) {
+    bytes[i] = output.charCodeAt(i) & 0xff
+  }
+  return bytes
+}
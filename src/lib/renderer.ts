@@ -0,0 +1,343 @@
+import type { Bounds, Point, WhiteboardElement } from '../types/whiteboard'
+import {
+  getArrowheadShape,
+  getConnectorEndpoints,
+  getConnectorPolyline,
+  getControlPoint,
+  type ArrowheadShape
+} from './connectors'
+import { TEXT_LINE_HEIGHT, boundsOfPoints, getBoundsCenter, getElementBounds, measureTextBounds, measureTextInk } from './geometry'
+
+export interface ShapeStyle {
+  stroke?: string
+  strokeWidth?: number
+  fill?: string
+  dash?: number[]
+}
+
+export interface TextStyle {
+  fontSize: number
+  color: string
+  bold?: boolean
+}
+
+export type PathCommand =
+  | { type: 'move'; point: Point }
+  | { type: 'line'; point: Point }
+  | { type: 'quadratic'; control: Point; point: Point }
+  | { type: 'close' }
+
+// Drawing surface the renderer paints through. Coordinates are board
+// coordinates; the backend owns any viewport or export transform.
+export interface RenderBackend {
+  // Everything until the matching endGroup is rotated by `angle` radians around `center`
+  beginGroup(angle: number, center: Point): void
+  endGroup(): void
+  path(commands: PathCommand[], style: ShapeStyle): void
+  rect(bounds: Bounds, style: ShapeStyle): void
+  ellipse(center: Point, radiusX: number, radiusY: number, style: ShapeStyle): void
+  // Single line of text with its baseline at y
+  text(text: string, x: number, y: number, style: TextStyle): void
+  measureText(text: string, style: TextStyle): number
+  // Rich HTML laid out inside `bounds`. Backends that cannot show HTML
+  // leave this out and the renderer draws the plain-text fallback itself.
+  html?(bounds: Bounds, html: string, style: TextStyle, renderFallback: () => void): void
+}
+
+const GRID_SIZE = 20
+const GRID_COLOR = '#f0f0f0'
+
+const STICKY_NOTE_FILL = '#fef08a'
+const NOTE_TEXT_COLOR = '#374151'
+const NOTE_PADDING = 8
+
+const RICH_NOTE_HEADER_HEIGHT = 32
+const RICH_NOTE_PADDING = 10
+const RICH_NOTE_FONT_SIZE = 13
+const RICH_NOTE_LINE_HEIGHT = 18
+
+export function polylineCommands(points: Point[], closed = false): PathCommand[] {
+  const commands: PathCommand[] = points.map((point, index) => (
+    index === 0 ? { type: 'move', point } : { type: 'line', point }
+  ))
+  return closed ? [...commands, { type: 'close' }] : commands
+}
+
+// Freehand stroke smoothed with quadratic curves through segment midpoints
+export function smoothPathCommands(points: Point[]): PathCommand[] {
+  if (points.length < 3) return polylineCommands(points)
+
+  const commands: PathCommand[] = [{ type: 'move', point: points[0] }]
+  for (let i = 1; i < points.length - 1; i++) {
+    const next = points[i + 1]
+    commands.push({
+      type: 'quadratic',
+      control: points[i],
+      point: { x: (points[i].x + next.x) / 2, y: (points[i].y + next.y) / 2 }
+    })
+  }
+  commands.push({ type: 'line', point: points[points.length - 1] })
+  return commands
+}
+
+// Text content of a rich note's HTML, one paragraph per line
+export function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim()
+}
+
+// Breaks text into lines no wider than `maxWidth`, keeping explicit line
+// breaks. A single word wider than the limit gets a line of its own.
+export function wrapText(
+  backend: Pick<RenderBackend, 'measureText'>,
+  text: string,
+  style: TextStyle,
+  maxWidth: number
+): string[] {
+  return text.split('\n').flatMap(paragraph => {
+    const lines: string[] = []
+    let line = ''
+
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word
+      if (line && backend.measureText(candidate, style) > maxWidth) {
+        lines.push(line)
+        line = word
+      } else {
+        line = candidate
+      }
+    })
+
+    return [...lines, line]
+  })
+}
+
+function renderArrowhead(backend: RenderBackend, shape: ArrowheadShape | null, color: string, strokeWidth: number) {
+  if (!shape) return
+
+  switch (shape.kind) {
+    case 'polygon':
+      backend.path(polylineCommands(shape.points, true), { fill: color })
+      break
+    case 'polyline':
+      backend.path(polylineCommands(shape.points), { stroke: color, strokeWidth })
+      break
+    case 'circle':
+      backend.ellipse(shape.center, shape.radius, shape.radius, { fill: color })
+      break
+  }
+}
+
+function renderConnector(backend: RenderBackend, element: WhiteboardElement) {
+  const { start, end } = getConnectorEndpoints(element)
+  const style = { stroke: element.color, strokeWidth: element.strokeWidth }
+
+  if (element.routing === 'curved') {
+    const control = getControlPoint(element)
+    backend.path([{ type: 'move', point: start }, { type: 'quadratic', control, point: end }], style)
+  } else {
+    backend.path(polylineCommands(getConnectorPolyline(element)), style)
+  }
+
+  const size = Math.max(10, element.strokeWidth * 4)
+  renderArrowhead(backend, getArrowheadShape(element, 'start', size), element.color, element.strokeWidth)
+  renderArrowhead(backend, getArrowheadShape(element, 'end', size), element.color, element.strokeWidth)
+}
+
+// Lines of a sticky note's text and where each baseline starts. Long text
+// runs on below the note rather than being cut off.
+function layoutStickyNote(backend: Pick<RenderBackend, 'measureText'>, element: WhiteboardElement) {
+  const bounds = getElementBounds(element)
+  const style = { fontSize: element.strokeWidth * 3, color: NOTE_TEXT_COLOR }
+  const lineHeight = element.strokeWidth * 4
+  const lines = wrapText(backend, element.text || '', style, bounds.width - NOTE_PADDING * 2)
+  return {
+    style,
+    lines: lines.map((text, index) => ({ text, x: bounds.x + NOTE_PADDING, y: bounds.y + 20 + index * lineHeight }))
+  }
+}
+
+function renderStickyNote(backend: RenderBackend, element: WhiteboardElement) {
+  backend.rect(getElementBounds(element), {
+    fill: element.fill || STICKY_NOTE_FILL,
+    stroke: element.color,
+    strokeWidth: element.strokeWidth
+  })
+
+  if (!element.text) return
+
+  const { style, lines } = layoutStickyNote(backend, element)
+  lines.forEach(line => backend.text(line.text, line.x, line.y, style))
+}
+
+// Same measurements as the live canvas, without needing a backend
+const textMeasurer = {
+  measureText: (text: string, style: TextStyle) => measureTextBounds(text, style.fontSize, 0, 0).width
+}
+
+// Box the text of a text element or sticky note paints into, in the
+// element's unrotated frame. Glyphs and long notes can reach past the
+// element's bounds. Null for elements without text.
+export function getTextPaintBounds(element: WhiteboardElement): Bounds | null {
+  if (!element.text) return null
+
+  let lines: { text: string; x: number; y: number }[]
+  let fontSize: number
+  if (element.type === 'text') {
+    fontSize = element.strokeWidth * 4
+    lines = element.text.split('\n').map((text, index) => ({
+      text,
+      x: element.x,
+      y: element.y + index * fontSize * TEXT_LINE_HEIGHT
+    }))
+  } else if (element.type === 'sticky-note') {
+    const layout = layoutStickyNote(textMeasurer, element)
+    fontSize = layout.style.fontSize
+    lines = layout.lines
+  } else {
+    return null
+  }
+
+  return boundsOfPoints(lines.flatMap(line => {
+    const ink = measureTextInk(line.text, fontSize, line.x, line.y)
+    return [{ x: ink.x, y: ink.y }, { x: ink.x + ink.width, y: ink.y + ink.height }]
+  }))
+}
+
+// A card with a header, like the rich note editor, and the note's text
+// flattened to plain lines that stop at the bottom edge
+function renderRichNote(backend: RenderBackend, element: WhiteboardElement) {
+  const bounds = getElementBounds(element)
+  const note = element.richNote
+  const openComments = note?.comments.filter(comment => !comment.resolved).length ?? 0
+
+  backend.rect(bounds, { fill: '#ffffff', stroke: '#e5e7eb', strokeWidth: 1 })
+  backend.rect(
+    { x: bounds.x, y: bounds.y, width: bounds.width, height: Math.min(RICH_NOTE_HEADER_HEIGHT, bounds.height) },
+    { fill: '#f9fafb' }
+  )
+  backend.text(
+    openComments > 0 ? `Rich Text Note · ${openComments} comment${openComments === 1 ? '' : 's'}` : 'Rich Text Note',
+    bounds.x + RICH_NOTE_PADDING,
+    bounds.y + 20,
+    { fontSize: 12, color: '#111827', bold: true }
+  )
+
+  const html = note?.content ?? ''
+  const body = htmlToPlainText(html)
+  if (!body) return
+
+  const style = { fontSize: RICH_NOTE_FONT_SIZE, color: NOTE_TEXT_COLOR }
+  const top = bounds.y + RICH_NOTE_HEADER_HEIGHT + RICH_NOTE_PADDING
+  const maxLines = Math.floor((bounds.y + bounds.height - top) / RICH_NOTE_LINE_HEIGHT)
+
+  const renderPlainText = () => {
+    const lines = wrapText(backend, body, style, bounds.width - RICH_NOTE_PADDING * 2)
+    lines.slice(0, Math.max(0, maxLines)).forEach((line, index) => {
+      const truncated = index === maxLines - 1 && lines.length > maxLines
+      backend.text(
+        truncated ? `${line}…` : line,
+        bounds.x + RICH_NOTE_PADDING,
+        top + RICH_NOTE_FONT_SIZE + index * RICH_NOTE_LINE_HEIGHT,
+        style
+      )
+    })
+  }
+
+  if (backend.html) {
+    const area = {
+      x: bounds.x + RICH_NOTE_PADDING,
+      y: top,
+      width: bounds.width - RICH_NOTE_PADDING * 2,
+      height: bounds.y + bounds.height - top - RICH_NOTE_PADDING
+    }
+    backend.html(area, html, style, renderPlainText)
+  } else {
+    renderPlainText()
+  }
+}
+
+export function renderElement(backend: RenderBackend, element: WhiteboardElement) {
+  const style = { stroke: element.color, strokeWidth: element.strokeWidth, fill: element.fill }
+  const rotation = element.rotation || 0
+  if (rotation) {
+    backend.beginGroup(rotation, getBoundsCenter(getElementBounds(element)))
+  }
+
+  switch (element.type) {
+    case 'path':
+      if (element.points && element.points.length > 1) {
+        backend.path(smoothPathCommands(element.points), { stroke: element.color, strokeWidth: element.strokeWidth })
+      }
+      break
+
+    case 'rectangle':
+      backend.rect(getElementBounds(element), style)
+      break
+
+    case 'circle': {
+      const bounds = getElementBounds(element)
+      const radius = Math.min(bounds.width, bounds.height) / 2
+      backend.ellipse(getBoundsCenter(bounds), radius, radius, style)
+      break
+    }
+
+    case 'line':
+    case 'arrow':
+      renderConnector(backend, element)
+      break
+
+    case 'text': {
+      const textStyle = { fontSize: element.strokeWidth * 4, color: element.color }
+      const lines = (element.text || '').split('\n')
+      lines.forEach((line, index) => {
+        backend.text(line, element.x, element.y + index * textStyle.fontSize * TEXT_LINE_HEIGHT, textStyle)
+      })
+      break
+    }
+
+    case 'sticky-note':
+      renderStickyNote(backend, element)
+      break
+
+    case 'rich-note':
+      renderRichNote(backend, element)
+      break
+  }
+
+  if (rotation) {
+    backend.endGroup()
+  }
+}
+
+export function renderElements(backend: RenderBackend, elements: WhiteboardElement[]) {
+  elements.forEach(element => renderElement(backend, element))
+}
+
+// Background grid covering `area`, with lines `lineWidth` board units thick
+export function renderGrid(backend: RenderBackend, area: Bounds, lineWidth: number) {
+  const startX = Math.floor(area.x / GRID_SIZE) * GRID_SIZE
+  const startY = Math.floor(area.y / GRID_SIZE) * GRID_SIZE
+  const endX = area.x + area.width + GRID_SIZE
+  const endY = area.y + area.height + GRID_SIZE
+  const commands: PathCommand[] = []
+
+  for (let x = startX; x <= endX; x += GRID_SIZE) {
+    commands.push({ type: 'move', point: { x, y: startY } }, { type: 'line', point: { x, y: endY } })
+  }
+
+  for (let y = startY; y <= endY; y += GRID_SIZE) {
+    commands.push({ type: 'move', point: { x: startX, y } }, { type: 'line', point: { x: endX, y } })
+  }
+
+  backend.path(commands, { stroke: GRID_COLOR, strokeWidth: lineWidth })
+}
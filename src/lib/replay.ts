@@ -0,0 +1,130 @@
+import type { Bounds, WhiteboardElement } from '../types/whiteboard'
+import type { BoardOperation } from './boardStorage'
+import { parseStoredElements } from './elementSchema'
+import { sortByPosition } from './boardDocument'
+import { getPaintBounds } from './spatialIndex'
+
+// Replay time before the first operation, so the starting board shows
+const LEAD_IN = 500
+// Idle stretches longer than this are shortened, so a board edited over
+// several days still plays back in a sensible time
+const MAX_GAP = 2000
+// Replay time after the last operation
+const TAIL = 1000
+// Board states kept along the way, so seeking never replays the whole log
+const KEYFRAME_INTERVAL = 50
+
+export interface ReplayStep {
+  // When this operation happens in replay time, in milliseconds
+  time: number
+  // When it actually happened
+  createdAt: string
+  userId: string
+}
+
+export interface Replay {
+  // Replay time in milliseconds
+  duration: number
+  steps: ReplayStep[]
+  // Covers everything the replay ever shows; null if it shows nothing
+  area: Bounds | null
+  // Index of the last step applied at `time`, or -1 before the first
+  stepAt(time: number): number
+  // The board at `time`. The same array comes back until another step is applied.
+  elementsAt(time: number): WhiteboardElement[]
+}
+
+interface ParsedOperation {
+  upserts: WhiteboardElement[]
+  deletes: string[]
+}
+
+type BoardState = Map<string, WhiteboardElement>
+
+function applyOperation(state: BoardState, operation: ParsedOperation) {
+  operation.upserts.forEach(element => state.set(element.id, element))
+  operation.deletes.forEach(id => state.delete(id))
+}
+
+// Plays back a session's operation log. `current` is the board now: elements
+// the log never mentions were there before recording started, so they are
+// shown from the beginning.
+export function buildReplay(operations: BoardOperation[], current: WhiteboardElement[]): Replay {
+  const parsed: ParsedOperation[] = operations.map(operation => ({
+    upserts: parseStoredElements(operation.upserts.map(element => element.data)),
+    deletes: operation.deletes
+  }))
+
+  const logged = new Set(operations.flatMap(operation => [
+    ...operation.upserts.map(element => element.id),
+    ...operation.deletes
+  ]))
+  const initial: BoardState = new Map(current
+    .filter(element => !logged.has(element.id))
+    .map(element => [element.id, element.selected ? { ...element, selected: false } : element]))
+
+  const steps: ReplayStep[] = []
+  let time = LEAD_IN
+  operations.forEach((operation, index) => {
+    if (index > 0) {
+      const gap = Date.parse(operation.createdAt) - Date.parse(operations[index - 1].createdAt)
+      time += Math.min(MAX_GAP, Math.max(0, gap))
+    }
+    steps.push({ time, createdAt: operation.createdAt, userId: operation.userId })
+  })
+  const duration = (steps.length > 0 ? time : 0) + TAIL
+
+  // keyframes[k] is the board after the first k * KEYFRAME_INTERVAL operations
+  const keyframes: BoardState[] = [new Map(initial)]
+  const state = new Map(initial)
+  parsed.forEach((operation, index) => {
+    applyOperation(state, operation)
+    if ((index + 1) % KEYFRAME_INTERVAL === 0) {
+      keyframes.push(new Map(state))
+    }
+  })
+
+  const stepAt = (at: number) => {
+    let low = 0
+    let high = steps.length - 1
+    let found = -1
+    while (low <= high) {
+      const middle = (low + high) >> 1
+      if (steps[middle].time <= at) {
+        found = middle
+        low = middle + 1
+      } else {
+        high = middle - 1
+      }
+    }
+    return found
+  }
+
+  const everShown = [...initial.values(), ...parsed.flatMap(operation => operation.upserts)]
+  const area = everShown.length > 0 ? getPaintBounds(everShown) : null
+
+  let cachedCount = -1
+  let cachedElements: WhiteboardElement[] = []
+
+  return {
+    duration,
+    steps,
+    area,
+    stepAt,
+
+    elementsAt(at) {
+      const count = stepAt(at) + 1
+      if (count === cachedCount) return cachedElements
+
+      const keyframe = Math.floor(count / KEYFRAME_INTERVAL)
+      const board = new Map(keyframes[keyframe])
+      for (let index = keyframe * KEYFRAME_INTERVAL; index < count; index++) {
+        applyOperation(board, parsed[index])
+      }
+
+      cachedCount = count
+      cachedElements = sortByPosition(Array.from(board.values()))
+      return cachedElements
+    }
+  }
+}
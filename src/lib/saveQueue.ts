@@ -0,0 +1,137 @@
+import type { WhiteboardElement } from '../types/whiteboard'
+
+// Rows to write to bring the stored board up to date
+export interface ElementChanges {
+  upserts: WhiteboardElement[]
+  deletes: string[]
+}
+
+export interface SaveQueueOptions {
+  write: (changes: ElementChanges) => Promise<void>
+  // Quiet period after the last change before saving
+  debounceMs?: number
+  // Retries back off exponentially from one second up to this
+  maxBackoffMs?: number
+  onError?: (error: unknown, attempt: number) => void
+  // Called when a save finishes and nothing else is waiting
+  onSettled?: () => void
+}
+
+export interface SaveQueue {
+  // Saves `changes` once edits settle. Changes to the same element are folded
+  // together, the latest one winning.
+  schedule(changes: ElementChanges): void
+  // Saves anything scheduled right away and resolves once nothing is in flight
+  flush(): Promise<void>
+  // Stops pending saves and retries
+  dispose(): void
+}
+
+// Latest change to each element: its new contents, or null once deleted
+type PendingChanges = Map<string, WhiteboardElement | null>
+
+const INITIAL_BACKOFF = 1000
+
+function toElementChanges(batch: PendingChanges): ElementChanges {
+  const upserts: WhiteboardElement[] = []
+  const deletes: string[] = []
+  batch.forEach((element, id) => {
+    if (element) {
+      upserts.push(element)
+    } else {
+      deletes.push(id)
+    }
+  })
+  return { upserts, deletes }
+}
+
+// Debounced, coalescing writer for one board: at most one save is in flight,
+// changes made meanwhile are folded into the next one, and failed saves are
+// retried with backoff together with anything scheduled since
+export function createSaveQueue({
+  write,
+  debounceMs = 500,
+  maxBackoffMs = 30000,
+  onError,
+  onSettled
+}: SaveQueueOptions): SaveQueue {
+  let pending: PendingChanges = new Map()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let inFlight: Promise<void> | null = null
+  let attempt = 0
+  let disposed = false
+
+  const setTimer = (delay: number) => {
+    clearTimeout(timer)
+    timer = setTimeout(() => {
+      timer = undefined
+      run()
+    }, delay)
+  }
+
+  const save = async (batch: PendingChanges) => {
+    try {
+      await write(toElementChanges(batch))
+      attempt = 0
+    } catch (error) {
+      attempt++
+      onError?.(error, attempt)
+      // Retry along with newer changes, which win over this batch's; writes
+      // are idempotent, so whatever part of this save did land is simply
+      // written again
+      batch.forEach((element, id) => {
+        if (!pending.has(id)) pending.set(id, element)
+      })
+      if (!disposed) {
+        setTimer(Math.min(maxBackoffMs, INITIAL_BACKOFF * 2 ** (attempt - 1)))
+      }
+    }
+  }
+
+  // Declared as a function so the timers above can call it
+  function run(): Promise<void> {
+    if (inFlight) return inFlight
+    if (pending.size === 0 || disposed) return Promise.resolve()
+
+    const batch = pending
+    pending = new Map()
+    inFlight = save(batch).finally(() => {
+      inFlight = null
+      // Changes made during the save go out after the usual quiet period
+      if (pending.size > 0 && attempt === 0 && !disposed && timer === undefined) {
+        setTimer(debounceMs)
+      } else if (pending.size === 0 && attempt === 0) {
+        onSettled?.()
+      }
+    })
+    return inFlight
+  }
+
+  return {
+    schedule({ upserts, deletes }) {
+      upserts.forEach(element => pending.set(element.id, element))
+      deletes.forEach(id => pending.set(id, null))
+      // While backing off, the retry timer picks up the new changes
+      if (attempt === 0 && !inFlight) {
+        setTimer(debounceMs)
+      }
+    },
+
+    async flush() {
+      while (inFlight || (pending.size > 0 && !disposed)) {
+        clearTimeout(timer)
+        timer = undefined
+        const previousAttempt = attempt
+        await run()
+        // Give up for now if the save failed; its retry is already scheduled
+        if (attempt > previousAttempt) return
+      }
+    },
+
+    dispose() {
+      disposed = true
+      clearTimeout(timer)
+      timer = undefined
+    }
+  }
+}
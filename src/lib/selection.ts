@@ -0,0 +1,81 @@
+import type { Bounds, ElementType, Point, WhiteboardElement } from '../types/whiteboard'
+import { getBoundsCenter, getElementBounds, isPointInBounds, rotatePoint, toWorldPoint } from './geometry'
+
+// Corners of an element's bounds as they appear on the board
+export function getRotatedCorners(element: WhiteboardElement): Point[] {
+  const bounds = getElementBounds(element)
+  const center = getBoundsCenter(bounds)
+  const corners = [
+    { x: bounds.x, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+    { x: bounds.x, y: bounds.y + bounds.height }
+  ]
+  return corners.map(corner => rotatePoint(corner, center, element.rotation || 0))
+}
+
+// Axis-aligned box around every element, or null for an empty list
+export function getSelectionBounds(elements: WhiteboardElement[]): Bounds | null {
+  if (elements.length === 0) return null
+
+  const corners = elements.flatMap(getRotatedCorners)
+  const xs = corners.map(p => p.x)
+  const ys = corners.map(p => p.y)
+  const minX = Math.min(...xs)
+  const minY = Math.min(...ys)
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY }
+}
+
+export function rectFromPoints(a: Point, b: Point): Bounds {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y)
+  }
+}
+
+// Even-odd ray casting
+export function isPointInPolygon(point: Point, polygon: Point[]) {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if ((a.y > point.y) !== (b.y > point.y) &&
+      point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+// Elements are picked by a marquee or lasso only when entirely enclosed
+export function isElementInRect(element: WhiteboardElement, rect: Bounds) {
+  return getRotatedCorners(element).every(corner => isPointInBounds(corner, rect))
+}
+
+export function isElementInPolygon(element: WhiteboardElement, polygon: Point[]) {
+  if (polygon.length < 3) return false
+  const points = element.type === 'path' && element.points?.length
+    ? element.points.map(point => toWorldPoint(element, point))
+    : getRotatedCorners(element)
+  return points.every(point => isPointInPolygon(point, polygon))
+}
+
+// Marks the matching elements as selected. Additive selection keeps what
+// was already selected. Only elements whose selection flips are copied, so
+// the rest keep their identity and are not diffed or repainted.
+export function selectWhere(
+  elements: WhiteboardElement[],
+  predicate: (element: WhiteboardElement) => boolean,
+  additive = false
+): WhiteboardElement[] {
+  return elements.map(el => {
+    const selected = predicate(el) || (additive && !!el.selected)
+    return selected === !!el.selected ? el : { ...el, selected }
+  })
+}
+
+export function selectByType(elements: WhiteboardElement[], type: ElementType | 'all'): WhiteboardElement[] {
+  return selectWhere(elements, el => type === 'all' || el.type === type)
+}
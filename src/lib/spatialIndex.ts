@@ -0,0 +1,250 @@
+import type { Bounds, WhiteboardElement } from '../types/whiteboard'
+import { isConnector } from './connectors'
+import { boundsOfPoints, expandBounds, getBoundsCenter, getElementBounds, rotatePoint } from './geometry'
+import { getTextPaintBounds } from './renderer'
+import { getSelectionBounds } from './selection'
+
+// Entries a node holds before it splits, and how deep splitting may go
+const NODE_CAPACITY = 16
+const MAX_DEPTH = 12
+
+// Side of the first root, centered on the first element inserted
+const INITIAL_ROOT_SIZE = 4096
+
+interface IndexEntry {
+  element: WhiteboardElement
+  bounds: Bounds
+}
+
+interface QuadNode {
+  bounds: Bounds
+  depth: number
+  entries: Map<string, IndexEntry>
+  children: QuadNode[] | null
+}
+
+// Quadtree over element bounds. Elements that straddle a split line stay on
+// the parent node, and the root doubles toward anything inserted outside it
+// so the board has no fixed extent.
+export interface SpatialIndex {
+  root: QuadNode | null
+  nodeOf: Map<string, QuadNode>
+  // Position in the element list, so results come back in drawing order
+  order: Map<string, number>
+}
+
+export function createSpatialIndex(): SpatialIndex {
+  return { root: null, nodeOf: new Map(), order: new Map() }
+}
+
+function createNode(bounds: Bounds, depth: number): QuadNode {
+  return { bounds, depth, entries: new Map(), children: null }
+}
+
+function containsBounds(outer: Bounds, inner: Bounds) {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  )
+}
+
+export function boundsIntersect(a: Bounds, b: Bounds) {
+  return (
+    a.x <= b.x + b.width &&
+    a.x + a.width >= b.x &&
+    a.y <= b.y + b.height &&
+    a.y + a.height >= b.y
+  )
+}
+
+// Board-space box an element can paint into, including its stroke,
+// arrowheads and any text running past its edges
+function getElementPaintBounds(element: WhiteboardElement): Bounds {
+  const margin = isConnector(element)
+    ? Math.max(10, element.strokeWidth * 4)
+    : element.strokeWidth / 2
+  const bounds = expandBounds(getSelectionBounds([element])!, margin)
+
+  const text = getTextPaintBounds(element)
+  if (!text) return bounds
+
+  const center = getBoundsCenter(getElementBounds(element))
+  const textCorners = [
+    { x: text.x, y: text.y },
+    { x: text.x + text.width, y: text.y },
+    { x: text.x + text.width, y: text.y + text.height },
+    { x: text.x, y: text.y + text.height }
+  ].map(corner => rotatePoint(corner, center, element.rotation || 0))
+  return boundsOfPoints([
+    ...textCorners,
+    { x: bounds.x, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y + bounds.height }
+  ])
+}
+
+// Box covering everything the elements paint, e.g. to repaint after they change
+export function getPaintBounds(elements: WhiteboardElement[]): Bounds {
+  let left = Infinity
+  let top = Infinity
+  let right = -Infinity
+  let bottom = -Infinity
+
+  elements.forEach(element => {
+    const bounds = getElementPaintBounds(element)
+    left = Math.min(left, bounds.x)
+    top = Math.min(top, bounds.y)
+    right = Math.max(right, bounds.x + bounds.width)
+    bottom = Math.max(bottom, bounds.y + bounds.height)
+  })
+
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+function removeEntry(index: SpatialIndex, id: string) {
+  const node = index.nodeOf.get(id)
+  if (!node) return
+  node.entries.delete(id)
+  index.nodeOf.delete(id)
+}
+
+function insertIntoNode(index: SpatialIndex, node: QuadNode, id: string, entry: IndexEntry) {
+  const child = node.children?.find(c => containsBounds(c.bounds, entry.bounds))
+  if (child) {
+    insertIntoNode(index, child, id, entry)
+    return
+  }
+
+  node.entries.set(id, entry)
+  index.nodeOf.set(id, node)
+
+  if (!node.children && node.entries.size > NODE_CAPACITY && node.depth < MAX_DEPTH) {
+    splitNode(index, node)
+  }
+}
+
+function splitNode(index: SpatialIndex, node: QuadNode) {
+  const { x, y } = node.bounds
+  const width = node.bounds.width / 2
+  const height = node.bounds.height / 2
+  const depth = node.depth + 1
+
+  node.children = [
+    createNode({ x, y, width, height }, depth),
+    createNode({ x: x + width, y, width, height }, depth),
+    createNode({ x, y: y + height, width, height }, depth),
+    createNode({ x: x + width, y: y + height, width, height }, depth)
+  ]
+
+  const entries = [...node.entries]
+  node.entries.clear()
+  entries.forEach(([id, entry]) => insertIntoNode(index, node, id, entry))
+}
+
+function shiftDepth(node: QuadNode, delta: number) {
+  node.depth += delta
+  node.children?.forEach(child => shiftDepth(child, delta))
+}
+
+// Wraps the root in one twice its size, extended toward `target`. The old
+// root becomes one of the new root's quadrants as is.
+function growRoot(index: SpatialIndex, target: Bounds) {
+  const old = index.root!
+  const { x, y, width, height } = old.bounds
+  const left = target.x < x ? x - width : x
+  const top = target.y < y ? y - height : y
+  const quadrant = (qx: number, qy: number) => (
+    qx === x && qy === y ? old : createNode({ x: qx, y: qy, width, height }, 1)
+  )
+
+  const root = createNode({ x: left, y: top, width: width * 2, height: height * 2 }, 0)
+  root.children = [
+    quadrant(left, top),
+    quadrant(left + width, top),
+    quadrant(left, top + height),
+    quadrant(left + width, top + height)
+  ]
+
+  shiftDepth(old, 1)
+  index.root = root
+}
+
+function insertElement(index: SpatialIndex, element: WhiteboardElement) {
+  const entry = { element, bounds: getElementPaintBounds(element) }
+
+  if (!index.root) {
+    index.root = createNode({
+      x: entry.bounds.x - INITIAL_ROOT_SIZE / 2,
+      y: entry.bounds.y - INITIAL_ROOT_SIZE / 2,
+      width: INITIAL_ROOT_SIZE,
+      height: INITIAL_ROOT_SIZE
+    }, 0)
+  }
+
+  while (!containsBounds(index.root.bounds, entry.bounds)) {
+    growRoot(index, entry.bounds)
+  }
+
+  insertIntoNode(index, index.root, element.id, entry)
+}
+
+// Brings the index in line with `elements`. Only elements whose object
+// identity changed since the last sync are re-inserted, so an edit touching
+// a handful of elements costs a handful of inserts.
+export function syncSpatialIndex(index: SpatialIndex, elements: WhiteboardElement[]) {
+  for (let position = 0; position < elements.length; position++) {
+    const element = elements[position]
+    if (index.order.get(element.id) !== position) {
+      index.order.set(element.id, position)
+    }
+
+    if (index.nodeOf.get(element.id)?.entries.get(element.id)?.element !== element) {
+      removeEntry(index, element.id)
+      insertElement(index, element)
+    }
+  }
+
+  // Everything listed is indexed now, so anything beyond that is stale
+  if (index.nodeOf.size === elements.length) return
+
+  const listed = new Set(elements.map(el => el.id))
+  for (const id of [...index.nodeOf.keys()]) {
+    if (!listed.has(id)) {
+      removeEntry(index, id)
+      index.order.delete(id)
+    }
+  }
+}
+
+// Re-inserts elements already in the index, e.g. previews of a transform in
+// progress, without walking the rest. Drawing order stays as last synced.
+export function updateSpatialIndex(index: SpatialIndex, elements: Iterable<WhiteboardElement>) {
+  for (const element of elements) {
+    if (!index.order.has(element.id)) continue
+    if (index.nodeOf.get(element.id)?.entries.get(element.id)?.element === element) continue
+    removeEntry(index, element.id)
+    insertElement(index, element)
+  }
+}
+
+function collect(node: QuadNode, area: Bounds, found: WhiteboardElement[]) {
+  if (!boundsIntersect(node.bounds, area)) return
+
+  node.entries.forEach(entry => {
+    if (boundsIntersect(entry.bounds, area)) {
+      found.push(entry.element)
+    }
+  })
+
+  node.children?.forEach(child => collect(child, area, found))
+}
+
+// Elements whose painted area touches `area`, in drawing order
+export function searchSpatialIndex(index: SpatialIndex, area: Bounds): WhiteboardElement[] {
+  const found: WhiteboardElement[] = []
+  if (index.root) {
+    collect(index.root, area, found)
+  }
+  return found.sort((a, b) => index.order.get(a.id)! - index.order.get(b.id)!)
+}
@@ -0,0 +1,168 @@
+import type { Bounds } from '../types/whiteboard'
+import { TEXT_FONT_FAMILY, measureTextBounds } from './geometry'
+import type { PathCommand, RenderBackend, ShapeStyle, TextStyle } from './renderer'
+
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml'
+
+// Content that could run or restyle the page when the SVG is opened in a browser
+const UNSAFE_ELEMENTS = 'script, style, iframe, object, embed, link, meta, base, form'
+
+export interface SvgBackend extends RenderBackend {
+  // Complete SVG document showing `viewBox`, `scale` pixels per board unit
+  toSvg(viewBox: Bounds, options?: { scale?: number; background?: string }): string
+}
+
+// Two decimals keep paths compact without visible rounding
+function num(value: number) {
+  return String(Math.round(value * 100) / 100)
+}
+
+export function escapeXml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// Rich note HTML as sanitized, well-formed XHTML for a foreignObject, or
+// null where there is no DOM to parse it with
+function toXhtml(html: string, style: TextStyle): string | null {
+  if (typeof DOMParser === 'undefined' || typeof XMLSerializer === 'undefined') return null
+
+  const doc = new DOMParser().parseFromString(`<div>${html}</div>`, 'text/html')
+  const root = doc.body.firstElementChild
+  if (!root) return null
+
+  root.querySelectorAll(UNSAFE_ELEMENTS).forEach(el => el.remove())
+  root.querySelectorAll('*').forEach(el => {
+    Array.from(el.attributes).forEach(attribute => {
+      if (/^on/i.test(attribute.name) || /^\s*javascript:/i.test(attribute.value)) {
+        el.removeAttribute(attribute.name)
+      }
+    })
+  })
+
+  root.setAttribute('style', [
+    `font-family: ${TEXT_FONT_FAMILY}`,
+    `font-size: ${style.fontSize}px`,
+    'line-height: 1.4',
+    `color: ${style.color}`,
+    'width: 100%',
+    'height: 100%',
+    'overflow: hidden',
+    'overflow-wrap: break-word'
+  ].join('; '))
+
+  return new XMLSerializer().serializeToString(root)
+}
+
+function pathData(commands: PathCommand[]) {
+  return commands.map(command => {
+    switch (command.type) {
+      case 'move':
+        return `M${num(command.point.x)} ${num(command.point.y)}`
+      case 'line':
+        return `L${num(command.point.x)} ${num(command.point.y)}`
+      case 'quadratic':
+        return `Q${num(command.control.x)} ${num(command.control.y)} ${num(command.point.x)} ${num(command.point.y)}`
+      case 'close':
+        return 'Z'
+    }
+  }).join('')
+}
+
+function styleAttributes(style: ShapeStyle) {
+  const attributes = [`fill="${style.fill ? escapeXml(style.fill) : 'none'}"`]
+  if (style.stroke) {
+    attributes.push(
+      `stroke="${escapeXml(style.stroke)}"`,
+      `stroke-width="${num(style.strokeWidth ?? 1)}"`,
+      'stroke-linecap="round"',
+      'stroke-linejoin="round"'
+    )
+    if (style.dash?.length) {
+      attributes.push(`stroke-dasharray="${style.dash.map(num).join(' ')}"`)
+    }
+  }
+  return attributes.join(' ')
+}
+
+// Collects markup as it renders; groups nest as <g> elements
+export function createSvgBackend(): SvgBackend {
+  const parts: string[] = []
+
+  return {
+    beginGroup(angle, center) {
+      parts.push(`<g transform="rotate(${num(angle * 180 / Math.PI)} ${num(center.x)} ${num(center.y)})">`)
+    },
+
+    endGroup() {
+      parts.push('</g>')
+    },
+
+    path(commands, style) {
+      if (commands.length === 0) return
+      parts.push(`<path d="${pathData(commands)}" ${styleAttributes(style)}/>`)
+    },
+
+    rect(bounds, style) {
+      parts.push(
+        `<rect x="${num(bounds.x)}" y="${num(bounds.y)}" width="${num(bounds.width)}" height="${num(bounds.height)}" ${styleAttributes(style)}/>`
+      )
+    },
+
+    ellipse(center, radiusX, radiusY, style) {
+      parts.push(
+        `<ellipse cx="${num(center.x)}" cy="${num(center.y)}" rx="${num(Math.abs(radiusX))}" ry="${num(Math.abs(radiusY))}" ${styleAttributes(style)}/>`
+      )
+    },
+
+    text(text, x, y, style) {
+      if (!text) return
+      parts.push(
+        `<text x="${num(x)}" y="${num(y)}" font-family="${escapeXml(TEXT_FONT_FAMILY)}" font-size="${num(style.fontSize)}"` +
+        `${style.bold ? ' font-weight="bold"' : ''} fill="${escapeXml(style.color)}" xml:space="preserve">${escapeXml(text)}</text>`
+      )
+    },
+
+    measureText(text, style) {
+      return measureTextBounds(text, style.fontSize, 0, 0).width
+    },
+
+    // Viewers without HTML support take the <switch> fallback branch
+    html(bounds, html, style, renderFallback) {
+      const xhtml = toXhtml(html, style)
+      if (!xhtml) {
+        renderFallback()
+        return
+      }
+
+      parts.push(
+        '<switch>' +
+        `<foreignObject x="${num(bounds.x)}" y="${num(bounds.y)}" width="${num(bounds.width)}" height="${num(bounds.height)}" ` +
+        `requiredExtensions="${XHTML_NAMESPACE}">${xhtml}</foreignObject>` +
+        '<g>'
+      )
+      renderFallback()
+      parts.push('</g></switch>')
+    },
+
+    toSvg(viewBox, { scale = 1, background } = {}) {
+      const width = num(viewBox.width * scale)
+      const height = num(viewBox.height * scale)
+      const backdrop = background
+        ? `<rect x="${num(viewBox.x)}" y="${num(viewBox.y)}" width="${num(viewBox.width)}" height="${num(viewBox.height)}" fill="${escapeXml(background)}"/>`
+        : ''
+
+      return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+        `viewBox="${num(viewBox.x)} ${num(viewBox.y)} ${num(viewBox.width)} ${num(viewBox.height)}">`,
+        backdrop,
+        ...parts,
+        '</svg>'
+      ].join('')
+    }
+  }
+}
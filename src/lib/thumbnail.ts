@@ -0,0 +1,28 @@
+import type { WhiteboardElement } from '../types/whiteboard'
+import { expandBounds } from './geometry'
+import { renderElements } from './renderer'
+import { getPaintBounds } from './spatialIndex'
+import { createSvgBackend } from './svgBackend'
+
+// Board units of empty space kept around the content
+const THUMBNAIL_PADDING = 24
+
+// Preview of a whole board as a `width` × `height` SVG, drawn by the shared
+// renderer. The content is centered and shrunk to fit but never enlarged,
+// so a board with one small shape still looks like one. Null when empty.
+export function renderThumbnail(elements: WhiteboardElement[], width: number, height: number): string | null {
+  if (elements.length === 0) return null
+
+  const content = expandBounds(getPaintBounds(elements), THUMBNAIL_PADDING)
+  const scale = Math.min(1, width / content.width, height / content.height)
+  const area = {
+    x: content.x - (width / scale - content.width) / 2,
+    y: content.y - (height / scale - content.height) / 2,
+    width: width / scale,
+    height: height / scale
+  }
+
+  const backend = createSvgBackend()
+  renderElements(backend, elements)
+  return backend.toSvg(area, { scale })
+}
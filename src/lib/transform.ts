@@ -0,0 +1,390 @@
+import type { Bounds, Point, TransformHandle, WhiteboardElement } from '../types/whiteboard'
+import { getConnectorEndpoints, getControlPoint, isConnector } from './connectors'
+import { getBoundsCenter, getElementBounds, rotatePoint } from './geometry'
+
+// Screen-space sizes of the selection chrome
+export const HANDLE_SIZE = 8
+const ROTATION_HANDLE_OFFSET = 24
+
+// World-space gap between an element and its selection box
+export const SELECTION_PADDING = 5
+
+// Shift-rotation snaps to 15 degree steps
+const ROTATION_SNAP = Math.PI / 12
+
+const RESIZE_HANDLES: TransformHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w']
+
+export interface ResizeOptions {
+  keepAspectRatio: boolean
+  fromCenter: boolean
+}
+
+// Runs `draw` with the context rotated around the element's center
+export function withRotation(ctx: CanvasRenderingContext2D, element: WhiteboardElement, draw: () => void) {
+  if (!element.rotation) {
+    draw()
+    return
+  }
+
+  const center = getBoundsCenter(getElementBounds(element))
+  ctx.save()
+  ctx.translate(center.x, center.y)
+  ctx.rotate(element.rotation)
+  ctx.translate(-center.x, -center.y)
+  draw()
+  ctx.restore()
+}
+
+// Connectors are edited through their endpoints; everything else gets a
+// resize box and a rotation handle
+export function getHandlePositions(element: WhiteboardElement, zoom: number): Partial<Record<TransformHandle, Point>> {
+  if (isConnector(element)) {
+    const { start, end } = getConnectorEndpoints(element)
+    return element.routing === 'curved'
+      ? { start, end, control: getControlPoint(element) }
+      : { start, end }
+  }
+
+  return getBoxHandlePositions(getElementBounds(element), zoom, element.rotation || 0, true)
+}
+
+// Handles around a padded box, rotated around its center
+export function getBoxHandlePositions(
+  bounds: Bounds,
+  zoom: number,
+  rotation = 0,
+  rotatable = false
+): Partial<Record<TransformHandle, Point>> {
+  const center = getBoundsCenter(bounds)
+  const left = bounds.x - SELECTION_PADDING
+  const right = bounds.x + bounds.width + SELECTION_PADDING
+  const top = bounds.y - SELECTION_PADDING
+  const bottom = bounds.y + bounds.height + SELECTION_PADDING
+
+  const local: Record<string, Point> = {
+    nw: { x: left, y: top },
+    n: { x: center.x, y: top },
+    ne: { x: right, y: top },
+    e: { x: right, y: center.y },
+    se: { x: right, y: bottom },
+    s: { x: center.x, y: bottom },
+    sw: { x: left, y: bottom },
+    w: { x: left, y: center.y }
+  }
+  if (rotatable) {
+    local.rotate = { x: center.x, y: top - ROTATION_HANDLE_OFFSET / zoom }
+  }
+
+  const handles: Partial<Record<TransformHandle, Point>> = {}
+  Object.entries(local).forEach(([handle, point]) => {
+    handles[handle as TransformHandle] = rotatePoint(point, center, rotation)
+  })
+  return handles
+}
+
+export function hitTestHandle(element: WhiteboardElement, point: Point, zoom: number): TransformHandle | null {
+  return findHandleAt(getHandlePositions(element, zoom), point, zoom)
+}
+
+export function findHandleAt(
+  handles: Partial<Record<TransformHandle, Point>>,
+  point: Point,
+  zoom: number
+): TransformHandle | null {
+  const tolerance = HANDLE_SIZE / zoom
+
+  for (const [handle, position] of Object.entries(handles)) {
+    if (Math.abs(point.x - position.x) <= tolerance && Math.abs(point.y - position.y) <= tolerance) {
+      return handle as TransformHandle
+    }
+  }
+  return null
+}
+
+export function isResizeHandle(handle: TransformHandle) {
+  return RESIZE_HANDLES.includes(handle)
+}
+
+export function translateElement(element: WhiteboardElement, dx: number, dy: number): WhiteboardElement {
+  const moved = { ...element, x: element.x + dx, y: element.y + dy }
+  if (element.points) {
+    moved.points = element.points.map(p => ({ x: p.x + dx, y: p.y + dy }))
+  }
+  return moved
+}
+
+// Moves a group of elements together. Connectors keep their bindings only
+// to elements that moved with them.
+export function moveElements(elements: WhiteboardElement[], dx: number, dy: number): WhiteboardElement[] {
+  const movedIds = new Set(elements.map(el => el.id))
+
+  return elements.map(el => {
+    const moved = translateElement(el, dx, dy)
+    if (!isConnector(el)) return moved
+    return {
+      ...moved,
+      startBinding: el.startBinding && movedIds.has(el.startBinding.elementId) ? el.startBinding : undefined,
+      endBinding: el.endBinding && movedIds.has(el.endBinding.elementId) ? el.endBinding : undefined
+    }
+  })
+}
+
+// Maps an element from one box onto another. Negative target extents mirror it.
+export function scaleElement(element: WhiteboardElement, from: Bounds, to: Bounds): WhiteboardElement {
+  const scaleX = from.width ? to.width / from.width : 1
+  const scaleY = from.height ? to.height / from.height : 1
+  const mapX = (x: number) => to.x + (x - from.x) * scaleX
+  const mapY = (y: number) => to.y + (y - from.y) * scaleY
+
+  switch (element.type) {
+    case 'path':
+      return {
+        ...element,
+        x: mapX(element.x),
+        y: mapY(element.y),
+        points: element.points?.map(p => ({ x: mapX(p.x), y: mapY(p.y) }))
+      }
+
+    case 'line':
+    case 'arrow': {
+      const { start, end } = getConnectorEndpoints(element)
+      return {
+        ...element,
+        x: mapX(start.x),
+        y: mapY(start.y),
+        width: mapX(end.x) - mapX(start.x),
+        height: mapY(end.y) - mapY(start.y),
+        controlOffset: element.controlOffset && {
+          x: element.controlOffset.x * scaleX,
+          y: element.controlOffset.y * scaleY
+        }
+      }
+    }
+
+    case 'text':
+      return {
+        ...element,
+        x: mapX(element.x),
+        y: mapY(element.y),
+        strokeWidth: Math.max(1, element.strokeWidth * Math.abs(scaleY))
+      }
+
+    default: {
+      const fallback = element.type === 'sticky-note' ? 100 : 0
+      const width = element.width || fallback
+      const height = element.height || fallback
+      return {
+        ...element,
+        x: mapX(element.x),
+        y: mapY(element.y),
+        width: mapX(element.x + width) - mapX(element.x),
+        height: mapY(element.y + height) - mapY(element.y)
+      }
+    }
+  }
+}
+
+// New box after dragging one of its eight handles to `local`, a point in the
+// box's unrotated frame. Extents come out negative when dragged past the
+// opposite side.
+export function resizeBounds(
+  bounds: Bounds,
+  handle: TransformHandle,
+  local: Point,
+  { keepAspectRatio, fromCenter }: ResizeOptions
+): Bounds {
+  const center = getBoundsCenter(bounds)
+  const movesX = handle.includes('e') || handle.includes('w')
+  const movesY = handle.includes('n') || handle.includes('s')
+
+  let left = bounds.x
+  let right = bounds.x + bounds.width
+  let top = bounds.y
+  let bottom = bounds.y + bounds.height
+
+  // Handles sit on the padded selection box, not on the bounds themselves
+  if (handle.includes('w')) left = local.x + SELECTION_PADDING
+  if (handle.includes('e')) right = local.x - SELECTION_PADDING
+  if (handle.includes('n')) top = local.y + SELECTION_PADDING
+  if (handle.includes('s')) bottom = local.y - SELECTION_PADDING
+
+  if (fromCenter) {
+    if (handle.includes('w')) right = 2 * center.x - left
+    if (handle.includes('e')) left = 2 * center.x - right
+    if (handle.includes('n')) bottom = 2 * center.y - top
+    if (handle.includes('s')) top = 2 * center.y - bottom
+  }
+
+  if (keepAspectRatio && bounds.width > 0 && bounds.height > 0) {
+    const width = right - left
+    const height = bottom - top
+    const scale = movesX && movesY
+      ? Math.max(Math.abs(width) / bounds.width, Math.abs(height) / bounds.height)
+      : movesX ? Math.abs(width) / bounds.width : Math.abs(height) / bounds.height
+    const newWidth = (width < 0 ? -1 : 1) * bounds.width * scale
+    const newHeight = (height < 0 ? -1 : 1) * bounds.height * scale
+
+    if (fromCenter || !movesX) {
+      left = center.x - newWidth / 2
+      right = center.x + newWidth / 2
+    } else if (handle.includes('w')) {
+      left = right - newWidth
+    } else {
+      right = left + newWidth
+    }
+
+    if (fromCenter || !movesY) {
+      top = center.y - newHeight / 2
+      bottom = center.y + newHeight / 2
+    } else if (handle.includes('n')) {
+      top = bottom - newHeight
+    } else {
+      bottom = top + newHeight
+    }
+  }
+
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+// Resizes an element by dragging one of its eight handles to `pointer`.
+// Works in the element's unrotated frame, then shifts the result so the
+// anchored side stays put on screen.
+export function resizeElement(
+  element: WhiteboardElement,
+  handle: TransformHandle,
+  pointer: Point,
+  options: ResizeOptions
+): WhiteboardElement {
+  const bounds = getElementBounds(element)
+  const center = getBoundsCenter(bounds)
+  const rotation = element.rotation || 0
+  const target = resizeBounds(bounds, handle, rotatePoint(pointer, center, -rotation), options)
+  const resized = scaleElement(element, bounds, target)
+  if (!rotation) return resized
+
+  const localCenter = getBoundsCenter(target)
+  const worldCenter = rotatePoint(localCenter, center, rotation)
+  return translateElement(resized, worldCenter.x - localCenter.x, worldCenter.y - localCenter.y)
+}
+
+// Maps a member of a group from one box onto another. Rotated members can't
+// be stretched along the board's axes without skewing, so their center moves
+// with the box and their own sides scale by however much the stretch
+// lengthens them, keeping the rotation. Mirroring reverses the rotation.
+function scaleGroupMember(element: WhiteboardElement, from: Bounds, to: Bounds): WhiteboardElement {
+  const rotation = element.rotation || 0
+  if (!rotation || isConnector(element)) return scaleElement(element, from, to)
+
+  const scaleX = from.width ? to.width / from.width : 1
+  const scaleY = from.height ? to.height / from.height : 1
+  const cos = Math.cos(rotation)
+  const sin = Math.sin(rotation)
+  const ownScaleX = Math.sign(scaleX || 1) * Math.hypot(scaleX * cos, scaleY * sin)
+  const ownScaleY = Math.sign(scaleY || 1) * Math.hypot(scaleX * sin, scaleY * cos)
+
+  const bounds = getElementBounds(element)
+  const center = getBoundsCenter(bounds)
+  const scaled = scaleElement(element, bounds, {
+    x: center.x - bounds.width * ownScaleX / 2,
+    y: center.y - bounds.height * ownScaleY / 2,
+    width: bounds.width * ownScaleX,
+    height: bounds.height * ownScaleY
+  })
+
+  // Text is sized by its font, so place it by where its center ended up
+  const scaledCenter = getBoundsCenter(getElementBounds(scaled))
+  const target = {
+    x: to.x + (center.x - from.x) * scaleX,
+    y: to.y + (center.y - from.y) * scaleY
+  }
+  const fullTurn = 2 * Math.PI
+  return {
+    ...translateElement(scaled, target.x - scaledCenter.x, target.y - scaledCenter.y),
+    rotation: scaleX * scaleY < 0 ? fullTurn - rotation : rotation
+  }
+}
+
+// Resizes a multi-selection as one box, scaling every member with it
+export function resizeElements(
+  elements: WhiteboardElement[],
+  bounds: Bounds,
+  handle: TransformHandle,
+  pointer: Point,
+  options: ResizeOptions
+): WhiteboardElement[] {
+  const target = resizeBounds(bounds, handle, pointer, options)
+  return elements.map(el => scaleGroupMember(el, bounds, target))
+}
+
+// Rotates by the angle the pointer has swept around the element's center
+export function rotateElement(element: WhiteboardElement, origin: Point, pointer: Point, snap: boolean): WhiteboardElement {
+  const center = getBoundsCenter(getElementBounds(element))
+  const swept = Math.atan2(pointer.y - center.y, pointer.x - center.x) -
+    Math.atan2(origin.y - center.y, origin.x - center.x)
+  let rotation = (element.rotation || 0) + swept
+
+  if (snap) {
+    rotation = Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP
+  }
+
+  const fullTurn = 2 * Math.PI
+  return { ...element, rotation: ((rotation % fullTurn) + fullTurn) % fullTurn }
+}
+
+// Rotates a multi-selection as one around the center of its box. Members
+// turn in place while their centers swing around; connectors, which have no
+// rotation of their own, have their endpoints swung instead.
+export function rotateElements(
+  elements: WhiteboardElement[],
+  bounds: Bounds,
+  origin: Point,
+  pointer: Point,
+  snap: boolean
+): WhiteboardElement[] {
+  const center = getBoundsCenter(bounds)
+  let swept = Math.atan2(pointer.y - center.y, pointer.x - center.x) -
+    Math.atan2(origin.y - center.y, origin.x - center.x)
+
+  if (snap) {
+    swept = Math.round(swept / ROTATION_SNAP) * ROTATION_SNAP
+  }
+
+  const fullTurn = 2 * Math.PI
+  return elements.map(el => {
+    if (isConnector(el)) {
+      const { start, end } = getConnectorEndpoints(el)
+      const rotated = moveConnectorEndpoint(
+        moveConnectorEndpoint(el, 'start', rotatePoint(start, center, swept)),
+        'end',
+        rotatePoint(end, center, swept)
+      )
+      return {
+        ...rotated,
+        controlOffset: el.controlOffset && rotatePoint(el.controlOffset, { x: 0, y: 0 }, swept)
+      }
+    }
+
+    const own = getBoundsCenter(getElementBounds(el))
+    const swung = rotatePoint(own, center, swept)
+    const rotation = (el.rotation || 0) + swept
+    return {
+      ...translateElement(el, swung.x - own.x, swung.y - own.y),
+      rotation: ((rotation % fullTurn) + fullTurn) % fullTurn
+    }
+  })
+}
+
+// Moves one end of a connector, leaving the other where it is
+export function moveConnectorEndpoint(element: WhiteboardElement, handle: 'start' | 'end', point: Point): WhiteboardElement {
+  const { start, end } = getConnectorEndpoints(element)
+  const newStart = handle === 'start' ? point : start
+  const newEnd = handle === 'end' ? point : end
+
+  return {
+    ...element,
+    x: newStart.x,
+    y: newStart.y,
+    width: newEnd.x - newStart.x,
+    height: newEnd.y - newStart.y
+  }
+}
@@ -0,0 +1,65 @@
+import type { WhiteboardElement } from '../types/whiteboard'
+import type { ElementOperation } from './operations'
+import { sameValue, sortByPosition } from './boardDocument'
+
+// Elements one local edit touched, keyed by id; null where an element
+// didn't exist
+export type UndoState = Map<string, WhiteboardElement | null>
+
+// One local edit, as the elements it touched were before and after it.
+// Undo and redo only touch these, so collaborators' edits made since survive.
+export interface UndoEntry {
+  before: UndoState
+  after: UndoState
+}
+
+// The entry for an edit that produced `operations`, or null if it changed
+// nothing but the selection
+export function createUndoEntry(
+  operations: ElementOperation[],
+  before: WhiteboardElement[],
+  after: WhiteboardElement[]
+): UndoEntry | null {
+  if (operations.length === 0) return null
+
+  const ids = new Set(operations.map(operation => operation.id))
+  const pick = (elements: WhiteboardElement[]): UndoState => {
+    const byId = new Map(elements.map(element => [element.id, element]))
+    return new Map(Array.from(ids, id => [id, byId.get(id) ?? null]))
+  }
+  return { before: pick(before), after: pick(after) }
+}
+
+// `elements` with an edit taken from `from` back to `to`, or forward again.
+// Elements it added or deleted go or come back; changed ones only get back
+// the properties that edit changed, and stay deleted if someone else has
+// deleted them since.
+export function applyUndoState(elements: WhiteboardElement[], from: UndoState, to: UndoState): WhiteboardElement[] {
+  const current = new Map(elements.map(element => [element.id, element]))
+  const next = elements.filter(element => !to.has(element.id))
+
+  to.forEach((target, id) => {
+    const source = from.get(id) ?? null
+    const existing = current.get(id)
+    if (!target) return
+    if (!source) {
+      next.push(target)
+      return
+    }
+    if (!existing) return
+
+    const updated: Record<string, unknown> = { ...existing }
+    const keys = new Set([...Object.keys(source), ...Object.keys(target)]) as Set<keyof WhiteboardElement>
+    keys.forEach(key => {
+      if (key === 'id' || key === 'selected' || sameValue(source[key], target[key])) return
+      if (target[key] === undefined) {
+        delete updated[key]
+      } else {
+        updated[key] = target[key]
+      }
+    })
+    next.push(updated as unknown as WhiteboardElement)
+  })
+
+  return sortByPosition(next)
+}
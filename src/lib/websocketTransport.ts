@@ -0,0 +1,92 @@
+import type { CollaborationTransport, TransportMessage, TransportPeer } from './collaborationTransport'
+
+// What the relay in server/relay.js sends
+type RelayEvent =
+  | { event: 'message'; message: TransportMessage }
+  | { event: 'presence'; peers: TransportPeer[] }
+
+// Talks to a WebSocket relay, such as the reference one in server/relay.js.
+// Each instance holds one connection for the one channel it joins.
+export function createWebSocketTransport(url: string): CollaborationTransport {
+  let socket: WebSocket | null = null
+  let peers: TransportPeer[] = []
+  const messageListeners = new Set<(message: TransportMessage) => void>()
+  const presenceListeners = new Set<(peers: TransportPeer[]) => void>()
+  const disconnectListeners = new Set<() => void>()
+
+  const handleEvent = (event: MessageEvent) => {
+    let relayEvent: RelayEvent
+    try {
+      relayEvent = JSON.parse(event.data)
+    } catch (error) {
+      console.error('Ignoring unreadable relay message:', error)
+      return
+    }
+
+    if (relayEvent.event === 'message') {
+      messageListeners.forEach(listener => listener(relayEvent.message))
+    } else if (relayEvent.event === 'presence') {
+      peers = relayEvent.peers
+      presenceListeners.forEach(listener => listener(peers))
+    }
+  }
+
+  return {
+    join(channel, peer) {
+      return new Promise((resolve, reject) => {
+        const connection = new WebSocket(url)
+        socket = connection
+        connection.onmessage = handleEvent
+        connection.onopen = () => {
+          connection.send(JSON.stringify({ action: 'join', channel, peer }))
+          resolve()
+        }
+        // Only matters before the connection opens; afterwards the promise
+        // has already settled
+        connection.onerror = () => reject(new Error(`Could not reach the collaboration relay at ${url}`))
+        connection.onclose = () => {
+          // Leaving clears the socket first, so this is the relay going away
+          if (socket !== connection) return
+          socket = null
+          disconnectListeners.forEach(listener => listener())
+        }
+      })
+    },
+
+    async leave() {
+      const connection = socket
+      socket = null
+      connection?.close()
+      messageListeners.clear()
+      presenceListeners.clear()
+      disconnectListeners.clear()
+    },
+
+    async publish(type, data) {
+      if (socket?.readyState !== WebSocket.OPEN) throw new Error('Not connected to the collaboration relay')
+      socket.send(JSON.stringify({ action: 'publish', type, data }))
+    },
+
+    onMessage(listener) {
+      messageListeners.add(listener)
+      return () => {
+        messageListeners.delete(listener)
+      }
+    },
+
+    onPresence(listener) {
+      presenceListeners.add(listener)
+      if (peers.length > 0) listener(peers)
+      return () => {
+        presenceListeners.delete(listener)
+      }
+    },
+
+    onDisconnect(listener) {
+      disconnectListeners.add(listener)
+      return () => {
+        disconnectListeners.delete(listener)
+      }
+    }
+  }
+}
@@ -1,12 +1,12 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import { Toaster } from './components/ui/sonner'
-import App from './App'
+import { AppRouter } from './AppRouter'
 import './index.css'
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    <AppRouter />
     <Toaster />
   </React.StrictMode>,
-) 
\ No newline at end of file
+)
@@ -1,10 +1,38 @@
-export type Tool = 'select' | 'pen' | 'rectangle' | 'circle' | 'arrow' | 'line' | 'text' | 'sticky-note' | 'rich-note';
+export type Tool = 'select' | 'lasso' | 'pen' | 'eraser' | 'rectangle' | 'circle' | 'arrow' | 'line' | 'text' | 'sticky-note' | 'rich-note';
+
+export type ArrowheadStyle = 'none' | 'triangle' | 'open' | 'circle' | 'diamond';
+
+export type ConnectorRouting = 'straight' | 'curved' | 'elbow';
+
+export interface ConnectorStyle {
+  routing: ConnectorRouting;
+  startArrowhead: ArrowheadStyle;
+  endArrowhead: ArrowheadStyle;
+}
+
+export type AnchorPosition = 'top' | 'right' | 'bottom' | 'left';
+
+// Attaches a connector endpoint to another element. Without an anchor the
+// endpoint floats to the nearest point on the element's edge.
+export interface ConnectorBinding {
+  elementId: string;
+  anchor?: AnchorPosition;
+}
 
 export interface Point {
   x: number;
   y: number;
 }
 
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type TransformHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'rotate' | 'start' | 'end' | 'control';
+
 export interface Comment {
   id: string;
   text: string;
@@ -22,9 +50,11 @@ export interface RichNote {
   lastEditedAt?: number;
 }
 
+export type ElementType = 'path' | 'rectangle' | 'circle' | 'arrow' | 'line' | 'text' | 'sticky-note' | 'rich-note';
+
 export interface WhiteboardElement {
   id: string;
-  type: 'path' | 'rectangle' | 'circle' | 'arrow' | 'line' | 'text' | 'sticky-note' | 'rich-note';
+  type: ElementType;
   x: number;
   y: number;
   width?: number;
@@ -35,7 +65,16 @@ export interface WhiteboardElement {
   strokeWidth: number;
   fill?: string;
   selected?: boolean;
+  rotation?: number; // Radians, clockwise around the center of the element's bounds
   richNote?: RichNote; // For rich-note type elements
+  // Line and arrow elements run from (x, y) to (x + width, y + height)
+  routing?: ConnectorRouting;
+  startArrowhead?: ArrowheadStyle;
+  endArrowhead?: ArrowheadStyle;
+  controlOffset?: Point; // Curved routing: control point offset from the segment midpoint
+  startBinding?: ConnectorBinding;
+  endBinding?: ConnectorBinding;
+  position?: string; // Fractional index: elements are drawn in ascending order
 }
 
 export interface ViewportState {
@@ -50,6 +89,20 @@ export interface DrawingState {
   currentElement: WhiteboardElement | null;
 }
 
+export interface TransformState {
+  handle: TransformHandle | 'move';
+  origin: Point; // Pointer position when the transform started
+  originals: WhiteboardElement[]; // Elements as they were before the transform
+  previews: WhiteboardElement[]; // Live result, committed on mouse up
+  bounds?: Bounds; // Shared box when transforming a multi-selection
+}
+
+export interface SelectionArea {
+  mode: 'marquee' | 'lasso';
+  points: Point[]; // Marquee: drag start and current corner. Lasso: the traced outline.
+  additive: boolean; // Shift/ctrl held, so the current selection is kept
+}
+
 export interface User {
   id: string;
   email: string;
@@ -64,8 +117,20 @@ export interface UserCursor {
   color: string;
 }
 
+// Elements another user is drawing or dragging and hasn't committed yet
+export interface RemotePreview {
+  userId: string;
+  color: string;
+  elements: WhiteboardElement[];
+}
+
+// 'resyncing' is connected again and catching up on what was missed
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'offline' | 'resyncing';
+
 export interface CollaborationState {
   users: User[];
   cursors: UserCursor[];
+  previews: RemotePreview[];
   isConnected: boolean;
+  connection: ConnectionState;
 }
\ No newline at end of file
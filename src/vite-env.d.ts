@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Persistence backend: 'blink' (default), 'indexeddb' or 'memory'
+  readonly VITE_BOARD_STORAGE?: string
+  // Realtime channels: 'blink' (default), 'broadcast' or 'websocket'
+  readonly VITE_COLLABORATION_TRANSPORT?: string
+  // Relay for the 'websocket' transport, e.g. ws://localhost:8787
+  readonly VITE_COLLABORATION_RELAY_URL?: string
+}
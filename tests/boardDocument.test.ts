@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import type { WhiteboardElement } from '../src/types/whiteboard'
+import { createBoardDocument } from '../src/lib/boardDocument'
+import { type ElementOperation, createLogicalClock } from '../src/lib/operations'
+
+const element: WhiteboardElement = {
+  id: 'shape', type: 'rectangle', x: 0, y: 0, width: 40, height: 30, color: '#000000', strokeWidth: 2, position: 'a0'
+}
+
+const add = (clock: number, clientId: string, added: WhiteboardElement = element): ElementOperation =>
+  ({ type: 'add', id: added.id, clock, clientId, element: added })
+const update = (clock: number, clientId: string, properties: Partial<WhiteboardElement>): ElementOperation =>
+  ({ type: 'update', id: element.id, clock, clientId, properties, unset: [] })
+const remove = (clock: number, clientId: string): ElementOperation =>
+  ({ type: 'delete', id: element.id, clock, clientId })
+
+// A fresh document fed `operations` in the given order
+function boardAfter(operations: ElementOperation[]) {
+  const board = createBoardDocument(createLogicalClock('reader'))
+  board.apply(operations)
+  return board.getElements()
+}
+
+describe('board document', () => {
+  describe('tombstones', () => {
+    it('keeps a deleted element deleted when older operations arrive late', () => {
+      expect(boardAfter([add(1, 'a'), remove(5, 'b'), update(3, 'a', { x: 50 })])).toEqual([])
+      expect(boardAfter([remove(5, 'b'), add(1, 'a')])).toEqual([])
+    })
+
+    it('brings an element back when it is added after its delete', () => {
+      expect(boardAfter([add(1, 'a'), remove(5, 'b'), add(7, 'a')])).toEqual([element])
+    })
+
+    it('applies an update that arrives before its element', () => {
+      expect(boardAfter([update(3, 'a', { x: 50 }), add(1, 'a')])).toEqual([{ ...element, x: 50 }])
+    })
+  })
+
+  describe('adds', () => {
+    it('clears older properties the add leaves out, whichever arrives first', () => {
+      const filled = update(3, 'a', { fill: '#ffec99' })
+      const readded = add(5, 'b')
+      expect(boardAfter([add(1, 'a'), filled, readded])).toEqual([element])
+      expect(boardAfter([add(1, 'a'), readded, filled])).toEqual([element])
+      expect(boardAfter([readded, filled, add(1, 'a')])).toEqual([element])
+    })
+
+    it('keeps newer properties the add leaves out', () => {
+      const filled = update(7, 'a', { fill: '#ffec99' })
+      expect(boardAfter([add(5, 'b'), filled])).toEqual([{ ...element, fill: '#ffec99' }])
+      expect(boardAfter([filled, add(5, 'b')])).toEqual([{ ...element, fill: '#ffec99' }])
+    })
+  })
+
+  it('settles concurrent writes to one property by clock, then client id', () => {
+    expect(boardAfter([add(1, 'a'), update(4, 'a', { x: 10 }), update(4, 'b', { x: 20 })])[0].x).toBe(20)
+    expect(boardAfter([add(1, 'a'), update(4, 'b', { x: 20 }), update(4, 'a', { x: 10 })])[0].x).toBe(20)
+  })
+
+  it('keeps concurrent writes to different properties', () => {
+    const [merged] = boardAfter([add(1, 'a'), update(4, 'a', { x: 10 }), update(4, 'b', { color: '#e03131' })])
+    expect(merged).toEqual({ ...element, x: 10, color: '#e03131' })
+  })
+
+  it('draws elements by position, then id', () => {
+    const other = { ...element, id: 'other', position: 'Zz' }
+    const twin = { ...element, id: 'twin' }
+    expect(boardAfter([add(1, 'a', twin), add(1, 'a'), add(1, 'a', other)]).map(({ id }) => id))
+      .toEqual(['other', 'shape', 'twin'])
+  })
+
+  it('turns a local edit into operations that rebuild it elsewhere', () => {
+    const local = createBoardDocument(createLogicalClock('local'))
+    local.load([element, { ...element, id: 'second', position: 'a1' }])
+    const [first, second] = local.getElements()
+    // Move the first element to the top and recolor the second
+    const operations = local.change([{ ...second, color: '#1971c2' }, first])
+
+    expect(operations.every(operation => operation.type === 'update')).toBe(true)
+    const remote = createBoardDocument(createLogicalClock('remote'))
+    remote.load([element, { ...element, id: 'second', position: 'a1' }])
+    remote.apply(operations)
+    expect(remote.getElements()).toEqual(local.getElements())
+    expect(remote.getElements().map(({ id }) => id)).toEqual(['second', 'shape'])
+  })
+
+  it('returns the same array until the board changes', () => {
+    const board = createBoardDocument(createLogicalClock('local'))
+    board.load([element])
+    expect(board.apply([update(1, 'a', { x: 50 })])).toBe(true)
+    const elements = board.getElements()
+    expect(board.getElements()).toBe(elements)
+    // Operations already applied change nothing
+    expect(board.apply([update(1, 'a', { x: 50 })])).toBe(false)
+    expect(board.getElements()).toBe(elements)
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import type { WhiteboardElement } from '../src/types/whiteboard'
+import {
+  BOARD_FILE_VERSION,
+  createBoardFile,
+  getBoardFilename,
+  parseBoardFile,
+  restoreBoardFile,
+  serializeBoardFile
+} from '../src/lib/boardFile'
+
+const viewport = { x: 10, y: -20, zoom: 1.5 }
+const IMAGE = 'data:image/png;base64,iVBORw0KGgo='
+
+const elements: WhiteboardElement[] = [
+  { id: 'shape', type: 'rectangle', x: 0, y: 0, width: 40, height: 30, color: '#000000', strokeWidth: 2, position: 'a0', selected: true },
+  {
+    id: 'note',
+    type: 'rich-note',
+    x: 100,
+    y: 0,
+    width: 200,
+    height: 150,
+    color: '#000000',
+    strokeWidth: 1,
+    position: 'a1',
+    richNote: {
+      id: 'note',
+      content: `<p>Plan</p><img src="${IMAGE}">`,
+      comments: [{ id: 'comment', text: 'Looks good', author: 'Sam', authorId: 'user_1', timestamp: 1 }]
+    }
+  }
+]
+
+// A valid file to break in one place at a time
+async function validFile() {
+  return JSON.parse(serializeBoardFile(await createBoardFile(elements, viewport, { name: 'Roadmap' })))
+}
+
+const parse = (data: unknown) => () => parseBoardFile(JSON.stringify(data))
+
+describe('board files', () => {
+  it('round-trips a board, embedding images and moving comments aside', async () => {
+    const file = await createBoardFile(elements, viewport, { name: 'Roadmap' })
+    expect(Object.keys(file.assets)).toEqual(['image-1'])
+    expect(file.elements[1].richNote).toMatchObject({ content: '<p>Plan</p><img src="asset:image-1">', comments: [] })
+    expect(file.comments.note).toHaveLength(1)
+
+    const restored = restoreBoardFile(parseBoardFile(serializeBoardFile(file)))
+    expect(restored.name).toBe('Roadmap')
+    expect(restored.viewport).toEqual(viewport)
+    // Selection is not part of the file
+    expect(restored.elements).toEqual(elements.map(({ selected: _selected, ...element }) => element))
+  })
+
+  it('names files after the board', () => {
+    expect(getBoardFilename('  Q3 Roadmap! ')).toBe('q3-roadmap.board.json')
+    expect(getBoardFilename('???')).toBe('whiteboard.board.json')
+  })
+
+  describe('rejects', () => {
+    it('files that are not JSON, including truncated ones', async () => {
+      const text = serializeBoardFile(await createBoardFile(elements, viewport, { name: 'Roadmap' }))
+      expect(() => parseBoardFile('not json')).toThrow('The file is not valid JSON.')
+      expect(() => parseBoardFile(text.slice(0, text.length / 2))).toThrow('The file is not valid JSON.')
+    })
+
+    it('JSON that is not a board file', () => {
+      expect(parse([1, 2])).toThrow('not a whiteboard board file')
+      expect(parse({ format: 'something-else', version: 1 })).toThrow('not a whiteboard board file')
+    })
+
+    it('missing, invalid and newer format versions', async () => {
+      const file = await validFile()
+      expect(parse({ ...file, version: undefined })).toThrow('no valid format version')
+      expect(parse({ ...file, version: 0 })).toThrow('no valid format version')
+      expect(parse({ ...file, version: 1.5 })).toThrow('no valid format version')
+      expect(parse({ ...file, version: BOARD_FILE_VERSION + 1 })).toThrow(`newer version of the app (format ${BOARD_FILE_VERSION + 1})`)
+    })
+
+    it('missing board details and viewports', async () => {
+      const file = await validFile()
+      expect(parse({ ...file, board: { name: 3 } })).toThrow('board details are missing or invalid')
+      expect(parse({ ...file, viewport: undefined })).toThrow('viewport is missing or invalid')
+      expect(parse({ ...file, viewport: { ...viewport, zoom: 0 } })).toThrow('viewport is missing or invalid')
+    })
+
+    it('invalid elements, saying which', async () => {
+      const file = await validFile()
+      expect(parse({ ...file, elements: {} })).toThrow('no element list')
+      expect(parse({ ...file, elements: [file.elements[0], { ...file.elements[1], x: 'far' }] }))
+        .toThrow('Element 2 is invalid (x:')
+      expect(parse({ ...file, elements: [file.elements[0], file.elements[0]] }))
+        .toThrow('Element 2 reuses the id "shape".')
+    })
+
+    it('invalid comments and assets', async () => {
+      const file = await validFile()
+      expect(parse({ ...file, comments: { note: [{ text: 'no author' }] } })).toThrow('comments are invalid')
+      expect(parse({ ...file, assets: { 'image-1': { mimeType: 'image/png' } } })).toThrow('assets are invalid')
+    })
+
+    it('rich notes pointing at an image the file lacks', async () => {
+      const file = parseBoardFile(JSON.stringify({ ...await validFile(), assets: {} }))
+      expect(() => restoreBoardFile(file)).toThrow('missing image "asset:image-1"')
+    })
+  })
+
+  it('migrates elements from files of older builds', async () => {
+    const file = await validFile()
+    const arrow = { id: 'arrow', type: 'arrow', x: 0, y: 0, width: 50, height: 0, color: '#000000', strokeWidth: 2 }
+    const parsed = parseBoardFile(JSON.stringify({ ...file, elementSchemaVersion: 1, elements: [arrow] }))
+    expect(parsed.elements[0]).toMatchObject({ routing: 'straight', startArrowhead: 'none', endArrowhead: 'triangle' })
+  })
+})
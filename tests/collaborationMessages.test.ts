@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest'
+import { parseBoardMessage, splitForPublishing } from '../src/lib/collaborationMessages'
+
+const message = (type: string, data: unknown) => ({ type, data, timestamp: 0 })
+
+describe('splitForPublishing', () => {
+  it('keeps every part under the limit, in order', () => {
+    const items = Array.from({ length: 100 }, (_, index) => ({ id: `element_${index}`, text: 'x'.repeat(50) }))
+    const parts = splitForPublishing(items, 1000)
+
+    expect(parts.length).toBeGreaterThan(1)
+    parts.forEach(part => expect(new TextEncoder().encode(JSON.stringify(part)).length).toBeLessThanOrEqual(1000))
+    expect(parts.flat()).toEqual(items)
+  })
+
+  it('counts bytes rather than characters', () => {
+    const items = Array.from({ length: 4 }, () => '€'.repeat(100))
+    // 300 bytes each, though only 100 characters
+    expect(splitForPublishing(items, 700)).toHaveLength(2)
+  })
+
+  it('makes one empty part for an empty list', () => {
+    expect(splitForPublishing([])).toEqual([[]])
+  })
+
+  it('leaves out items too big to send on their own', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    expect(splitForPublishing(['small', 'x'.repeat(2000), 'small'], 1000)).toEqual([['small', 'small']])
+    expect(error).toHaveBeenCalledOnce()
+    error.mockRestore()
+  })
+})
+
+describe('parseBoardMessage', () => {
+  it('reads a resync request with its version', () => {
+    expect(parseBoardMessage(message('sync-request', { boardId: 'b', requestId: 'r', version: { peer: 12 } }), 'b'))
+      .toEqual({ type: 'sync-request', boardId: 'b', requestId: 'r', version: { peer: 12 } })
+  })
+
+  it('marks the last part of a resync answer', () => {
+    const parsed = parseBoardMessage(message('sync-response', { boardId: 'b', requestId: 'r', changes: [], final: true }), 'b')
+    expect(parsed).toMatchObject({ type: 'sync-response', final: true, changes: [] })
+  })
+
+  it('reads the elements of a preview, leaving out invalid ones', () => {
+    const stroke = { id: 'stroke', type: 'path', x: 0, y: 0, color: '#000000', strokeWidth: 2, points: [{ x: 0, y: 0 }] }
+    const parsed = parseBoardMessage(message('element-preview', { boardId: 'b', elements: [stroke, { id: 'bad' }] }), 'b')
+    expect(parsed).toEqual({ type: 'element-preview', boardId: 'b', elements: [stroke] })
+    expect(parseBoardMessage(message('element-preview', { boardId: 'b', elements: 'none' }), 'b'))
+      .toEqual({ type: 'element-preview', boardId: 'b', elements: [] })
+  })
+
+  it('ignores messages for other boards', () => {
+    expect(parseBoardMessage(message('sync-changes', { boardId: 'other', changes: [] }), 'b')).toBeNull()
+  })
+
+  it('rejects malformed messages', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    expect(parseBoardMessage(message('sync-request', { boardId: 'b', requestId: 'r', version: 12 }), 'b')).toBeNull()
+    error.mockRestore()
+  })
+})
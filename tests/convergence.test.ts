@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { WhiteboardElement } from '../src/types/whiteboard'
+import { createBoardDocument } from '../src/lib/boardDocument'
+import { createLogicalClock } from '../src/lib/operations'
+import { simulateConvergence } from './convergenceSimulation'
+
+const stored: WhiteboardElement[] = [
+  { id: 'a', type: 'rectangle', x: 0, y: 0, width: 40, height: 30, color: '#000000', strokeWidth: 2, position: 'a0' },
+  { id: 'b', type: 'circle', x: 100, y: 0, width: 40, height: 30, color: '#000000', strokeWidth: 2, position: 'a1' }
+]
+
+describe('board document convergence', () => {
+  it('gives every peer the same board whatever order operations arrive in', () => {
+    expect(simulateConvergence({ runs: 50 }).failedSeeds).toEqual([])
+  })
+
+  it('converges with many peers editing a little each', () => {
+    expect(simulateConvergence({ peers: 8, edits: 80, runs: 20, seed: 1000 }).failedSeeds).toEqual([])
+  })
+
+  it('keeps operations that arrive before the board has loaded', () => {
+    const editor = createBoardDocument(createLogicalClock('editor'))
+    editor.load(stored)
+    const [a, b] = editor.getElements()
+    const operations = editor.change([
+      { ...a, x: 200 },
+      { id: 'c', type: 'text', x: 0, y: 100, text: 'Hello', color: '#000000', strokeWidth: 1 }
+    ])
+
+    const joiner = createBoardDocument(createLogicalClock('joiner'))
+    joiner.apply(operations)
+    joiner.load(stored)
+
+    expect(joiner.getElements()).toEqual(editor.getElements())
+    expect(joiner.getElements().map(element => element.id)).not.toContain(b.id)
+  })
+
+  it('keeps local edits made before the board has loaded', () => {
+    const board = createBoardDocument(createLogicalClock('local'))
+    board.change([{ id: 'c', type: 'rectangle', x: 0, y: 0, width: 10, height: 10, color: '#e03131', strokeWidth: 2 }])
+    board.load(stored)
+
+    expect(board.getElements().map(element => element.id).sort()).toEqual(['a', 'b', 'c'])
+  })
+
+  describe('resync', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('swaps edits with a client whose clock runs far behind', () => {
+      vi.useFakeTimers()
+      const ahead = createBoardDocument(createLogicalClock('ahead'))
+      const behind = createBoardDocument(createLogicalClock('behind'))
+      ahead.load(stored)
+      behind.load(stored)
+
+      // Both lose the connection and edit meanwhile, an hour apart by their clocks
+      const aheadLost = ahead.getVersion()
+      const behindLost = behind.getVersion()
+      vi.setSystemTime(new Date('2026-01-01T12:00:00Z'))
+      const [a, b] = ahead.getElements()
+      ahead.change([{ ...a, color: '#e03131' }, b])
+      vi.setSystemTime(new Date('2026-01-01T11:00:00Z'))
+      behind.change([a, { ...b, color: '#1971c2' }])
+
+      // Each sends its own changes and answers with what the other is missing
+      behind.merge(ahead.getChangesSince(behindLost))
+      ahead.merge(behind.getChangesSince(aheadLost))
+      expect(ahead.getElements().map(element => element.color)).toEqual(['#e03131', '#1971c2'])
+      expect(behind.getElements()).toEqual(ahead.getElements())
+
+      // Nothing left to swap
+      expect(ahead.getChangesSince(behind.getVersion())).toEqual([])
+    })
+
+    it('leaves out the stored board, which every client loads', () => {
+      const board = createBoardDocument(createLogicalClock('joiner'))
+      board.load(stored)
+      expect(board.getChangesSince({})).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,144 @@
+import type { WhiteboardElement } from '../src/types/whiteboard'
+import { type BoardDocument, createBoardDocument } from '../src/lib/boardDocument'
+import { type ElementOperation, createLogicalClock } from '../src/lib/operations'
+
+// Checks that board documents converge: several simulated peers make random
+// edits, and each peer receives everyone else's operations late, shuffled
+// and sometimes twice. Once everything is delivered every peer must show the
+// same board.
+
+export interface SimulationOptions {
+  peers?: number
+  // Local edits across all peers
+  edits?: number
+  // Independent runs, each from its own seed
+  runs?: number
+  seed?: number
+}
+
+export interface SimulationResult {
+  runs: number
+  // Seeds of runs whose peers ended up with different boards
+  failedSeeds: number[]
+}
+
+interface Peer {
+  board: BoardDocument
+  // Operations sent to this peer and not delivered yet
+  inbox: ElementOperation[]
+}
+
+// Deterministic, so a failing seed can be run again
+function createRandom(seed: number) {
+  let state = seed % 2147483647 || 1
+  return () => {
+    state = state * 16807 % 2147483647
+    return (state - 1) / 2147483646
+  }
+}
+
+const COLORS = ['#000000', '#e03131', '#2f9e44', '#1971c2']
+
+function randomEdit(elements: WhiteboardElement[], random: () => number, nextId: () => string): WhiteboardElement[] {
+  const pick = () => elements[Math.floor(random() * elements.length)]
+  const roll = random()
+
+  if (elements.length === 0 || roll < 0.3) {
+    const element: WhiteboardElement = {
+      id: nextId(),
+      type: 'rectangle',
+      x: Math.round(random() * 500),
+      y: Math.round(random() * 500),
+      width: 40,
+      height: 30,
+      color: COLORS[Math.floor(random() * COLORS.length)],
+      strokeWidth: 2
+    }
+    const at = Math.floor(random() * (elements.length + 1))
+    return [...elements.slice(0, at), element, ...elements.slice(at)]
+  }
+
+  const target = pick()
+  if (roll < 0.45) return elements.filter(element => element !== target)
+  if (roll < 0.6) {
+    const rest = elements.filter(element => element !== target)
+    const at = Math.floor(random() * (rest.length + 1))
+    return [...rest.slice(0, at), target, ...rest.slice(at)]
+  }
+  if (roll < 0.75) {
+    return elements.map(element => element === target
+      ? { ...element, x: element.x + 10, y: element.y - 5 }
+      : element)
+  }
+  if (roll < 0.9) {
+    return elements.map(element => element === target
+      ? { ...element, color: COLORS[Math.floor(random() * COLORS.length)], fill: random() < 0.5 ? '#ffec99' : undefined }
+      : element)
+  }
+  // Selection is local, so it must not disturb convergence
+  return elements.map(element => element === target ? { ...element, selected: !element.selected } : element)
+}
+
+// Takes a random share of a peer's inbox, in random order
+function deliver(peer: Peer, random: () => number, share: number) {
+  const shuffled = peer.inbox
+    .map(operation => ({ operation, key: random() }))
+    .sort((a, b) => a.key - b.key)
+    .map(item => item.operation)
+  const count = Math.ceil(shuffled.length * share)
+  const delivered = shuffled.slice(0, count)
+  peer.inbox = shuffled.slice(count)
+
+  // Now and then a message arrives twice
+  peer.board.apply(delivered.flatMap(operation => random() < 0.05 ? [operation, operation] : [operation]))
+}
+
+// Peers may learn properties in different orders, so keys are sorted
+function describe(board: BoardDocument) {
+  return JSON.stringify(board.getElements().map(({ selected: _selected, ...element }) => (
+    Object.fromEntries(Object.entries(element).sort(([a], [b]) => a < b ? -1 : 1))
+  )))
+}
+
+function runOnce(seed: number, peerCount: number, edits: number) {
+  const random = createRandom(seed)
+  let idCount = 0
+  const nextId = () => `element_${idCount++}`
+  const peers: Peer[] = Array.from({ length: peerCount }, (_, index) => ({
+    board: createBoardDocument(createLogicalClock(`peer_${index}`)),
+    inbox: []
+  }))
+  // Ids deleted somewhere, to add back now and then as undo does
+  const deleted: WhiteboardElement[] = []
+
+  for (let edit = 0; edit < edits; edit++) {
+    const peer = peers[Math.floor(random() * peers.length)]
+    const before = peer.board.getElements()
+    let next = randomEdit(before, random, nextId)
+    if (deleted.length > 0 && random() < 0.05) {
+      next = [...next, deleted.splice(Math.floor(random() * deleted.length), 1)[0]]
+    }
+    const nextIds = new Set(next.map(element => element.id))
+    deleted.push(...before.filter(element => !nextIds.has(element.id)))
+
+    const operations = peer.board.change(next)
+    peers.forEach(other => {
+      if (other !== peer) other.inbox.push(...operations)
+    })
+    peers.forEach(other => {
+      if (random() < 0.3) deliver(other, random, random())
+    })
+  }
+
+  peers.forEach(peer => deliver(peer, random, 1))
+  const expected = describe(peers[0].board)
+  return peers.every(peer => describe(peer.board) === expected)
+}
+
+export function simulateConvergence({ peers = 4, edits = 200, runs = 50, seed = 1 }: SimulationOptions = {}): SimulationResult {
+  const failedSeeds: number[] = []
+  for (let run = 0; run < runs; run++) {
+    if (!runOnce(seed + run, peers, edits)) failedSeeds.push(seed + run)
+  }
+  return { runs, failedSeeds }
+}
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { WhiteboardElement } from '../src/types/whiteboard'
+import {
+  ELEMENT_SCHEMA_VERSION,
+  migrateElement,
+  parseElement,
+  parseStoredElements,
+  serializeElement
+} from '../src/lib/elementSchema'
+import { parseRemoteOperations } from '../src/lib/operations'
+
+const rectangle = { id: 'shape', type: 'rectangle', x: 0, y: 0, width: 40, height: 30, color: '#000000', strokeWidth: 2 }
+
+describe('element schema', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('migration from version 1', () => {
+    it('gives old connectors their routing and arrowheads', () => {
+      const arrow = { ...rectangle, id: 'arrow', type: 'arrow' }
+      expect(migrateElement(arrow)).toEqual({ ...arrow, routing: 'straight', startArrowhead: 'none', endArrowhead: 'triangle' })
+      expect(migrateElement({ ...arrow, type: 'line' })).toMatchObject({ endArrowhead: 'none' })
+      // Choices already made are kept
+      expect(migrateElement({ ...arrow, routing: 'elbow', endArrowhead: 'circle' }))
+        .toMatchObject({ routing: 'elbow', endArrowhead: 'circle' })
+    })
+
+    it('gives rich notes without a note an empty one', () => {
+      expect(migrateElement({ ...rectangle, type: 'rich-note' }).richNote).toEqual({ id: 'shape', content: '', comments: [] })
+    })
+
+    it('leaves current elements alone', () => {
+      const arrow = { ...rectangle, type: 'arrow' }
+      expect(migrateElement(arrow, ELEMENT_SCHEMA_VERSION)).toBe(arrow)
+    })
+
+    it('prefers the version stored with the element over the payload version', () => {
+      const result = parseElement({ ...rectangle, type: 'arrow', schemaVersion: 1 }, ELEMENT_SCHEMA_VERSION)
+      expect(result).toMatchObject({ success: true, element: { routing: 'straight' } })
+      expect(result.success && 'schemaVersion' in result.element).toBe(false)
+    })
+  })
+
+  describe('validation', () => {
+    it('accepts a valid element', () => {
+      expect(parseElement(rectangle, ELEMENT_SCHEMA_VERSION)).toEqual({ success: true, element: rectangle })
+    })
+
+    it('rejects malformed elements, naming the field', () => {
+      expect(parseElement(null)).toEqual({ success: false, error: 'element is not an object' })
+      expect(parseElement([rectangle])).toEqual({ success: false, error: 'element is not an object' })
+      expect(parseElement({ ...rectangle, type: 'hexagon' })).toMatchObject({ success: false, error: expect.stringContaining('type') })
+      expect(parseElement({ ...rectangle, x: '12' })).toMatchObject({ success: false, error: expect.stringContaining('x') })
+      expect(parseElement({ ...rectangle, strokeWidth: -1 })).toMatchObject({ success: false })
+      expect(parseElement({ ...rectangle, points: [{ x: 1 }] })).toMatchObject({ success: false, error: expect.stringContaining('points.0.y') })
+    })
+
+    it('skips stored rows that are corrupt or invalid', () => {
+      const rows = [serializeElement({ ...rectangle, selected: true } as WhiteboardElement), '{"id":', JSON.stringify({ id: 'bad' })]
+      expect(parseStoredElements(rows)).toEqual([rectangle])
+      expect(console.error).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('remote operations', () => {
+    const add = { type: 'add', id: 'shape', clock: 5, clientId: 'peer', element: { ...rectangle, position: 'a0' } }
+    const update = { type: 'update', id: 'shape', clock: 6, clientId: 'peer', properties: { x: 10 }, unset: ['fill'] }
+    const remove = { type: 'delete', id: 'shape', clock: 7, clientId: 'peer' }
+
+    it('reads valid operations', () => {
+      expect(parseRemoteOperations([add, update, remove], ELEMENT_SCHEMA_VERSION)).toEqual([add, update, remove])
+    })
+
+    it('skips each bad operation on its own', () => {
+      const bad = [
+        { ...add, clock: -1 },
+        { ...add, element: { ...rectangle, x: 'far', position: 'a0' } },
+        { ...add, element: { ...rectangle, id: 'other', position: 'a0' } },
+        { ...add, element: { ...rectangle, position: 'not an index!' } },
+        { ...update, properties: { x: 'far' } },
+        { ...update, properties: { position: 'a00' } },
+        { ...update, unset: ['color'] },
+        { ...remove, type: 'explode' },
+        'not an operation'
+      ]
+      expect(parseRemoteOperations([add, ...bad, remove], ELEMENT_SCHEMA_VERSION)).toEqual([add, remove])
+      expect(console.error).toHaveBeenCalledTimes(bad.length)
+    })
+
+    it('migrates added elements from older clients', () => {
+      const arrow = { ...add, element: { ...rectangle, type: 'arrow', position: 'a0' } }
+      expect(parseRemoteOperations([arrow], 1)[0]).toMatchObject({ element: { routing: 'straight' } })
+    })
+
+    it('rejects a batch that is not a list', () => {
+      expect(parseRemoteOperations({ 0: add })).toEqual([])
+    })
+  })
+})
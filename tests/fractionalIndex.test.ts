@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { indexBetween, indexesBetween, isValidIndex } from '../src/lib/fractionalIndex'
+
+describe('fractional indexes', () => {
+  it('starts in the middle of the key space', () => {
+    expect(indexBetween(null, null)).toBe('a0')
+  })
+
+  it('counts up and down through integer parts at the ends', () => {
+    expect(indexBetween('a0', null)).toBe('a1')
+    expect(indexBetween(null, 'a0')).toBe('Zz')
+    expect(indexBetween('az', null)).toBe('b00')
+    expect(indexBetween(null, 'b00')).toBe('az')
+  })
+
+  it('fits a key between any two', () => {
+    const pairs: [string, string][] = [['a0', 'a1'], ['a0', 'a0V'], ['a0V', 'a1'], ['Zz', 'a0'], ['a1', 'a10001']]
+    pairs.forEach(([a, b]) => {
+      const key = indexBetween(a, b)
+      expect(isValidIndex(key)).toBe(true)
+      expect(a < key && key < b).toBe(true)
+    })
+  })
+
+  it('keeps fitting keys into the same gap', () => {
+    let upper = 'a1'
+    for (let i = 0; i < 200; i++) {
+      const key = indexBetween('a0', upper)
+      expect('a0' < key && key < upper).toBe(true)
+      upper = key
+    }
+  })
+
+  it('rejects bounds that are out of order', () => {
+    expect(() => indexBetween('a1', 'a0')).toThrow()
+    expect(() => indexBetween('a1', 'a1')).toThrow()
+  })
+
+  it('spreads several keys evenly between two', () => {
+    const keys = indexesBetween('a0', 'a1', 10)
+    expect(keys).toHaveLength(10)
+    expect([...keys].sort()).toEqual(keys)
+    expect(new Set(keys).size).toBe(10)
+    expect(keys[0] > 'a0' && keys[9] < 'a1').toBe(true)
+    expect(indexesBetween(null, 'a0', 3)).toEqual([...indexesBetween(null, 'a0', 3)].sort())
+    expect(indexesBetween('a0', null, 0)).toEqual([])
+  })
+
+  it('tells valid keys from invalid ones', () => {
+    expect(isValidIndex('a0')).toBe(true)
+    expect(isValidIndex('a0V')).toBe(true)
+    // A fraction never ends in zero
+    expect(isValidIndex('a00')).toBe(false)
+    // The integer part is shorter than its head says
+    expect(isValidIndex('b0')).toBe(false)
+    expect(isValidIndex('a!')).toBe(false)
+    expect(isValidIndex('')).toBe(false)
+    expect(isValidIndex(3)).toBe(false)
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import type { Bounds, Point, WhiteboardElement } from '../src/types/whiteboard'
+import { getElementBounds, hitTest, hitTestAll, isPointInElement } from '../src/lib/geometry'
+import { getSelectionBounds } from '../src/lib/selection'
+
+const base = { color: '#000000', strokeWidth: 2 }
+const rectangle: WhiteboardElement = { ...base, id: 'rectangle', type: 'rectangle', x: 0, y: 0, width: 100, height: 50 }
+const circle: WhiteboardElement = { ...base, id: 'circle', type: 'circle', x: 0, y: 0, width: 100, height: 100 }
+const path: WhiteboardElement = {
+  ...base, id: 'path', type: 'path', x: 0, y: 0, points: [{ x: 0, y: 0 }, { x: 50, y: 0 }, { x: 100, y: 0 }]
+}
+const line: WhiteboardElement = { ...base, id: 'line', type: 'line', x: 0, y: 0, width: 100, height: 100 }
+const elbow: WhiteboardElement = { ...line, id: 'elbow', type: 'arrow', routing: 'elbow' }
+const note: WhiteboardElement = { ...base, id: 'note', type: 'sticky-note', x: 0, y: 0 }
+
+// Without a canvas to measure with, a line of text is 0.6 of the font size
+// wide per character and the font size tall, from 0.8 of it above the
+// baseline. A stroke width of 5 is a 20px font.
+const text: WhiteboardElement = { ...base, id: 'text', type: 'text', x: 10, y: 50, strokeWidth: 5, text: 'ab\nlonger' }
+
+const hits = (element: WhiteboardElement, point: Point, zoom = 1, margin = 0) =>
+  isPointInElement(point, element, zoom, margin)
+
+// Bounds rounded to the pixel, so rotation rounding noise doesn't matter
+const rounded = (bounds: Bounds | null) => bounds && {
+  x: Math.round(bounds.x), y: Math.round(bounds.y), width: Math.round(bounds.width), height: Math.round(bounds.height)
+}
+
+describe('geometry', () => {
+  describe('bounds', () => {
+    it('covers shapes, flipping ones drawn right to left', () => {
+      expect(getElementBounds(rectangle)).toEqual({ x: 0, y: 0, width: 100, height: 50 })
+      expect(getElementBounds({ ...rectangle, x: 100, y: 50, width: -100, height: -50 })).toEqual({ x: 0, y: 0, width: 100, height: 50 })
+      expect(getElementBounds(note)).toEqual({ x: 0, y: 0, width: 100, height: 100 })
+    })
+
+    it('covers the points of paths and the route of connectors', () => {
+      expect(getElementBounds(path)).toEqual({ x: 0, y: 0, width: 100, height: 0 })
+      expect(getElementBounds({ ...path, points: [] })).toEqual({ x: 0, y: 0, width: 0, height: 0 })
+      expect(getElementBounds(elbow)).toEqual({ x: 0, y: 0, width: 100, height: 100 })
+
+      // A curved connector bows out past its straight line
+      const curved = getElementBounds({ ...line, width: 100, height: 0, routing: 'curved' })
+      expect(curved.height).toBeGreaterThan(0)
+    })
+
+    it('stacks every line of text below the first baseline', () => {
+      expect(getElementBounds(text)).toEqual({ x: 10, y: 34, width: 72, height: 45 })
+      expect(getElementBounds({ ...text, text: 'ab' })).toEqual({ x: 10, y: 34, width: 24, height: 20 })
+    })
+
+    it('turns with rotated elements', () => {
+      expect(rounded(getSelectionBounds([{ ...rectangle, rotation: Math.PI / 2 }]))).toEqual({ x: 25, y: -25, width: 50, height: 100 })
+      expect(rounded(getSelectionBounds([{ ...text, rotation: Math.PI / 2 }]))).toEqual({ x: 24, y: 21, width: 45, height: 72 })
+    })
+  })
+
+  describe('hit testing', () => {
+    it('hits shapes anywhere inside, plus the margin', () => {
+      expect(hits(rectangle, { x: 50, y: 25 })).toBe(true)
+      expect(hits(rectangle, { x: 105, y: 25 })).toBe(false)
+      expect(hits(rectangle, { x: 105, y: 25 }, 1, 10)).toBe(true)
+      expect(hits(note, { x: 90, y: 90 })).toBe(true)
+    })
+
+    it('hits circles inside the circle, not the corners of their box', () => {
+      expect(hits(circle, { x: 50, y: 98 })).toBe(true)
+      expect(hits(circle, { x: 5, y: 5 })).toBe(false)
+    })
+
+    it('hits strokes within a tolerance that grows as the board zooms out', () => {
+      expect(hits(path, { x: 50, y: 4 })).toBe(true)
+      expect(hits(path, { x: 50, y: 10 })).toBe(false)
+      expect(hits(path, { x: 50, y: 10 }, 0.5)).toBe(true)
+      expect(hits({ ...path, points: [] }, { x: 0, y: 0 })).toBe(false)
+    })
+
+    it('hits connectors along their route', () => {
+      expect(hits(line, { x: 50, y: 50 })).toBe(true)
+      expect(hits(line, { x: 50, y: 0 })).toBe(false)
+      expect(hits(elbow, { x: 25, y: 0 })).toBe(true)
+      expect(hits(elbow, { x: 50, y: 50 })).toBe(true)
+      expect(hits(elbow, { x: 25, y: 50 })).toBe(false)
+    })
+
+    it('hits every line of multi-line text', () => {
+      expect(hits(text, { x: 12, y: 40 })).toBe(true)
+      expect(hits(text, { x: 70, y: 75 })).toBe(true)
+      expect(hits(text, { x: 12, y: 95 })).toBe(false)
+    })
+
+    it('hits rotated elements where they are drawn', () => {
+      const upright = { ...rectangle, rotation: Math.PI / 2 }
+      expect(hits(upright, { x: 50, y: -20 })).toBe(true)
+      expect(hits(upright, { x: 90, y: 25 })).toBe(false)
+
+      const standing = { ...path, rotation: Math.PI / 2 }
+      expect(hits(standing, { x: 50, y: 40 })).toBe(true)
+      expect(hits(standing, { x: 90, y: 0 })).toBe(false)
+
+      const turnedText = { ...text, rotation: Math.PI / 2 }
+      expect(hits(turnedText, { x: 46, y: 90 })).toBe(true)
+      expect(hits(turnedText, { x: 80, y: 56 })).toBe(false)
+    })
+
+    it('picks the topmost element that passes the filter', () => {
+      const elements = [rectangle, circle, line]
+      const point = { x: 50, y: 50 }
+      expect(hitTestAll(point, elements, 1).map(el => el.id)).toEqual(['line', 'circle', 'rectangle'])
+      expect(hitTest(point, elements, 1)?.id).toBe('line')
+      expect(hitTest(point, elements, 1, el => el.type !== 'line')?.id).toBe('circle')
+      expect(hitTest({ x: 500, y: 500 }, elements, 1)).toBeUndefined()
+    })
+  })
+})
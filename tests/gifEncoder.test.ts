@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import { createGifEncoder } from '../src/lib/gifEncoder'
+
+interface DecodedFrame {
+  delay: number
+  indices: number[]
+  // Clear codes read after the first, i.e. times the code table filled up
+  resets: number
+}
+
+// Reads the image data at `offset`: code size, sub-blocks, terminator.
+// A plain GIF LZW decoder, written from the format rather than the encoder.
+function decodeLzw(bytes: Uint8Array, offset: number) {
+  const minCodeSize = bytes[offset++]
+  const data: number[] = []
+  while (bytes[offset] !== 0) {
+    const length = bytes[offset++]
+    data.push(...bytes.subarray(offset, offset + length))
+    offset += length
+  }
+  offset++
+
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  let table: number[][] = []
+  let codeSize = minCodeSize + 1
+  let previous: number[] | null = null
+  let clears = 0
+  const indices: number[] = []
+
+  const reset = () => {
+    table = Array.from({ length: endCode + 1 }, (_, i) => [i])
+    codeSize = minCodeSize + 1
+    previous = null
+  }
+  reset()
+
+  let bit = 0
+  while (bit + codeSize <= data.length * 8) {
+    let code = 0
+    for (let i = 0; i < codeSize; i++, bit++) {
+      code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i
+    }
+
+    if (code === clearCode) {
+      clears++
+      reset()
+      continue
+    }
+    if (code === endCode) break
+
+    let entry: number[]
+    if (code < table.length) {
+      entry = table[code]
+    } else if (code === table.length && previous) {
+      entry = [...previous, previous[0]]
+    } else {
+      throw new Error(`Code ${code} is not in a table of ${table.length}`)
+    }
+    indices.push(...entry)
+
+    if (previous && table.length < 4096) {
+      table.push([...previous, entry[0]])
+    }
+    if (table.length === 1 << codeSize && codeSize < 12) {
+      codeSize++
+    }
+    previous = entry
+  }
+
+  return { indices, resets: clears - 1, offset }
+}
+
+// Frames and the global palette of a GIF89a file
+function decodeGif(bytes: Uint8Array) {
+  expect(String.fromCharCode(...bytes.subarray(0, 6))).toBe('GIF89a')
+  const width = bytes[6] | (bytes[7] << 8)
+  const height = bytes[8] | (bytes[9] << 8)
+  const paletteSize = 2 << (bytes[10] & 7)
+  const palette = bytes.subarray(13, 13 + paletteSize * 3)
+
+  const frames: DecodedFrame[] = []
+  let delay = 0
+  let offset = 13 + paletteSize * 3
+  while (bytes[offset] !== 0x3b) {
+    const introducer = bytes[offset++]
+    if (introducer === 0x21) {
+      const label = bytes[offset++]
+      if (label === 0xf9) delay = bytes[offset + 2] | (bytes[offset + 3] << 8)
+      while (bytes[offset] !== 0) offset += bytes[offset] + 1
+      offset++
+    } else if (introducer === 0x2c) {
+      expect(bytes[offset + 8]).toBe(0) // No local palette, not interlaced
+      const { indices, resets, offset: next } = decodeLzw(bytes, offset + 9)
+      frames.push({ delay, indices, resets })
+      offset = next
+    } else {
+      throw new Error(`Unexpected block ${introducer} at ${offset - 1}`)
+    }
+  }
+
+  return { width, height, palette, frames }
+}
+
+// Deterministic noise: RGBA pixels drawn from the palette's colour cube,
+// never grey, so each maps back to exactly one palette entry
+function noise(count: number, seed: number) {
+  const pixels = new Uint8ClampedArray(count * 4)
+  let state = seed
+  const next = () => {
+    state = (state * 1103515245 + 12345) >>> 0
+    return (state >>> 16) % 6
+  }
+  for (let p = 0; p < pixels.length; p += 4) {
+    let r = next()
+    let g = next()
+    const b = next()
+    if (r === g && g === b) {
+      r = (r + 1) % 6
+      g = (g + 3) % 6
+    }
+    pixels.set([r * 51, g * 51, b * 51, 255], p)
+  }
+  return pixels
+}
+
+async function encode(width: number, height: number, frames: Array<[Uint8ClampedArray, number]>) {
+  const encoder = createGifEncoder(width, height)
+  frames.forEach(([pixels, delay]) => encoder.addFrame(pixels, delay))
+  return decodeGif(new Uint8Array(await encoder.finish().arrayBuffer()))
+}
+
+// Palette colour of every decoded pixel, as RGBA
+function colours(palette: Uint8Array, indices: number[]) {
+  return indices.flatMap(index => [...palette.subarray(index * 3, index * 3 + 3), 255])
+}
+
+describe('gif encoder', () => {
+  it('decodes back to the frame, across code table resets', async () => {
+    const pixels = noise(120 * 100, 7)
+    const gif = await encode(120, 100, [[pixels, 100]])
+
+    expect(gif.width).toBe(120)
+    expect(gif.height).toBe(100)
+    expect(gif.frames).toHaveLength(1)
+    expect(gif.frames[0].resets).toBeGreaterThan(0)
+    expect(colours(gif.palette, gif.frames[0].indices)).toEqual(Array.from(pixels))
+  })
+
+  it('decodes flat and repetitive frames that grow long table entries', async () => {
+    const white = new Uint8ClampedArray(64 * 64 * 4).fill(255)
+    const stripes = noise(64, 3)
+    const striped = new Uint8ClampedArray(64 * 64 * 4)
+    for (let row = 0; row < 64; row++) striped.set(stripes, row * 64 * 4)
+
+    const gif = await encode(64, 64, [[white, 500], [striped, 40]])
+    expect(gif.frames.map(frame => frame.delay)).toEqual([50, 4])
+    expect(colours(gif.palette, gif.frames[0].indices)).toEqual(Array.from(white))
+    expect(colours(gif.palette, gif.frames[1].indices)).toEqual(Array.from(striped))
+  })
+
+  it('flattens transparency onto white', async () => {
+    const gif = await encode(2, 1, [[new Uint8ClampedArray([255, 0, 0, 0, 255, 0, 0, 255]), 100]])
+    expect(colours(gif.palette, gif.frames[0].indices)).toEqual([255, 255, 255, 255, 255, 0, 0, 255])
+  })
+})
@@ -0,0 +1,149 @@
+import 'fake-indexeddb/auto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { BoardStorage } from '../src/lib/boardStorage'
+import { createMemoryStorage } from '../src/lib/memoryStorage'
+import { createOutbox } from '../src/lib/outbox'
+import { createOfflineSync } from '../src/lib/offlineSync'
+
+const session = { id: 'board', name: 'Board', createdAt: '', updatedAt: '', userId: 'local-user' }
+
+let databaseCount = 0
+
+// Offline sync over in-memory storage, with a backend that fails while
+// `offline` is set
+async function setup() {
+  const remote = createMemoryStorage()
+  const local = createMemoryStorage()
+  await remote.createSession(session)
+  await local.createSession(session)
+  const state = { offline: false }
+  const failing = <K extends 'writeElements' | 'appendOperation'>(method: K) =>
+    (async (...args: unknown[]) => {
+      if (state.offline) throw new Error('offline')
+      return (remote[method] as (...args: unknown[]) => Promise<void>)(...args)
+    }) as BoardStorage[K]
+  const backend: BoardStorage = { ...remote, writeElements: failing('writeElements'), appendOperation: failing('appendOperation') }
+  const outbox = createOutbox(`offline-sync-test-${databaseCount++}`)
+  return { sync: createOfflineSync(backend, local, outbox), remote, local, outbox, state }
+}
+
+describe('offline sync', () => {
+  // Retries only happen when a test moves the clock on
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] })
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('writes locally and sends the outbox to the backend', async () => {
+    const { sync, remote, local, outbox } = await setup()
+    await sync.writeElements('board', { upserts: [{ id: 'a', data: 'a1' }], deletes: [] })
+    expect(await local.listElements('board')).toEqual([{ id: 'a', data: 'a1' }])
+
+    await sync.sync()
+    expect(await remote.listElements('board')).toEqual([{ id: 'a', data: 'a1' }])
+    expect(await outbox.count()).toBe(0)
+    expect(sync.getStatus()).toEqual({ state: 'saved', pending: 0 })
+  })
+
+  it('sends replay log entries after the changes they record', async () => {
+    const { sync, remote, state } = await setup()
+    const order: string[] = []
+    const appendOperation = remote.appendOperation
+    const writeElements = remote.writeElements
+    remote.appendOperation = async operation => {
+      order.push('operation')
+      return appendOperation(operation)
+    }
+    remote.writeElements = async (sessionId, changes) => {
+      order.push('elements')
+      return writeElements(sessionId, changes)
+    }
+
+    state.offline = true
+    await sync.writeElements('board', { upserts: [{ id: 'a', data: 'a1' }], deletes: [] })
+    await sync.appendOperation({ id: 'op', sessionId: 'board', createdAt: '', userId: 'u', upserts: [{ id: 'a', data: 'a1' }], deletes: [] })
+    state.offline = false
+    await sync.sync()
+
+    expect(order).toEqual(['elements', 'operation'])
+    expect((await remote.listOperations('board')).map(({ id }) => id)).toEqual(['op'])
+  })
+
+  it('backs off while the backend is unreachable', async () => {
+    const { sync, remote, state } = await setup()
+    state.offline = true
+    await sync.writeElements('board', { upserts: [{ id: 'a', data: 'a1' }], deletes: [] })
+    await sync.sync()
+    expect(sync.getStatus()).toEqual({ state: 'offline', pending: 1 })
+    expect(console.error).toHaveBeenLastCalledWith('Failed to sync changes (attempt 1):', expect.any(Error))
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(console.error).toHaveBeenLastCalledWith('Failed to sync changes (attempt 2):', expect.any(Error))
+
+    // The third attempt comes two seconds after the second
+    state.offline = false
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(await remote.listElements('board')).toEqual([])
+    await vi.advanceTimersByTimeAsync(1)
+    await vi.waitFor(async () => expect(await remote.listElements('board')).toEqual([{ id: 'a', data: 'a1' }]))
+    expect(sync.getStatus()).toEqual({ state: 'saved', pending: 0 })
+  })
+
+  it('sends changes queued before a reload', async () => {
+    const name = `offline-sync-test-${databaseCount++}`
+    const remote = createMemoryStorage()
+    await remote.createSession(session)
+    const failingRemote: BoardStorage = { ...remote, writeElements: () => Promise.reject(new Error('offline')) }
+    const before = createOfflineSync(failingRemote, createMemoryStorage(), createOutbox(name))
+    await before.writeElements('board', { upserts: [{ id: 'a', data: 'a1' }], deletes: [] })
+    await before.sync()
+
+    const after = createOfflineSync(remote, createMemoryStorage(), createOutbox(name))
+    await after.sync()
+    expect(await remote.listElements('board')).toEqual([{ id: 'a', data: 'a1' }])
+  })
+
+  it('loads the backend copy with queued changes on top', async () => {
+    const { sync, remote, state } = await setup()
+    await remote.writeElements('board', { upserts: [{ id: 'a', data: 'a1' }, { id: 'b', data: 'b1' }], deletes: [] })
+    state.offline = true
+    await sync.writeElements('board', { upserts: [{ id: 'a', data: 'a2' }], deletes: ['b'] })
+
+    await sync.sync()
+
+    expect(await sync.loadElements('board')).toEqual([{ id: 'a', data: 'a2' }])
+  })
+
+  it('keeps an edit written while the local copy is being replaced', async () => {
+    const { sync, remote, local, state } = await setup()
+    await remote.writeElements('board', { upserts: [{ id: 'a', data: 'a1' }], deletes: [] })
+    await local.writeElements('board', { upserts: [{ id: 'a', data: 'a1' }], deletes: [] })
+    state.offline = true
+
+    // Hold the replacement at its first step
+    let release: (() => void) | undefined
+    const listElements = local.listElements
+    local.listElements = async sessionId => {
+      await new Promise<void>(resolve => {
+        release = resolve
+      })
+      local.listElements = listElements
+      return listElements(sessionId)
+    }
+
+    const loading = sync.loadElements('board')
+    await vi.waitFor(() => expect(release).toBeDefined())
+    const writing = sync.writeElements('board', { upserts: [{ id: 'a', data: 'a2' }], deletes: [] })
+    await vi.advanceTimersByTimeAsync(10)
+    release!()
+    await Promise.all([loading, writing])
+    await sync.sync()
+
+    expect(await local.listElements('board')).toEqual([{ id: 'a', data: 'a2' }])
+  })
+})
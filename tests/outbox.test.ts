@@ -0,0 +1,80 @@
+import 'fake-indexeddb/auto'
+import { describe, expect, it } from 'vitest'
+import type { BoardOperation } from '../src/lib/boardStorage'
+import { createOutbox } from '../src/lib/outbox'
+
+let databaseCount = 0
+// Every test gets a database of its own
+const databaseName = () => `outbox-test-${databaseCount++}`
+
+const operation = (id: string, createdAt: string, sessionId = 'board'): BoardOperation => ({
+  id, sessionId, createdAt, userId: 'user', upserts: [], deletes: []
+})
+
+describe('outbox', () => {
+  it('lists changes oldest first, per session or all', async () => {
+    const outbox = createOutbox(databaseName())
+    await outbox.add('board', { upserts: [{ id: 'b', data: 'b1' }], deletes: [] })
+    await outbox.add('other', { upserts: [{ id: 'c', data: 'c1' }], deletes: [] })
+    await outbox.add('board', { upserts: [{ id: 'a', data: 'a1' }], deletes: ['d'] })
+
+    expect((await outbox.list('board')).map(entry => [entry.elementId, entry.data])).toEqual([['b', 'b1'], ['a', 'a1'], ['d', null]])
+    expect((await outbox.list()).map(entry => entry.elementId)).toEqual(['b', 'c', 'a', 'd'])
+    expect(await outbox.count()).toBe(4)
+  })
+
+  it('collapses changes to one element into the latest', async () => {
+    const outbox = createOutbox(databaseName())
+    await outbox.add('board', { upserts: [{ id: 'a', data: 'a1' }, { id: 'b', data: 'b1' }], deletes: [] })
+    await outbox.add('board', { upserts: [], deletes: ['a'] })
+
+    const entries = await outbox.list('board')
+    expect(entries.map(entry => [entry.elementId, entry.data])).toEqual([['b', 'b1'], ['a', null]])
+  })
+
+  it('keeps entries that changed again after they were listed', async () => {
+    const outbox = createOutbox(databaseName())
+    await outbox.add('board', { upserts: [{ id: 'a', data: 'a1' }, { id: 'b', data: 'b1' }], deletes: [] })
+    const sent = await outbox.list('board')
+    await outbox.add('board', { upserts: [{ id: 'a', data: 'a2' }], deletes: [] })
+    await outbox.remove(sent)
+
+    expect((await outbox.list('board')).map(entry => [entry.elementId, entry.data])).toEqual([['a', 'a2']])
+  })
+
+  it('survives a reload', async () => {
+    const name = databaseName()
+    const before = createOutbox(name)
+    await before.add('board', { upserts: [{ id: 'a', data: 'a1' }], deletes: [] })
+    await before.addOperation(operation('op1', '2026-01-01T00:00:00.000Z'))
+
+    const after = createOutbox(name)
+    expect((await after.list()).map(entry => entry.elementId)).toEqual(['a'])
+    expect((await after.listOperations()).map(({ id }) => id)).toEqual(['op1'])
+    // New changes still sort after the ones from before
+    await after.add('board', { upserts: [{ id: 'b', data: 'b1' }], deletes: [] })
+    expect((await after.list()).map(entry => entry.elementId)).toEqual(['a', 'b'])
+  })
+
+  it('keeps every replay log entry, oldest first', async () => {
+    const outbox = createOutbox(databaseName())
+    await outbox.addOperation(operation('op2', '2026-01-01T00:00:02.000Z'))
+    await outbox.addOperation(operation('op1', '2026-01-01T00:00:01.000Z'))
+    await outbox.addOperation(operation('op3', '2026-01-01T00:00:03.000Z', 'other'))
+
+    expect((await outbox.listOperations('board')).map(({ id }) => id)).toEqual(['op1', 'op2'])
+    await outbox.removeOperations([operation('op1', '')])
+    expect((await outbox.listOperations()).map(({ id }) => id)).toEqual(['op2', 'op3'])
+  })
+
+  it('clears one session only', async () => {
+    const outbox = createOutbox(databaseName())
+    await outbox.add('board', { upserts: [{ id: 'a', data: 'a1' }], deletes: [] })
+    await outbox.add('other', { upserts: [{ id: 'b', data: 'b1' }], deletes: [] })
+    await outbox.addOperation(operation('op1', '2026-01-01T00:00:00.000Z'))
+    await outbox.clear('board')
+
+    expect((await outbox.list()).map(entry => entry.sessionId)).toEqual(['other'])
+    expect(await outbox.listOperations()).toEqual([])
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import type { Bounds, WhiteboardElement } from '../src/types/whiteboard'
+import { type PdfExportOptions, countPdfPages, exportToPdf, findSections } from '../src/lib/exportPdf'
+import { buildPdf, pdfString } from '../src/lib/pdfDocument'
+
+// The file as a string with one character per byte, so indexes are offsets
+const latin1 = (bytes: Uint8Array) => String.fromCharCode(...bytes)
+
+async function exported(elements: WhiteboardElement[], area: Bounds, options: PdfExportOptions) {
+  return latin1(new Uint8Array(await exportToPdf(elements, area, options).arrayBuffer()))
+}
+
+const pageCount = (pdf: string) => Number(pdf.match(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/)![1])
+
+const box = (id: string, x: number, y: number, width: number, height: number): WhiteboardElement =>
+  ({ id, type: 'rectangle', x, y, width, height, color: '#000000', strokeWidth: 2 })
+
+const options: PdfExportOptions = {
+  layout: 'tiled', pageSize: 'a4', orientation: 'portrait', pagesAcross: 1, background: null, showGrid: false
+}
+
+// An A4 portrait page less its half-inch margins, in points
+const CONTENT_WIDTH = 595.28 - 72
+const CONTENT_HEIGHT = 841.89 - 72
+
+describe('pdf document', () => {
+  describe('file structure', () => {
+    const pdf = latin1(buildPdf([
+      { width: 100, height: 200, content: '0 0 m 10 10 l S' },
+      { width: 300, height: 400, content: 'BT /F1 12 Tf (caf\xe9) Tj ET' }
+    ], 'Plan (draft)'))
+
+    it('points every xref entry at its object', () => {
+      const xrefOffset = Number(pdf.match(/startxref\n(\d+)\n%%EOF\n$/)![1])
+      expect(pdf.startsWith('xref\n', xrefOffset)).toBe(true)
+
+      const [, first, count] = pdf.slice(xrefOffset).match(/^xref\n(\d+) (\d+)\n/)!.map(Number)
+      expect(first).toBe(0)
+      const entries = pdf.slice(xrefOffset).split('\n').slice(2, 2 + count)
+      expect(entries[0]).toBe('0000000000 65535 f ')
+      entries.slice(1).forEach((entry, index) => {
+        expect(entry).toMatch(/^\d{10} 00000 n $/)
+        expect(pdf.startsWith(`${index + 1} 0 obj\n`, Number(entry.slice(0, 10)))).toBe(true)
+      })
+      expect(pdf).toContain(`/Size ${count} `)
+    })
+
+    it('gives each content stream its length in bytes', () => {
+      const streams = [...pdf.matchAll(/<< \/Length (\d+) >>\nstream\n/g)]
+      expect(streams).toHaveLength(2)
+      streams.forEach(match => {
+        const start = match.index! + match[0].length
+        expect(pdf.startsWith('\nendstream', start + Number(match[1]))).toBe(true)
+      })
+    })
+
+    it('lists every page', () => {
+      expect(pageCount(pdf)).toBe(2)
+      expect(pdf).toContain('/MediaBox [0 0 300 400]')
+      expect(pdf).toContain('/Title (Plan \\(draft\\))')
+    })
+  })
+
+  describe('strings', () => {
+    it('escapes parentheses and backslashes', () => {
+      expect(pdfString('a(b)c\\d')).toBe('(a\\(b\\)c\\\\d)')
+      expect(pdfString('((')).toBe('(\\(\\()')
+      expect(pdfString('\\)')).toBe('(\\\\\\))')
+    })
+
+    it('encodes in WinAnsi and replaces what it lacks', () => {
+      expect(pdfString('café')).toBe('(caf\xe9)')
+      expect(pdfString('5 €')).toBe('(5 \x80)')
+      expect(pdfString('日本')).toBe('(??)')
+    })
+  })
+
+  describe('page count', () => {
+    // At one page across, this width prints at exactly one point per unit
+    const area = (height: number) => ({ x: 0, y: 0, width: CONTENT_WIDTH, height })
+
+    it('tiles the area down as many pages as it needs', async () => {
+      const elements = [box('a', 10, 10, 50, 50)]
+      for (const [height, pages] of [[100, 1], [CONTENT_HEIGHT * 2, 2], [CONTENT_HEIGHT * 2 + 1, 3]]) {
+        expect(countPdfPages(elements, area(height), options)).toBe(pages)
+        expect(pageCount(await exported(elements, area(height), options))).toBe(pages)
+      }
+    })
+
+    it('tiles across as many pages as asked', async () => {
+      const wide = { ...options, pagesAcross: 3 }
+      // Three pages across triple the scale, so each page covers a third of the height
+      const height = CONTENT_HEIGHT
+      expect(countPdfPages([], area(height), wide)).toBe(9)
+      expect(pageCount(await exported([], area(height), wide))).toBe(9)
+    })
+
+    it('puts each outermost section on its own page', async () => {
+      const elements = [
+        box('frame', 0, 0, 400, 300), box('nested', 20, 20, 200, 100), box('inside', 40, 40, 20, 20),
+        box('second', 0, 500, 400, 300), box('note', 100, 600, 20, 20),
+        box('empty', 1000, 0, 100, 100)
+      ]
+      const sections = { ...options, layout: 'sections' as const }
+      expect(findSections(elements)).toEqual([
+        { x: 0, y: 0, width: 400, height: 300 },
+        { x: 0, y: 500, width: 400, height: 300 }
+      ])
+      expect(countPdfPages(elements, area(100), sections)).toBe(2)
+      expect(pageCount(await exported(elements, area(100), sections))).toBe(2)
+    })
+
+    it('tiles a board without sections', async () => {
+      const sections = { ...options, layout: 'sections' as const }
+      const height = CONTENT_HEIGHT * 2
+      expect(countPdfPages([box('a', 0, 0, 10, 10)], area(height), sections)).toBe(2)
+      expect(pageCount(await exported([box('a', 0, 0, 10, 10)], area(height), sections))).toBe(2)
+    })
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import type { WhiteboardElement } from '../src/types/whiteboard'
+import type { BoardOperation } from '../src/lib/boardStorage'
+import { sortByPosition } from '../src/lib/boardDocument'
+import { parseStoredElements, serializeElement } from '../src/lib/elementSchema'
+import { buildReplay } from '../src/lib/replay'
+
+const box = (id: string, x: number, position: string): WhiteboardElement =>
+  ({ id, type: 'rectangle', x, y: 0, width: 10, height: 10, color: '#000000', strokeWidth: 2, position })
+
+// On the board before recording started, so the log never mentions it
+const untouched: WhiteboardElement = { ...box('untouched', -50, 'a0'), selected: false }
+
+// 130 operations, enough to pass two keyframes: each moves one of ten boxes,
+// and every seventh also deletes another
+function buildLog() {
+  const start = Date.parse('2026-01-01T00:00:00Z')
+  return Array.from({ length: 130 }, (_, i): BoardOperation => {
+    const moved = box(`box-${i % 10}`, i, `a${(i % 10) + 1}`)
+    return {
+      id: `operation-${i}`,
+      sessionId: 'session',
+      createdAt: new Date(start + i * 1000).toISOString(),
+      userId: i % 2 ? 'ada' : 'grace',
+      upserts: [{ id: moved.id, data: serializeElement(moved) }],
+      deletes: i % 7 === 6 ? [`box-${(i + 3) % 10}`] : []
+    }
+  })
+}
+
+// The board after the first `count` operations, replayed from scratch
+function boardAfter(log: BoardOperation[], count: number) {
+  const board = new Map([[untouched.id, untouched]])
+  log.slice(0, count).forEach(operation => {
+    parseStoredElements(operation.upserts.map(stored => stored.data)).forEach(el => board.set(el.id, el))
+    operation.deletes.forEach(id => board.delete(id))
+  })
+  return sortByPosition(Array.from(board.values()))
+}
+
+// The board now, with a selection that the replay should not show
+function currentBoard(log: BoardOperation[]) {
+  return boardAfter(log, log.length).map(el => el.id === untouched.id ? { ...el, selected: true } : el)
+}
+
+describe('replay', () => {
+  it('shows the board as it was after each operation', () => {
+    const log = buildLog()
+    const replay = buildReplay(log, currentBoard(log))
+
+    expect(replay.elementsAt(0)).toEqual([untouched])
+    replay.steps.forEach((step, index) => {
+      expect(replay.stepAt(step.time)).toBe(index)
+      expect(replay.elementsAt(step.time)).toEqual(boardAfter(log, index + 1))
+    })
+  })
+
+  it('seeks backwards and across keyframes', () => {
+    const log = buildLog()
+    const replay = buildReplay(log, currentBoard(log))
+
+    for (const index of [129, 49, 50, 0, 99, 100, 51, 3]) {
+      expect(replay.elementsAt(replay.steps[index].time)).toEqual(boardAfter(log, index + 1))
+    }
+  })
+
+  it('returns the same array until another step is applied', () => {
+    const log = buildLog()
+    const replay = buildReplay(log, currentBoard(log))
+    const { time } = replay.steps[60]
+
+    const shown = replay.elementsAt(time)
+    expect(replay.elementsAt(time + 1)).toBe(shown)
+    expect(replay.elementsAt(replay.steps[61].time)).not.toBe(shown)
+  })
+
+  it('shortens long idle gaps', () => {
+    const log = buildLog().slice(0, 2)
+    log[1].createdAt = '2026-01-03T00:00:00Z'
+    const replay = buildReplay(log, currentBoard(log))
+
+    expect(replay.steps[1].time - replay.steps[0].time).toBe(2000)
+    expect(replay.duration).toBe(replay.steps[1].time + 1000)
+  })
+})
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { WhiteboardElement } from '../src/types/whiteboard'
+import { type ElementChanges, createSaveQueue } from '../src/lib/saveQueue'
+
+const shape = (id: string, x = 0): WhiteboardElement => ({
+  id, type: 'rectangle', x, y: 0, width: 40, height: 30, color: '#000000', strokeWidth: 2
+})
+
+// A queue over a write that records each save and fails while `failing` is set
+function setup() {
+  const saves: ElementChanges[] = []
+  const state = { failing: false }
+  const onError = vi.fn()
+  const onSettled = vi.fn()
+  const queue = createSaveQueue({
+    write: async changes => {
+      if (state.failing) throw new Error('offline')
+      saves.push(changes)
+    },
+    onError,
+    onSettled
+  })
+  return { queue, saves, state, onError, onSettled }
+}
+
+describe('save queue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('waits for edits to settle before saving', async () => {
+    const { queue, saves, onSettled } = setup()
+    queue.schedule({ upserts: [shape('a')], deletes: [] })
+    await vi.advanceTimersByTimeAsync(400)
+    queue.schedule({ upserts: [shape('b')], deletes: [] })
+    await vi.advanceTimersByTimeAsync(400)
+    expect(saves).toEqual([])
+
+    await vi.advanceTimersByTimeAsync(100)
+    expect(saves).toEqual([{ upserts: [shape('a'), shape('b')], deletes: [] }])
+    expect(onSettled).toHaveBeenCalledOnce()
+  })
+
+  it('folds repeated changes to one element into the latest', async () => {
+    const { queue, saves } = setup()
+    queue.schedule({ upserts: [shape('a', 1), shape('b')], deletes: [] })
+    queue.schedule({ upserts: [shape('a', 2)], deletes: ['b'] })
+    queue.schedule({ upserts: [], deletes: ['a'] })
+    queue.schedule({ upserts: [shape('a', 3)], deletes: [] })
+    await vi.advanceTimersByTimeAsync(500)
+
+    expect(saves).toEqual([{ upserts: [shape('a', 3)], deletes: ['b'] }])
+  })
+
+  it('retries failed saves with backoff, along with newer changes', async () => {
+    const { queue, saves, state, onError, onSettled } = setup()
+    state.failing = true
+    queue.schedule({ upserts: [shape('a', 1), shape('b')], deletes: [] })
+    await vi.advanceTimersByTimeAsync(500)
+    expect(onError).toHaveBeenLastCalledWith(expect.any(Error), 1)
+
+    // The second attempt comes a second later, the third two after that
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(onError).toHaveBeenLastCalledWith(expect.any(Error), 2)
+    queue.schedule({ upserts: [shape('a', 2)], deletes: [] })
+    state.failing = false
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(saves).toEqual([])
+
+    await vi.advanceTimersByTimeAsync(1)
+    expect(saves).toEqual([{ upserts: [shape('a', 2), shape('b')], deletes: [] }])
+    expect(onSettled).toHaveBeenCalledOnce()
+
+    // Back to the usual quiet period
+    queue.schedule({ upserts: [shape('c')], deletes: [] })
+    await vi.advanceTimersByTimeAsync(500)
+    expect(saves).toHaveLength(2)
+  })
+
+  it('saves changes made during a save after it', async () => {
+    const { queue, saves } = setup()
+    queue.schedule({ upserts: [shape('a')], deletes: [] })
+    await vi.advanceTimersByTimeAsync(500)
+    queue.schedule({ upserts: [shape('b')], deletes: [] })
+    await vi.advanceTimersByTimeAsync(500)
+    expect(saves.map(save => save.upserts.map(element => element.id))).toEqual([['a'], ['b']])
+  })
+
+  it('saves at once when flushed, as on closing the tab', async () => {
+    const { queue, saves } = setup()
+    queue.schedule({ upserts: [shape('a')], deletes: ['b'] })
+    await queue.flush()
+    expect(saves).toEqual([{ upserts: [shape('a')], deletes: ['b'] }])
+
+    // Nothing is left for the debounce to save again
+    await vi.advanceTimersByTimeAsync(500)
+    expect(saves).toHaveLength(1)
+  })
+
+  it('gives up flushing when a save fails, leaving it to the retry', async () => {
+    const { queue, saves, state } = setup()
+    state.failing = true
+    queue.schedule({ upserts: [shape('a')], deletes: [] })
+    await queue.flush()
+    expect(saves).toEqual([])
+
+    state.failing = false
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(saves).toHaveLength(1)
+  })
+
+  it('stops saving once disposed', async () => {
+    const { queue, saves } = setup()
+    queue.schedule({ upserts: [shape('a')], deletes: [] })
+    queue.dispose()
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(saves).toEqual([])
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import type { Point, WhiteboardElement } from '../src/types/whiteboard'
+import { isElementInPolygon, isElementInRect, selectWhere } from '../src/lib/selection'
+
+// A horizontal stroke from (0, 0) to (100, 0); a quarter turn stands it
+// upright from (50, -50) to (50, 50)
+const stroke: WhiteboardElement = {
+  id: 'stroke', type: 'path', x: 0, y: 0, color: '#000000', strokeWidth: 2,
+  points: [{ x: 0, y: 0 }, { x: 50, y: 0 }, { x: 100, y: 0 }]
+}
+const upright = { ...stroke, rotation: Math.PI / 2 }
+
+// A 40 by 20 box centred on (50, 0); a quarter turn makes it 20 by 40
+const box: WhiteboardElement = {
+  id: 'box', type: 'rectangle', x: 30, y: -10, width: 40, height: 20, color: '#000000', strokeWidth: 2
+}
+const turned = { ...box, rotation: Math.PI / 2 }
+
+const rectangle = (x: number, y: number, width: number, height: number): Point[] =>
+  [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }]
+
+describe('selection', () => {
+  describe('lasso', () => {
+    it('encloses a rotated path where it is drawn', () => {
+      const tall = rectangle(45, -60, 10, 120)
+      const wide = rectangle(-10, -5, 120, 10)
+      expect(isElementInPolygon(upright, tall)).toBe(true)
+      expect(isElementInPolygon(upright, wide)).toBe(false)
+      expect(isElementInPolygon(stroke, wide)).toBe(true)
+      expect(isElementInPolygon(stroke, tall)).toBe(false)
+    })
+
+    it('encloses a rotated shape where it is drawn', () => {
+      const tall = rectangle(38, -22, 24, 44)
+      expect(isElementInPolygon(turned, tall)).toBe(true)
+      expect(isElementInPolygon(box, tall)).toBe(false)
+    })
+
+    it('needs at least a triangle', () => {
+      expect(isElementInPolygon(stroke, [{ x: -10, y: -10 }, { x: 110, y: 10 }])).toBe(false)
+    })
+  })
+
+  describe('selectWhere', () => {
+    it('copies only the elements whose selection flips', () => {
+      const elements = [stroke, { ...box, selected: true }, { ...turned, id: 'other' }]
+      const selected = selectWhere(elements, el => el.id !== 'box')
+
+      expect(selected.map(el => !!el.selected)).toEqual([true, false, true])
+      expect(selected.every((el, i) => el !== elements[i])).toBe(true)
+      expect(selectWhere(selected, el => el.id !== 'box').every((el, i) => el === selected[i])).toBe(true)
+    })
+
+    it('keeps the selection when additive', () => {
+      const elements = [stroke, { ...box, selected: true }]
+      const selected = selectWhere(elements, el => el.id === 'stroke', true)
+      expect(selected.map(el => el.selected)).toEqual([true, true])
+      expect(selected[1]).toBe(elements[1])
+    })
+  })
+
+  describe('marquee', () => {
+    it('encloses a rotated shape where it is drawn', () => {
+      expect(isElementInRect(turned, { x: 38, y: -22, width: 24, height: 44 })).toBe(true)
+      expect(isElementInRect(box, { x: 38, y: -22, width: 24, height: 44 })).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import type { Bounds, WhiteboardElement } from '../src/types/whiteboard'
+import { getElementBounds } from '../src/lib/geometry'
+import { createSpatialIndex, getPaintBounds, searchSpatialIndex, syncSpatialIndex, updateSpatialIndex } from '../src/lib/spatialIndex'
+
+const box = (id: string, x: number, y: number, size = 10): WhiteboardElement =>
+  ({ id, type: 'rectangle', x, y, width: size, height: size, color: '#000000', strokeWidth: 2 })
+
+// A grid of `count` boxes, 50 apart, enough to split nodes several times
+function grid(count: number) {
+  return Array.from({ length: count }, (_, i) => box(`box-${i}`, (i % 20) * 50, Math.floor(i / 20) * 50))
+}
+
+const ids = (elements: WhiteboardElement[]) => elements.map(el => el.id)
+
+// The elements a linear scan finds painting into `area`, for comparison.
+// Boxes paint half their stroke width past their edges.
+function scan(elements: WhiteboardElement[], area: Bounds) {
+  return ids(elements.filter(el => {
+    const { x, y, width, height } = getElementBounds(el)
+    return x - 1 <= area.x + area.width && x + width + 1 >= area.x &&
+      y - 1 <= area.y + area.height && y + height + 1 >= area.y
+  }))
+}
+
+function indexOf(elements: WhiteboardElement[]) {
+  const index = createSpatialIndex()
+  syncSpatialIndex(index, elements)
+  return index
+}
+
+describe('spatial index', () => {
+  it('finds only the elements near the queried area', () => {
+    const elements = grid(400)
+    const index = indexOf(elements)
+
+    for (const area of [
+      { x: 0, y: 0, width: 1, height: 1 },
+      { x: 120, y: 480, width: 200, height: 75 },
+      { x: 975, y: 975, width: 10, height: 10 },
+      { x: -500, y: -500, width: 2000, height: 2000 }
+    ]) {
+      expect(ids(searchSpatialIndex(index, area))).toEqual(scan(elements, area))
+    }
+    expect(searchSpatialIndex(index, { x: 5000, y: 5000, width: 10, height: 10 })).toEqual([])
+  })
+
+  it('returns results in drawing order', () => {
+    const elements = [box('top', 0, 0), box('middle', 5, 5), box('bottom', 2, 2)]
+    const index = indexOf(elements)
+    expect(ids(searchSpatialIndex(index, { x: 0, y: 0, width: 20, height: 20 }))).toEqual(['top', 'middle', 'bottom'])
+
+    syncSpatialIndex(index, [elements[2], elements[0], elements[1]])
+    expect(ids(searchSpatialIndex(index, { x: 0, y: 0, width: 20, height: 20 }))).toEqual(['bottom', 'top', 'middle'])
+  })
+
+  it('inserts elements added by a later sync, even far outside the root', () => {
+    const elements = grid(50)
+    const index = indexOf(elements)
+    const far = box('far', 100000, -100000)
+
+    syncSpatialIndex(index, [...elements, far])
+    expect(ids(searchSpatialIndex(index, { x: 99990, y: -100010, width: 40, height: 40 }))).toEqual(['far'])
+    expect(ids(searchSpatialIndex(index, { x: 0, y: 0, width: 1, height: 1 }))).toEqual(['box-0'])
+  })
+
+  it('removes elements missing from a later sync', () => {
+    const elements = grid(100)
+    const index = indexOf(elements)
+    const kept = elements.filter((_, i) => i % 2 === 0)
+
+    syncSpatialIndex(index, kept)
+    const everywhere = { x: -100, y: -100, width: 2000, height: 2000 }
+    expect(ids(searchSpatialIndex(index, everywhere))).toEqual(ids(kept))
+    expect(index.nodeOf.size).toBe(kept.length)
+    expect(index.order.size).toBe(kept.length)
+  })
+
+  it('moves elements whose bounds changed', () => {
+    const elements = grid(100)
+    const index = indexOf(elements)
+    const moved = { ...elements[0], x: 3000, y: 3000 }
+
+    syncSpatialIndex(index, [moved, ...elements.slice(1)])
+    expect(searchSpatialIndex(index, { x: 0, y: 0, width: 1, height: 1 })).toEqual([])
+    expect(searchSpatialIndex(index, { x: 3000, y: 3000, width: 1, height: 1 })).toEqual([moved])
+  })
+
+  it('covers text running past the bottom of a sticky note', () => {
+    const note: WhiteboardElement = {
+      id: 'note', type: 'sticky-note', x: 0, y: 0, width: 100, height: 100, color: '#000000', strokeWidth: 2,
+      text: Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n')
+    }
+    // Twenty lines 8 apart, the last baseline at 172
+    expect(getPaintBounds([note]).height).toBeGreaterThan(172)
+    expect(ids(searchSpatialIndex(indexOf([note]), { x: 10, y: 160, width: 5, height: 5 }))).toEqual(['note'])
+    expect(getPaintBounds([{ ...note, text: 'short' }])).toEqual({ x: -1, y: -1, width: 102, height: 102 })
+  })
+
+  describe('update', () => {
+    it('re-inserts only the given elements and keeps their drawing order', () => {
+      const elements = grid(100)
+      const index = indexOf(elements)
+      const moved = [{ ...elements[1], x: 2000, y: 0 }, { ...elements[0], x: 2005, y: 0 }]
+
+      updateSpatialIndex(index, moved)
+      expect(ids(searchSpatialIndex(index, { x: 2000, y: 0, width: 20, height: 20 }))).toEqual(['box-0', 'box-1'])
+      expect(searchSpatialIndex(index, { x: 0, y: 0, width: 1, height: 1 })).toEqual([])
+
+      updateSpatialIndex(index, elements.slice(0, 2))
+      expect(searchSpatialIndex(index, { x: 2000, y: 0, width: 20, height: 20 })).toEqual([])
+      expect(ids(searchSpatialIndex(index, { x: 0, y: 0, width: 1, height: 1 }))).toEqual(['box-0'])
+    })
+
+    it('ignores elements that were never synced', () => {
+      const index = indexOf(grid(10))
+      updateSpatialIndex(index, [box('stray', 0, 0)])
+      expect(ids(searchSpatialIndex(index, { x: 0, y: 0, width: 1, height: 1 }))).toEqual(['box-0'])
+      expect(index.nodeOf.has('stray')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import type { WhiteboardElement } from '../src/types/whiteboard'
+import { renderThumbnail } from '../src/lib/thumbnail'
+
+const box = (id: string, x: number, y: number, width: number, height: number): WhiteboardElement =>
+  ({ id, type: 'rectangle', x, y, width, height, color: '#1f2937', strokeWidth: 2 })
+
+const viewBox = (svg: string) => svg.match(/viewBox="([^"]+)"/)![1].split(' ').map(Number)
+
+describe('thumbnail', () => {
+  it('is null for an empty board', () => {
+    expect(renderThumbnail([], 320, 180)).toBeNull()
+  })
+
+  it('fits the whole board, centered, at the thumbnail size', () => {
+    const svg = renderThumbnail([box('a', 0, 0, 100, 100), box('b', 3000, 900, 100, 100)], 320, 180)!
+    expect(svg).toMatch(/^<svg [^>]*width="320" height="180"/)
+    expect(svg.match(/<rect /g)).toHaveLength(2)
+
+    // The board is wider than the thumbnail, so it spans the width exactly
+    const [x, y, width, height] = viewBox(svg)
+    expect(x).toBe(-25)
+    expect(width).toBe(3150)
+    expect(width / height).toBeCloseTo(320 / 180, 2)
+    expect(y + height / 2).toBeCloseTo(500, 0)
+  })
+
+  it('does not enlarge a small board', () => {
+    const svg = renderThumbnail([box('a', 10, 10, 20, 20)], 320, 180)!
+    expect(viewBox(svg)).toEqual([-140, -70, 320, 180])
+  })
+})
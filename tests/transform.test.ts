@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import type { Bounds, WhiteboardElement } from '../src/types/whiteboard'
+import { getSelectionBounds } from '../src/lib/selection'
+import { SELECTION_PADDING, resizeElements, rotateElements } from '../src/lib/transform'
+
+const box = (id: string, x: number, y: number, width: number, height: number, rotation?: number): WhiteboardElement =>
+  ({ id, type: 'rectangle', x, y, width, height, color: '#000000', strokeWidth: 2, rotation })
+
+const options = { keepAspectRatio: false, fromCenter: false }
+
+// Bounds rounded to the pixel, so rotation rounding noise doesn't matter
+const rounded = (bounds: Bounds | null) => bounds && {
+  x: Math.round(bounds.x), y: Math.round(bounds.y), width: Math.round(bounds.width), height: Math.round(bounds.height)
+}
+const footprint = (element: WhiteboardElement) => rounded(getSelectionBounds([element]))
+
+// A square, and a 100 × 50 box stood on end: on the board it covers
+// x 225 to 275 and y -25 to 75
+const square = box('square', 0, 0, 100, 100)
+const upright = box('upright', 200, 0, 100, 50, Math.PI / 2)
+const group = [square, upright]
+const bounds = getSelectionBounds(group)!
+
+describe('transform', () => {
+  describe('group resize', () => {
+    it('stretches rotated members along the board axes without skewing them', () => {
+      // Drag the east handle out to double the group's width
+      const pointer = { x: bounds.x + bounds.width * 2 + SELECTION_PADDING, y: 0 }
+      const [wide, stretched] = resizeElements(group, bounds, 'e', pointer, options)
+
+      expect(footprint(wide)).toEqual({ x: 0, y: 0, width: 200, height: 100 })
+      expect(stretched.rotation).toBe(Math.PI / 2)
+      // Its side lying along the board's x axis doubled; the other kept its length
+      expect(stretched.width).toBeCloseTo(100)
+      expect(stretched.height).toBeCloseTo(100)
+      expect(footprint(stretched)).toEqual({ x: 450, y: -25, width: 100, height: 100 })
+    })
+
+    it('scales rotated members with the box when the aspect ratio is kept', () => {
+      const tilted = box('tilted', 200, 0, 100, 50, Math.PI / 4)
+      const from = getSelectionBounds([square, tilted])!
+      const pointer = { x: from.x + from.width * 2 + SELECTION_PADDING, y: from.y + from.height * 2 + SELECTION_PADDING }
+      const [, scaled] = resizeElements([square, tilted], from, 'se', pointer, options)
+
+      const before = getSelectionBounds([tilted])!
+      expect(scaled.rotation).toBe(Math.PI / 4)
+      expect(footprint(scaled)).toEqual(rounded({
+        x: from.x + (before.x - from.x) * 2,
+        y: from.y + (before.y - from.y) * 2,
+        width: before.width * 2,
+        height: before.height * 2
+      }))
+    })
+
+    it('reverses the rotation of mirrored members', () => {
+      const tilted = box('tilted', 200, 0, 100, 50, Math.PI / 6)
+      const from = getSelectionBounds([square, tilted])!
+      const pointer = { x: from.x - from.width + SELECTION_PADDING, y: 0 }
+      const [, mirrored] = resizeElements([square, tilted], from, 'e', pointer, options)
+
+      expect(mirrored.rotation).toBeCloseTo(2 * Math.PI - Math.PI / 6)
+      const before = footprint(tilted)!
+      expect(footprint(mirrored)).toEqual({ ...before, x: 2 * from.x - before.x - before.width })
+    })
+  })
+
+  describe('group rotation', () => {
+    it('swings members around the center of the group and turns them', () => {
+      const center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }
+      const origin = { x: center.x + 100, y: center.y }
+      const pointer = { x: center.x, y: center.y + 100 }
+      const [turnedSquare, turnedUpright] = rotateElements(group, bounds, origin, pointer, false)
+
+      expect(turnedSquare.rotation).toBeCloseTo(Math.PI / 2)
+      expect(turnedUpright.rotation).toBeCloseTo(Math.PI)
+      expect(rounded(getSelectionBounds([turnedSquare, turnedUpright]))).toEqual(rounded({
+        x: center.x - bounds.height / 2,
+        y: center.y - bounds.width / 2,
+        width: bounds.height,
+        height: bounds.width
+      }))
+    })
+
+    it('snaps the angle swept', () => {
+      const center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }
+      const origin = { x: center.x + 100, y: center.y }
+      const pointer = { x: center.x + 100, y: center.y + 30 }
+      const [turned] = rotateElements(group, bounds, origin, pointer, true)
+      expect(turned.rotation).toBeCloseTo(Math.PI / 12)
+    })
+
+    it('swings connector endpoints', () => {
+      const line: WhiteboardElement = { id: 'line', type: 'line', x: 0, y: 0, width: 100, height: 0, color: '#000000', strokeWidth: 2 }
+      const from = { x: 0, y: -50, width: 100, height: 100 }
+      const [turned] = rotateElements([line], from, { x: 100, y: 0 }, { x: 50, y: 50 }, false)
+
+      expect(turned.rotation).toBeUndefined()
+      expect(turned.x).toBeCloseTo(50)
+      expect(turned.y).toBeCloseTo(-50)
+      expect(turned.width).toBeCloseTo(0)
+      expect(turned.height).toBeCloseTo(100)
+    })
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import type { WhiteboardElement } from '../src/types/whiteboard'
+import { createBoardDocument } from '../src/lib/boardDocument'
+import { createLogicalClock } from '../src/lib/operations'
+import { applyUndoState, createUndoEntry } from '../src/lib/undo'
+
+const shape = (id: string, position: string): WhiteboardElement => ({
+  id, type: 'rectangle', x: 0, y: 0, width: 40, height: 30, color: '#000000', strokeWidth: 2, position
+})
+
+// A local board and a collaborator's, with the edits of each reaching the other
+function setup() {
+  const local = createBoardDocument(createLogicalClock('local'))
+  const remote = createBoardDocument(createLogicalClock('remote'))
+  local.load([shape('a', 'a0'), shape('b', 'a1')])
+  remote.load([shape('a', 'a0'), shape('b', 'a1')])
+
+  // A local edit, recorded the way the app records it
+  const edit = (next: (elements: WhiteboardElement[]) => WhiteboardElement[]) => {
+    const before = local.getElements()
+    const operations = local.change(next(before))
+    remote.apply(operations)
+    return createUndoEntry(operations, before, local.getElements())!
+  }
+  const remoteEdit = (next: (elements: WhiteboardElement[]) => WhiteboardElement[]) => {
+    local.apply(remote.change(next(remote.getElements())))
+  }
+  return { local, edit, remoteEdit }
+}
+
+describe('undo', () => {
+  it('records nothing for a change of selection only', () => {
+    const board = createBoardDocument(createLogicalClock('local'))
+    board.load([shape('a', 'a0')])
+    const before = board.getElements()
+    const operations = board.change(before.map(element => ({ ...element, selected: true })))
+    expect(createUndoEntry(operations, before, board.getElements())).toBeNull()
+  })
+
+  it('reverts only the properties the edit changed', () => {
+    const { local, edit, remoteEdit } = setup()
+    const entry = edit(elements => elements.map(element => element.id === 'a' ? { ...element, x: 100 } : element))
+    remoteEdit(elements => elements.map(element => element.id === 'a' ? { ...element, color: '#e03131' } : element))
+
+    const undone = applyUndoState(local.getElements(), entry.after, entry.before)
+    expect(undone.find(element => element.id === 'a')).toMatchObject({ x: 0, color: '#e03131' })
+
+    local.change(undone)
+    const redone = applyUndoState(local.getElements(), entry.before, entry.after)
+    expect(redone.find(element => element.id === 'a')).toMatchObject({ x: 100, color: '#e03131' })
+  })
+
+  it("leaves collaborators' elements alone", () => {
+    const { local, edit, remoteEdit } = setup()
+    const entry = edit(elements => elements.filter(element => element.id !== 'a'))
+    remoteEdit(elements => [...elements, shape('c', 'a2')])
+
+    const undone = applyUndoState(local.getElements(), entry.after, entry.before)
+    expect(undone.map(element => element.id)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('removes an added element and brings it back', () => {
+    const { local, edit } = setup()
+    const entry = edit(elements => [...elements, shape('c', 'a2')])
+
+    const undone = applyUndoState(local.getElements(), entry.after, entry.before)
+    expect(undone.map(element => element.id)).toEqual(['a', 'b'])
+    local.change(undone)
+    expect(applyUndoState(local.getElements(), entry.before, entry.after).map(element => element.id))
+      .toEqual(['a', 'b', 'c'])
+  })
+
+  it('keeps an element deleted by someone else since', () => {
+    const { local, edit, remoteEdit } = setup()
+    const entry = edit(elements => elements.map(element => element.id === 'b' ? { ...element, y: 80 } : element))
+    remoteEdit(elements => elements.filter(element => element.id !== 'b'))
+
+    expect(applyUndoState(local.getElements(), entry.after, entry.before).map(element => element.id)).toEqual(['a'])
+  })
+})